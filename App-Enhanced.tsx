@@ -1,7 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { Send, Bot, User, Settings, FileText, Terminal, GitBranch, Zap, Save, RotateCcw } from 'lucide-react'
+import { Send, Bot, User, Settings, FileText, Terminal, GitBranch, Zap, Save, RotateCcw, ShieldAlert, Check, X, Server, RefreshCw, ListTree, History, GitCompare, Undo2 } from 'lucide-react'
 import { Agent, AgentOptions, AgentMessage } from './core/agent/Agent'
 import { buildApiHandler } from './core/api'
+import type { AskResponse } from './core/approval/AutoApprovalHandler'
+import { McpHub } from './core/advanced/mcp/McpHub'
+import type { McpServer } from './core/advanced/mcp/McpHub'
+import type { SubtaskInfo, SubtaskStatus } from './core/advanced/subtasks/SubtaskManager'
+import { DEFAULT_MODES, DEFAULT_MODE_SLUG } from './core/modes/modes'
+import type { ModeConfig } from './core/modes/modes'
+import type { Checkpoint, CheckpointDiff, CheckpointFileDiff } from './core/checkpoints/CheckpointManager'
+import type { UnifiedHunk } from './core/advanced/diff/UnifiedDiff'
 
 interface ChatMessage {
   id: string
@@ -12,6 +20,346 @@ interface ChatMessage {
   metadata?: Record<string, any>
 }
 
+interface ApprovalPrompt {
+  id: string
+  type: string
+  data: any
+  resolve: (answer: AskResponse) => void
+}
+
+const APPROVAL_TITLES: Record<string, string> = {
+  command_approval: 'Run command?',
+  file_operation_approval: 'Change files?',
+  tool_use_approval: 'Use tool?',
+  api_request_approval: 'Send API request?',
+  auto_approval_limit_reached: 'Auto-approval limit reached'
+}
+
+const ApprovalCard: React.FC<{
+  prompt: ApprovalPrompt
+  queued: number
+  onAnswer: (prompt: ApprovalPrompt, response: string, pattern?: string) => void
+}> = ({ prompt, queued, onAnswer }) => {
+  const [pattern, setPattern] = useState(prompt.data?.suggestedPattern || '')
+  const isLimitPrompt = prompt.type === 'auto_approval_limit_reached'
+  
+  return (
+    <div className={`mb-3 rounded-lg border p-3 ${prompt.data?.dangerous ? 'border-red-500 bg-red-950' : 'border-yellow-500 bg-gray-800'}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <ShieldAlert className={`w-4 h-4 ${prompt.data?.dangerous ? 'text-red-400' : 'text-yellow-400'}`} />
+        <span className="text-sm font-medium">{APPROVAL_TITLES[prompt.type] || 'Approval needed'}</span>
+        {queued > 0 && <span className="ml-auto text-xs text-gray-400">+{queued} more waiting</span>}
+      </div>
+      
+      {isLimitPrompt ? (
+        <p className="text-sm text-gray-300 mb-3">
+          {prompt.data.recentApprovals} actions were auto-approved in the last {prompt.data.timeWindow} minutes. Keep going?
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-200 mb-2 break-all">{prompt.data?.description}</p>
+          {prompt.data?.dangerous && (
+            <p className="text-xs text-red-300 mb-2">This looks dangerous and always needs your approval.</p>
+          )}
+          <details className="mb-3">
+            <summary className="text-xs text-gray-400 cursor-pointer">Details</summary>
+            <pre className="mt-1 max-h-48 overflow-auto text-xs bg-gray-900 rounded p-2 whitespace-pre-wrap">{prompt.data?.details}</pre>
+          </details>
+        </>
+      )}
+      
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onAnswer(prompt, 'yesButtonClicked')}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-green-600 hover:bg-green-500 rounded-lg transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          Approve
+        </button>
+        <button
+          onClick={() => onAnswer(prompt, 'noButtonClicked')}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-red-600 hover:bg-red-500 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Deny
+        </button>
+        {!isLimitPrompt && !prompt.data?.dangerous && prompt.data?.suggestedPattern && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => onAnswer(prompt, 'alwaysAllowButtonClicked', pattern.trim() || prompt.data.suggestedPattern)}
+              className="px-3 py-1 text-sm bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors"
+            >
+              Always allow
+            </button>
+            <input
+              type="text"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              title="Calls matching this pattern will run without asking in this workspace"
+              className="w-40 px-2 py-1 text-xs font-mono bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const SUBTASK_STATUS_COLORS: Record<SubtaskStatus, string> = {
+  running: 'bg-green-500 animate-pulse',
+  completed: 'bg-blue-500',
+  failed: 'bg-red-500',
+  aborted: 'bg-gray-500'
+}
+
+// One task and the subtasks it started, indented by depth
+const TaskTreeNode: React.FC<{
+  task: SubtaskInfo
+  tasks: SubtaskInfo[]
+  onAbort: (taskId: string) => void
+}> = ({ task, tasks, onAbort }) => {
+  const children = tasks.filter(child => child.parentTaskId === task.id)
+  const outcome = task.status === 'completed' ? task.result : task.error
+  
+  return (
+    <div className="ml-2 pl-2 border-l border-gray-600">
+      <div className="py-1 text-xs">
+        <div className="flex items-center gap-2">
+          <span className={`w-2 h-2 flex-shrink-0 rounded-full ${SUBTASK_STATUS_COLORS[task.status]}`} />
+          {task.mode && <span className="px-1 rounded bg-gray-600 text-gray-300">{task.mode}</span>}
+          <span className="truncate" title={task.message}>{task.message.split('\n')[0]}</span>
+          {task.status === 'running' && (
+            <button
+              onClick={() => onAbort(task.id)}
+              title="Cancel this subtask and everything it started"
+              className="ml-auto p-0.5 text-gray-400 hover:text-red-400 rounded transition-colors"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        {outcome && (
+          <div className={`mt-0.5 ml-4 line-clamp-2 ${task.status === 'completed' ? 'text-gray-400' : 'text-red-300'}`} title={outcome}>
+            {outcome}
+          </div>
+        )}
+      </div>
+      {children.map(child => (
+        <TaskTreeNode key={child.id} task={child} tasks={tasks} onAbort={onAbort} />
+      ))}
+    </div>
+  )
+}
+
+interface DiffCell {
+  number: number
+  text: string
+  changed: boolean
+}
+
+// One row of the side-by-side view; a missing cell leaves that side blank
+interface DiffRow {
+  left?: DiffCell
+  right?: DiffCell
+  header?: string
+}
+
+// Context lines sit on both sides; each run of removals is paired up with the additions that follow it
+function toSideBySideRows(hunks: UnifiedHunk[]): DiffRow[] {
+  const rows: DiffRow[] = []
+  
+  for (const hunk of hunks) {
+    rows.push({ header: hunk.header })
+    let oldLine = hunk.oldStart
+    let newLine = hunk.newStart
+    let removed: DiffCell[] = []
+    let added: DiffCell[] = []
+    
+    const flush = () => {
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        rows.push({ left: removed[i], right: added[i] })
+      }
+      removed = []
+      added = []
+    }
+    
+    for (const line of hunk.lines) {
+      const text = line.slice(1)
+      if (line.startsWith('-')) {
+        removed.push({ number: oldLine++, text, changed: true })
+      } else if (line.startsWith('+')) {
+        added.push({ number: newLine++, text, changed: true })
+      } else if (line.startsWith(' ')) {
+        flush()
+        rows.push({ left: { number: oldLine++, text, changed: false }, right: { number: newLine++, text, changed: false } })
+      }
+    }
+    flush()
+  }
+  
+  return rows
+}
+
+const DiffCellView: React.FC<{ cell?: DiffCell; side: 'left' | 'right' }> = ({ cell, side }) => {
+  const changedColor = side === 'left' ? 'bg-red-950 text-red-200' : 'bg-green-950 text-green-200'
+  return (
+    <>
+      <td className="w-10 px-1 text-right text-gray-500 select-none align-top">{cell?.number}</td>
+      <td className={`w-1/2 px-2 whitespace-pre-wrap break-all align-top ${cell ? (cell.changed ? changedColor : '') : 'bg-gray-800'}`}>
+        {cell?.text}
+      </td>
+    </>
+  )
+}
+
+const FileDiffView: React.FC<{ file: CheckpointFileDiff }> = ({ file }) => {
+  if (file.binary) {
+    return <p className="p-4 text-sm text-gray-400">Binary file {file.type} - no preview.</p>
+  }
+  if (file.hunks.length === 0) {
+    return <p className="p-4 text-sm text-gray-400">Empty file {file.type}.</p>
+  }
+  
+  return (
+    <table className="w-full table-fixed font-mono text-xs">
+      <tbody>
+        {toSideBySideRows(file.hunks).map((row, index) => row.header ? (
+          <tr key={index} className="bg-gray-800 text-blue-300">
+            <td colSpan={4} className="px-2 py-1">{row.header}</td>
+          </tr>
+        ) : (
+          <tr key={index}>
+            <DiffCellView cell={row.left} side="left" />
+            <DiffCellView cell={row.right} side="right" />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+const FILE_CHANGE_COLORS: Record<CheckpointFileDiff['type'], string> = {
+  added: 'text-green-400',
+  modified: 'text-yellow-400',
+  deleted: 'text-red-400'
+}
+
+interface CheckpointView {
+  checkpoint: Checkpoint
+  diff?: CheckpointDiff
+  error?: string
+  selectedPath?: string
+}
+
+// What changed in the workspace since a checkpoint, with the checkpoint on the left and the current files on the right
+const CheckpointDiffViewer: React.FC<{
+  view: CheckpointView
+  canRestore: boolean
+  canRestoreConversation: boolean
+  onSelectFile: (path: string) => void
+  onRestore: (checkpoint: Checkpoint, restoreConversation: boolean) => void
+  onRestoreFile: (checkpoint: Checkpoint, path: string) => void
+  onClose: () => void
+}> = ({ view, canRestore, canRestoreConversation, onSelectFile, onRestore, onRestoreFile, onClose }) => {
+  const { checkpoint, diff, error } = view
+  const selected = diff?.details.find(file => file.path === view.selectedPath) ?? diff?.details[0]
+  
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 p-6">
+      <div className="flex flex-col w-full h-full max-w-6xl bg-gray-900 border border-gray-700 rounded-lg overflow-hidden">
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-700">
+          <GitCompare className="w-5 h-5 text-blue-400" />
+          <div className="min-w-0">
+            <div className="font-medium truncate">{checkpoint.description}</div>
+            <div className="text-xs text-gray-400">
+              {new Date(checkpoint.timestamp).toLocaleString()} · checkpoint on the left, current files on the right
+            </div>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => onRestore(checkpoint, false)}
+              disabled={!canRestore}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              <Undo2 className="w-4 h-4" />
+              Restore files only
+            </button>
+            <button
+              onClick={() => onRestore(checkpoint, true)}
+              disabled={!canRestore || !canRestoreConversation}
+              title={canRestoreConversation ? 'Also remove the chat after this checkpoint' : 'The message this checkpoint belongs to is not in the conversation'}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-orange-600 hover:bg-orange-500 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Restore files and conversation
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        
+        {!canRestore && (
+          <div className="px-4 py-1 text-xs text-yellow-300 bg-gray-800">Stop the agent to restore a checkpoint.</div>
+        )}
+        
+        {error ? (
+          <p className="p-4 text-sm text-red-300">{error}</p>
+        ) : !diff ? (
+          <p className="p-4 text-sm text-gray-400">Comparing with the current files...</p>
+        ) : diff.details.length === 0 ? (
+          <p className="p-4 text-sm text-gray-400">No files have changed since this checkpoint.</p>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <div className="w-64 flex-shrink-0 border-r border-gray-700 overflow-y-auto">
+              {diff.details.map(file => (
+                <button
+                  key={file.path}
+                  onClick={() => onSelectFile(file.path)}
+                  className={`w-full px-3 py-2 text-left text-xs hover:bg-gray-800 ${file.path === selected?.path ? 'bg-gray-800' : ''}`}
+                >
+                  <div className="truncate font-mono" title={file.path}>{file.path}</div>
+                  <div className="flex gap-2">
+                    <span className={FILE_CHANGE_COLORS[file.type]}>{file.type}</span>
+                    {!file.binary && <span className="text-green-400">+{file.additions}</span>}
+                    {!file.binary && <span className="text-red-400">-{file.deletions}</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+            
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-700 text-xs">
+                  <span className="font-mono truncate">{selected.path}</span>
+                  <button
+                    onClick={() => onRestoreFile(checkpoint, selected.path)}
+                    className="ml-auto flex items-center gap-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+                  >
+                    <Undo2 className="w-3 h-3" />
+                    {selected.type === 'added' ? 'Delete this file' : 'Restore this file'}
+                  </button>
+                </div>
+                <div className="flex-1 overflow-auto">
+                  <FileDiffView file={selected} />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const MCP_STATUS_COLORS: Record<McpServer['status'], string> = {
+  connected: 'bg-green-500',
+  connecting: 'bg-yellow-500',
+  disconnected: 'bg-red-500',
+  disabled: 'bg-gray-500',
+  untrusted: 'bg-orange-500'
+}
+
 interface AgentStatus {
   status: string
   isRunning: boolean
@@ -38,6 +386,14 @@ const MominAI: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false)
   const [autoApproval, setAutoApproval] = useState(false)
   const [enableCheckpoints, setEnableCheckpoints] = useState(true)
+  const [approvalQueue, setApprovalQueue] = useState<ApprovalPrompt[]>([])
+  const [mcpServers, setMcpServers] = useState<McpServer[]>([])
+  const [mcpConfigErrors, setMcpConfigErrors] = useState<string[]>([])
+  const [subtasks, setSubtasks] = useState<Record<string, SubtaskInfo>>({})
+  const [modes, setModes] = useState<ModeConfig[]>(DEFAULT_MODES)
+  const [currentMode, setCurrentMode] = useState(DEFAULT_MODE_SLUG)
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([])
+  const [checkpointView, setCheckpointView] = useState<CheckpointView | null>(null)
   
   const agentRef = useRef<Agent | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -46,6 +402,27 @@ const MominAI: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
   
+  useEffect(() => {
+    // Workspace MCP servers come from .mominai/mcp.json and reload when it changes
+    const hub = McpHub.getInstance()
+    const refreshMcpServers = () => {
+      setMcpServers(hub.getServers().map(server => ({ ...server })))
+      setMcpConfigErrors(hub.getConfigErrors())
+    }
+    
+    hub.on('server_status', refreshMcpServers)
+    hub.on('config_loaded', refreshMcpServers)
+    if (workspacePath) {
+      hub.watchConfig(workspacePath).catch(error => console.error('Failed to load MCP config:', error))
+    }
+    refreshMcpServers()
+    
+    return () => {
+      hub.off('server_status', refreshMcpServers)
+      hub.off('config_loaded', refreshMcpServers)
+    }
+  }, [workspacePath])
+  
   useEffect(() => {
     // Initialize agent when settings change
     if (apiKey && workspacePath) {
@@ -56,6 +433,11 @@ const MominAI: React.FC = () => {
       if (agentRef.current) {
         agentRef.current.dispose()
       }
+      // The old agent is gone, so deny anything it was still waiting on
+      setApprovalQueue(prev => {
+        prev.forEach(prompt => prompt.resolve({ response: 'noButtonClicked' }))
+        return []
+      })
     }
   }, [apiKey, selectedModel, workspacePath, autoApproval, enableCheckpoints])
   
@@ -63,6 +445,9 @@ const MominAI: React.FC = () => {
     if (agentRef.current) {
       agentRef.current.dispose()
     }
+    setSubtasks({})
+    setCheckpoints([])
+    setCheckpointView(null)
     
     const agentOptions: AgentOptions = {
       apiConfiguration: {
@@ -75,9 +460,13 @@ const MominAI: React.FC = () => {
       enableCheckpoints: enableCheckpoints,
       fuzzyMatchThreshold: 0.8,
       consecutiveMistakeLimit: 3,
+      mode: currentMode,
       experiments: {
         autoApproval: autoApproval
-      }
+      },
+      askApproval: (type, data) => new Promise<AskResponse>(resolve => {
+        setApprovalQueue(prev => [...prev, { id: crypto.randomUUID(), type, data, resolve }])
+      })
     }
     
     const agent = new Agent(agentOptions)
@@ -97,10 +486,40 @@ const MominAI: React.FC = () => {
       setAgentStatus(prev => ({
         ...prev,
         status,
-        isRunning: status === 'running' || status === 'starting'
+        isRunning: status === 'running' || status === 'starting' || status === 'paused'
       }))
     })
     
+    agent.on('mode_changed', (mode: ModeConfig) => {
+      setCurrentMode(mode.slug)
+    })
+    
+    agent.on('subtask_updated', (info: SubtaskInfo) => {
+      setSubtasks(prev => ({ ...prev, [info.id]: info }))
+    })
+    
+    // Subtask conversations are shown inline, tagged with the task they belong to
+    agent.on('subtask_message', (taskId: string, message: AgentMessage) => {
+      setMessages(prev => [...prev, {
+        id: message.id,
+        type: message.type,
+        content: message.content,
+        timestamp: message.timestamp,
+        metadata: { ...message.metadata, taskId }
+      }])
+    })
+    
+    // Newest first, as the manager returns them
+    agent.on('checkpoint_created', () => {
+      setCheckpoints(agent.checkpointManager?.getCheckpoints() ?? [])
+    })
+    
+    // The agent kept the messages up to the restored checkpoint; drop everything after the last of them
+    agent.on('conversation_restored', (kept: AgentMessage[]) => {
+      const lastId = kept[kept.length - 1]?.id
+      setMessages(prev => prev.slice(0, prev.findIndex(m => m.id === lastId) + 1))
+    })
+    
     agent.on('tool_use', (toolName: string, args: any) => {
       setAgentStatus(prev => ({
         ...prev,
@@ -108,6 +527,13 @@ const MominAI: React.FC = () => {
       }))
     })
     
+    agent.on('usage', (usage: any) => {
+      setAgentStatus(prev => ({
+        ...prev,
+        tokensUsed: prev.tokensUsed + (usage?.totalTokens || 0)
+      }))
+    })
+    
     agent.on('error', (error: Error) => {
       setMessages(prev => [...prev, {
         id: crypto.randomUUID(),
@@ -131,6 +557,40 @@ const MominAI: React.FC = () => {
     })
     
     agentRef.current = agent
+    refreshModes()
+    agent.checkpointManager?.loadCheckpoints()
+      .then(setCheckpoints)
+      .catch(error => console.error('Failed to load checkpoints:', error))
+  }
+  
+  // Custom modes live in .mominai/modes.json and may change while the app is open
+  const refreshModes = () => {
+    agentRef.current?.getModes()
+      .then(setModes)
+      .catch(error => console.error('Failed to load modes:', error))
+  }
+  
+  const handleModeChange = async (slug: string) => {
+    if (!agentRef.current) {
+      setCurrentMode(slug)
+      return
+    }
+    
+    try {
+      await agentRef.current.switchMode(slug)
+    } catch (error) {
+      setMessages(prev => [...prev, {
+        id: crypto.randomUUID(),
+        type: 'system',
+        content: `Error: ${error.message}`,
+        timestamp: Date.now()
+      }])
+    }
+  }
+  
+  const handleApprovalAnswer = (prompt: ApprovalPrompt, response: string, pattern?: string) => {
+    prompt.resolve({ response, pattern })
+    setApprovalQueue(prev => prev.filter(p => p.id !== prompt.id))
   }
   
   const handleSendMessage = async () => {
@@ -185,8 +645,70 @@ const MominAI: React.FC = () => {
     }
   }
   
+  const addSystemMessage = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      type: 'system',
+      content,
+      timestamp: Date.now()
+    }])
+  }
+  
+  const handleViewCheckpoint = async (checkpoint: Checkpoint) => {
+    const manager = agentRef.current?.checkpointManager
+    if (!manager) return
+    
+    setCheckpointView({ checkpoint })
+    try {
+      const diff = await manager.compareWithCurrent(checkpoint.id)
+      setCheckpointView(prev => prev?.checkpoint.id === checkpoint.id ? { ...prev, diff } : prev)
+    } catch (error) {
+      setCheckpointView(prev => prev?.checkpoint.id === checkpoint.id ? { ...prev, error: error.message } : prev)
+    }
+  }
+  
+  const handleRestoreCheckpoint = async (checkpoint: Checkpoint, restoreConversation: boolean) => {
+    if (!agentRef.current) return
+    
+    try {
+      await agentRef.current.restoreCheckpoint(checkpoint.id, { restoreConversation })
+      setCheckpointView(null)
+      addSystemMessage(`Restored the files${restoreConversation ? ' and conversation' : ''} to "${checkpoint.description}"`)
+    } catch (error) {
+      addSystemMessage(`Error: ${error.message}`)
+    }
+  }
+  
+  const handleRestoreFile = async (checkpoint: Checkpoint, filePath: string) => {
+    const manager = agentRef.current?.checkpointManager
+    if (!manager) return
+    
+    try {
+      await manager.restoreFile(checkpoint.id, filePath)
+      addSystemMessage(`Restored ${filePath} to "${checkpoint.description}"`)
+      await handleViewCheckpoint(checkpoint)
+    } catch (error) {
+      addSystemMessage(`Error: ${error.message}`)
+    }
+  }
+  
+  // The last checkpoint taken during each chat turn is the state "restore to here" goes back to
+  const checkpointsByMessage = new Map<string, Checkpoint>()
+  for (const checkpoint of [...checkpoints].reverse()) {
+    const messageId = checkpoint.metadata?.messageId
+    if (messageId) checkpointsByMessage.set(messageId, checkpoint)
+  }
+  const isInConversation = (checkpoint: Checkpoint) => messages.some(m => m.id === checkpoint.metadata?.messageId)
+  
+  const taskList: SubtaskInfo[] = Object.values(subtasks)
+  
+  const handleAbortSubtask = async (taskId: string) => {
+    await agentRef.current?.abortSubtask(taskId)
+  }
+  
   const handleClearMessages = () => {
     setMessages([])
+    setSubtasks({})
     setAgentStatus({
       status: 'idle',
       isRunning: false,
@@ -200,6 +722,7 @@ const MominAI: React.FC = () => {
     switch (status) {
       case 'running': return 'text-green-500'
       case 'starting': return 'text-yellow-500'
+      case 'paused': return 'text-orange-400'
       case 'error': return 'text-red-500'
       case 'completed': return 'text-blue-500'
       case 'aborted': return 'text-gray-500'
@@ -237,6 +760,21 @@ const MominAI: React.FC = () => {
               </span>
             </div>
             
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="agent-mode" className="text-sm font-medium">Mode</label>
+              <select
+                id="agent-mode"
+                value={currentMode}
+                onFocus={refreshModes}
+                onChange={(e) => handleModeChange(e.target.value)}
+                className="px-2 py-1 text-sm bg-gray-600 border border-gray-500 rounded focus:outline-none focus:border-blue-500"
+              >
+                {modes.map(mode => (
+                  <option key={mode.slug} value={mode.slug}>{mode.name}</option>
+                ))}
+              </select>
+            </div>
+            
             <div className="space-y-1 text-xs text-gray-400">
               <div>Mistakes: {agentStatus.consecutiveMistakes}/3</div>
               <div>Tools Used: {agentStatus.toolsUsed.length}</div>
@@ -282,6 +820,64 @@ const MominAI: React.FC = () => {
           </button>
         </div>
         
+        {/* Task Tree */}
+        {taskList.length > 0 && agentRef.current && (
+          <div className="px-4 pb-4">
+            <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+              <ListTree className="w-4 h-4" />
+              Tasks
+            </div>
+            <div className="bg-gray-700 rounded-lg p-2 max-h-64 overflow-y-auto">
+              <div className="text-xs text-gray-300 mb-1">
+                Main task {agentStatus.status === 'paused' && <span className="text-orange-400">(waiting for subtask)</span>}
+              </div>
+              {taskList
+                .filter(task => task.parentTaskId === agentRef.current?.agentId)
+                .map(task => (
+                  <TaskTreeNode key={task.id} task={task} tasks={taskList} onAbort={handleAbortSubtask} />
+                ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Checkpoint Timeline */}
+        {enableCheckpoints && checkpoints.length > 0 && (
+          <div className="px-4 pb-4">
+            <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+              <History className="w-4 h-4" />
+              Checkpoints
+            </div>
+            <div className="bg-gray-700 rounded-lg p-2 max-h-72 overflow-y-auto">
+              {checkpoints.map(checkpoint => {
+                const message = messages.find(m => m.id === checkpoint.metadata?.messageId)
+                return (
+                  <div key={checkpoint.id} className="ml-1 pl-2 py-1 border-l border-gray-600 text-xs">
+                    <div className="flex items-center gap-2">
+                      <span className="w-2 h-2 flex-shrink-0 rounded-full bg-blue-500" />
+                      <button
+                        onClick={() => handleViewCheckpoint(checkpoint)}
+                        title="Show what changed since this checkpoint"
+                        className="truncate text-left hover:text-blue-300"
+                      >
+                        {checkpoint.description}
+                      </button>
+                      <span className="ml-auto flex-shrink-0 text-gray-500">{new Date(checkpoint.timestamp).toLocaleTimeString()}</span>
+                    </div>
+                    {message && (
+                      <button
+                        onClick={() => document.getElementById(`message-${message.id}`)?.scrollIntoView({ behavior: 'smooth' })}
+                        className="ml-4 block max-w-full truncate text-left text-gray-400 hover:text-gray-200"
+                      >
+                        {message.type}: {message.content.split('\n')[0] || '(no text)'}
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+        
         {/* Settings Panel */}
         {showSettings && (
           <div className="p-4 border-t border-gray-700 space-y-4">
@@ -344,6 +940,90 @@ const MominAI: React.FC = () => {
                 <span className="text-sm">Enable Checkpoints</span>
               </label>
             </div>
+            
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <Server className="w-4 h-4" />
+                  MCP Servers
+                </label>
+                <button
+                  onClick={() => McpHub.getInstance().reloadConfig()}
+                  title="Reload .mominai/mcp.json"
+                  className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+              
+              {mcpConfigErrors.map(error => (
+                <div key={error} className="mb-2 text-xs text-red-300 break-all">{error}</div>
+              ))}
+              
+              {mcpServers.length === 0 ? (
+                <p className="text-xs text-gray-400">
+                  No servers configured. Add them to .mominai/mcp.json in the workspace or ~/.mominai/mcp.json.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {mcpServers.map(server => (
+                    <div key={server.name} className="bg-gray-700 rounded-lg p-2 text-xs">
+                      <div className="flex items-center gap-2">
+                        <span className={`w-2 h-2 rounded-full ${MCP_STATUS_COLORS[server.status]}`} />
+                        <span className="font-medium text-sm">{server.name}</span>
+                        <span className="text-gray-400">{server.status}</span>
+                        {server.config.source && (
+                          <span className="ml-auto text-gray-500">{server.config.source}</span>
+                        )}
+                      </div>
+                      
+                      {server.error && (
+                        <pre className="mt-1 max-h-24 overflow-auto text-red-300 whitespace-pre-wrap">{server.error}</pre>
+                      )}
+                      
+                      {server.tools.length > 0 && (
+                        <div className="mt-1 text-gray-400">
+                          {server.tools.map(tool => (
+                            <span key={tool.name} className="mr-2" title={tool.description}>
+                              {tool.name}{tool.alwaysAllow ? ' ✓' : ''}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      
+                      {server.status === 'untrusted' && (
+                        <div className="mt-1">
+                          <p className="text-gray-300">This workspace wants to run:</p>
+                          <pre className="mt-1 text-gray-300 whitespace-pre-wrap break-all">
+                            {server.config.command ? [server.config.command, ...(server.config.args ?? [])].join(' ') : server.config.url}
+                          </pre>
+                          {server.config.alwaysAllow && server.config.alwaysAllow.length > 0 && (
+                            <p className="mt-1 text-orange-300">
+                              Runs without asking: {server.config.alwaysAllow.join(', ')}
+                            </p>
+                          )}
+                          <button
+                            onClick={() => McpHub.getInstance().trustServer(server.name).catch(() => {})}
+                            className="mt-1 text-blue-400 hover:text-blue-300"
+                          >
+                            Trust and start
+                          </button>
+                        </div>
+                      )}
+                      
+                      {server.status === 'disconnected' && (
+                        <button
+                          onClick={() => McpHub.getInstance().connectServer(server.config).catch(() => {})}
+                          className="mt-1 text-blue-400 hover:text-blue-300"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -364,9 +1044,10 @@ const MominAI: React.FC = () => {
             messages.map((message) => (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`flex gap-3 ${
                   message.type === 'user' ? 'justify-end' : 'justify-start'
-                }`}
+                } ${message.metadata?.taskId ? 'ml-8 opacity-90' : ''}`}
               >
                 <div
                   className={`flex gap-3 max-w-3xl ${
@@ -396,6 +1077,12 @@ const MominAI: React.FC = () => {
                         : 'bg-gray-600 text-gray-200'
                     }`}
                   >
+                    {message.metadata?.taskId && subtasks[message.metadata.taskId] && (
+                      <div className="mb-1 text-xs opacity-70 flex items-center gap-1">
+                        <ListTree className="w-3 h-3" />
+                        Subtask: {subtasks[message.metadata.taskId].message.split('\n')[0]}
+                      </div>
+                    )}
                     <div className="whitespace-pre-wrap">{message.content}</div>
                     {message.metadata && (
                       <div className="mt-2 text-xs opacity-70">
@@ -405,6 +1092,36 @@ const MominAI: React.FC = () => {
                     <div className="text-xs opacity-50 mt-1">
                       {new Date(message.timestamp).toLocaleTimeString()}
                     </div>
+                    {checkpointsByMessage.has(message.id) && (
+                      <div className="mt-2 pt-2 border-t border-white border-opacity-20 flex flex-wrap items-center gap-2 text-xs">
+                        <History className="w-3 h-3 opacity-70" />
+                        <button
+                          onClick={() => handleViewCheckpoint(checkpointsByMessage.get(message.id)!)}
+                          className="flex items-center gap-1 opacity-80 hover:opacity-100"
+                        >
+                          <GitCompare className="w-3 h-3" />
+                          Changes since
+                        </button>
+                        <button
+                          onClick={() => handleRestoreCheckpoint(checkpointsByMessage.get(message.id)!, false)}
+                          disabled={agentStatus.isRunning}
+                          title="Put the files back as they were after this message"
+                          className="flex items-center gap-1 opacity-80 hover:opacity-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Undo2 className="w-3 h-3" />
+                          Restore files
+                        </button>
+                        <button
+                          onClick={() => handleRestoreCheckpoint(checkpointsByMessage.get(message.id)!, true)}
+                          disabled={agentStatus.isRunning}
+                          title="Put the files back and remove the chat after this message"
+                          className="flex items-center gap-1 opacity-80 hover:opacity-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Restore files and chat
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -413,8 +1130,29 @@ const MominAI: React.FC = () => {
           <div ref={messagesEndRef} />
         </div>
         
+        {checkpointView && (
+          <CheckpointDiffViewer
+            view={checkpointView}
+            canRestore={!agentStatus.isRunning}
+            canRestoreConversation={isInConversation(checkpointView.checkpoint)}
+            onSelectFile={(selectedPath) => setCheckpointView(prev => prev && { ...prev, selectedPath })}
+            onRestore={handleRestoreCheckpoint}
+            onRestoreFile={handleRestoreFile}
+            onClose={() => setCheckpointView(null)}
+          />
+        )}
+        
         {/* Input Area */}
         <div className="border-t border-gray-700 p-4">
+          {approvalQueue.length > 0 && (
+            <ApprovalCard
+              key={approvalQueue[0].id}
+              prompt={approvalQueue[0]}
+              queued={approvalQueue.length - 1}
+              onAnswer={handleApprovalAnswer}
+            />
+          )}
+          
           <div className="flex gap-2">
             <input
               type="text"
@@ -1,18 +1,25 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ChatPanel from './components/ChatPanel';
 import Header from './components/Header';
 import EditorPreviewPanel from './components/EditorPreviewPanel';
 import PublishModal from './components/PublishModal';
 import CommandPalette from './components/CommandPalette';
 import LivePreview from './components/LivePreview';
-import type { Message, Files, Change, FileAttachment, History, AppState } from './types';
+import HistoryPanel from './components/HistoryPanel';
+import ChangeReviewPanel from './components/ChangeReviewPanel';
+import type { Message, Files, Change, FileAttachment, AppState, Modification } from './types';
 import { resetChat } from './services/geminiService';
 import { apiClient } from './client/services/api';
 import { downloadProjectAsZip } from './services/zipService';
 import { INITIAL_CHAT_MESSAGE, INITIAL_FILES } from './constants';
 import usePersistentState from './hooks/usePersistentState';
+import useVersionHistory from './hooks/useVersionHistory';
 import { ValidationError, validateProjectName, validateFileContent } from './utils/validation';
+import { parseApiResponse, applyChanges, applyStreamingProgress, normalizeChangePath } from './utils/changeSet';
+import { ResponseStreamParser } from './utils/streamingJson';
+import type { ResponseProgress } from './utils/streamingJson';
+import { logError } from './utils/errorHandler';
 
 type MobileView = 'chat' | 'preview';
 
@@ -25,15 +32,11 @@ const INITIAL_APP_STATE: AppState = {
   projectName: 'Untitled Project',
 };
 
-const INITIAL_HISTORY: History = {
-  versions: [INITIAL_APP_STATE],
-  currentIndex: 0,
-};
-
 
 const App: React.FC = () => {
 
-  const [history, setHistory] = usePersistentState<History>('mominai_history', INITIAL_HISTORY);
+  const history = useVersionHistory(INITIAL_APP_STATE);
+  const { commit, updateState } = history;
   const [activeFile, setActiveFile] = usePersistentState<string>('mominai_activeFile', '');
   const [aiStatus, setAiStatus] = useState<string | null>(null);
   const [streamingMessage, setStreamingMessage] = useState<string>('');
@@ -42,19 +45,21 @@ const App: React.FC = () => {
   const [isPublishModalOpen, setPublishModalOpen] = useState(false);
   const [isCommandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [isPreviewFullscreen, setIsPreviewFullscreen] = useState(false);
+  const [isHistoryOpen, setHistoryOpen] = useState(false);
+  const [pendingModification, setPendingModification] = useState<Modification | null>(null);
+  // Files and preview parsed from a response that is still arriving; shown live but only applied after review
+  const [streamingProgress, setStreamingProgress] = useState<ResponseProgress | null>(null);
+  const streamingFileRef = useRef<string | null>(null);
 
   // Handles code changes in the editor
   const handleCodeChange = useCallback((newContent: string) => {
     if (!activeFile) return;
     try {
       validateFileContent(newContent);
-      setHistory(prevHistory => {
-        const newVersions = [...prevHistory.versions];
-        const currentVersion = { ...newVersions[prevHistory.currentIndex] };
-        currentVersion.files = { ...currentVersion.files, [activeFile]: newContent };
-        newVersions[prevHistory.currentIndex] = currentVersion;
-        return { ...prevHistory, versions: newVersions };
-      });
+      commit(
+        prevState => ({ ...prevState, files: { ...prevState.files, [activeFile]: newContent } }),
+        { label: `Edited ${activeFile}`, coalesceKey: `edit:${activeFile}` }
+      );
     } catch (error) {
       if (error instanceof ValidationError) {
         alert(`Code validation error: ${error.message}`);
@@ -62,14 +67,16 @@ const App: React.FC = () => {
         alert('Error updating code. Please try again.');
       }
     }
-  }, [activeFile, setHistory]);
+  }, [activeFile, commit]);
  
-  const currentState = history.versions[history.currentIndex];
-  const { files, previewHtml, chatMessages, hasGeneratedCode, projectName } = currentState;
+  const { files, previewHtml, chatMessages, hasGeneratedCode, projectName } = history.state;
+  const visibleFiles = useMemo(
+    () => streamingProgress ? applyStreamingProgress(files, streamingProgress) : files,
+    [files, streamingProgress]
+  );
   
   const isProjectLoaded = Object.keys(files).length > 0;
-  const canUndo = history.currentIndex > 0;
-  const canRedo = history.currentIndex < history.versions.length - 1;
+  const { canUndo, canRedo } = history;
 
   useEffect(() => {
     resetChat();
@@ -97,29 +104,38 @@ const App: React.FC = () => {
   }, [isPreviewFullscreen]);
 
   useEffect(() => {
-    if (activeFile && !files.hasOwnProperty(activeFile)) {
-      setActiveFile(Object.keys(files)[0] || '');
-    } else if (!activeFile && Object.keys(files).length > 0) {
+    if (activeFile && !visibleFiles.hasOwnProperty(activeFile)) {
+      setActiveFile(Object.keys(visibleFiles)[0] || '');
+    } else if (!activeFile && Object.keys(visibleFiles).length > 0) {
       const preferredFiles = ['src/App.tsx', 'src/pages/Home.tsx', 'index.html', 'package.json'];
-      const defaultFile = preferredFiles.find(f => f in files) || Object.keys(files)[0];
+      const defaultFile = preferredFiles.find(f => f in visibleFiles) || Object.keys(visibleFiles)[0];
       setActiveFile(defaultFile);
     }
-  }, [files, activeFile, setActiveFile]);
-
-  const addHistoryState = useCallback((updater: (prevState: AppState) => AppState) => {
-    setHistory(prevHistory => {
-        const currentVersion = prevHistory.versions[prevHistory.currentIndex];
-        const newVersion = updater(currentVersion);
-        
-        const newVersions = prevHistory.versions.slice(0, prevHistory.currentIndex + 1);
-        newVersions.push(newVersion);
+  }, [visibleFiles, activeFile, setActiveFile]);
 
-        return {
-            versions: newVersions,
-            currentIndex: newVersions.length - 1,
-        };
-    });
-  }, [setHistory]);
+  // Follow the file being written in the editor, and show what the model is doing in the status line
+  const handleStreamProgress = useCallback((progress: ResponseProgress) => {
+    setStreamingProgress(progress);
+    if (progress.responseType === 'CHAT') {
+      setStreamingMessage(progress.message);
+      return;
+    }
+    let writing = progress.current?.filePath;
+    try {
+      writing = writing && normalizeChangePath(writing);
+    } catch {
+      writing = undefined;
+    }
+    if (writing && writing !== streamingFileRef.current) {
+      streamingFileRef.current = writing;
+      setActiveFile(writing);
+    }
+    if (writing) {
+      setAiStatus(`Writing ${writing}...`);
+    } else if (progress.changes.length > 0) {
+      setAiStatus(progress.previewHtml !== undefined ? 'Preview ready, finishing up...' : 'Building the preview...');
+    }
+  }, [setActiveFile]);
 
   const handleSendMessage = useCallback(async (message: string, attachment?: FileAttachment) => {
     try {
@@ -129,27 +145,29 @@ const App: React.FC = () => {
       }
       const userMessage: Message = { role: 'user', content: message || '' };
       const tempChatMessages = [...chatMessages, userMessage];
-      setHistory(h => ({
-        ...h,
-        versions: h.versions.map((v, i) =>
-          i === h.currentIndex ? { ...v, chatMessages: tempChatMessages } : v
-        )
-      }));
+      // Shown right away, recorded together with the reply
+      updateState(prevState => ({ ...prevState, chatMessages: tempChatMessages }));
       setAiStatus('MominAI is thinking...');
       setStreamingMessage('');
       setIsStreaming(true);
+      streamingFileRef.current = null;
       // Stream AI response
       const response = await apiClient.streamAI(tempChatMessages, { files: hasGeneratedCode ? files : null, attachment });
       const reader = response.body?.getReader();
       let aiMessage = '';
+      let finalResponse: unknown;
+      const streamParser = new ResponseStreamParser(handleStreamProgress);
       if (reader) {
+        const decoder = new TextDecoder();
+        let buffered = '';
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
-          const chunk = new TextDecoder().decode(value);
-          // Parse SSE lines
-          const lines = chunk.split('\n').filter(line => line.trim());
-          for (const line of lines) {
+          // An SSE line can be split across reads; the unfinished tail waits for the next one
+          buffered += decoder.decode(value, { stream: true });
+          const lines = buffered.split('\n');
+          buffered = lines.pop() || '';
+          for (const line of lines.filter(line => line.trim())) {
             if (line.startsWith('data: ')) {
               const data = line.slice(6);
               if (data === '[DONE]') continue;
@@ -157,15 +175,18 @@ const App: React.FC = () => {
                 const parsed = JSON.parse(data);
                 if (parsed.type === 'chunk' && parsed.data) {
                   aiMessage += parsed.data;
-                  setStreamingMessage(aiMessage);
+                  streamParser.push(parsed.data);
+                }
+                if (parsed.type === 'status' && parsed.data) {
+                  setAiStatus(parsed.data);
                 }
                 if (parsed.type === 'complete' && parsed.data) {
-                  aiMessage = parsed.data;
-                  setStreamingMessage(aiMessage);
+                  finalResponse = parsed.data;
                 }
                 if (parsed.type === 'error') {
                   setAiStatus('Error: ' + parsed.data);
                   setIsStreaming(false);
+                  setStreamingProgress(null);
                   return;
                 }
               } catch {}
@@ -175,15 +196,39 @@ const App: React.FC = () => {
       }
       setIsStreaming(false);
       setAiStatus(null);
-      addHistoryState(prev => ({
+      setStreamingProgress(null);
+
+      // The complete event carries the ApiResponse; code changes wait for review before touching the files
+      let reply = aiMessage;
+      let modification: Modification | undefined;
+      if (finalResponse !== undefined) {
+        try {
+          const apiResponse = parseApiResponse(finalResponse);
+          if (apiResponse.responseType === 'CHAT') {
+            reply = apiResponse.message;
+          } else {
+            modification = apiResponse.modification;
+            reply = modification.reason || `Proposed ${modification.changes.length} file changes.`;
+          }
+        } catch (error) {
+          logError(error instanceof Error ? error : new Error(String(error)), 'handleSendMessage response');
+          if (typeof finalResponse === 'string') reply = finalResponse;
+        }
+      }
+
+      commit(prev => ({
         ...prev,
-        chatMessages: [...prev.chatMessages, { role: 'model', content: aiMessage }]
-      }));
+        chatMessages: [...prev.chatMessages, { role: 'model', content: reply }]
+      }), { label: 'AI response' });
+      if (modification) {
+        setPendingModification(modification);
+      }
     } catch (error) {
       setAiStatus('Error: ' + (error instanceof Error ? error.message : String(error)));
       setIsStreaming(false);
+      setStreamingProgress(null);
     }
-  }, [chatMessages, hasGeneratedCode, files, addHistoryState, setHistory, apiClient]);
+  }, [chatMessages, hasGeneratedCode, files, commit, updateState, apiClient, handleStreamProgress]);
 
 
 
@@ -191,13 +236,10 @@ const App: React.FC = () => {
     try {
       const validatedName = validateProjectName(newName);
       
-      setHistory(prevHistory => {
-        const newVersions = [...prevHistory.versions];
-        const currentVersion = { ...newVersions[prevHistory.currentIndex] };
-        currentVersion.projectName = validatedName;
-        newVersions[prevHistory.currentIndex] = currentVersion;
-        return { ...prevHistory, versions: newVersions };
-      });
+      commit(
+        prevState => ({ ...prevState, projectName: validatedName }),
+        { label: `Renamed project to ${validatedName}`, coalesceKey: 'rename' }
+      );
     } catch (error) {
       console.error('Error renaming project:', error);
       
@@ -207,25 +249,39 @@ const App: React.FC = () => {
         alert('Error renaming project. Please try again.');
       }
     }
-  }, [setHistory]);
+  }, [commit]);
+
+  const handleApplyChanges = useCallback((accepted: Change[], applyPreview: boolean) => {
+    const modification = pendingModification;
+    if (!modification) return;
+    setPendingModification(null);
+
+    try {
+      const projectNameFromAi = modification.projectName ? validateProjectName(modification.projectName) : '';
+      commit(prev => ({
+        ...prev,
+        files: applyChanges(prev.files, accepted),
+        previewHtml: applyPreview && modification.previewHtml ? modification.previewHtml : prev.previewHtml,
+        hasGeneratedCode: true,
+        projectName: projectNameFromAi || prev.projectName,
+      }), { label: `Applied ${accepted.length} of ${modification.changes.length} AI changes` });
+    } catch (error) {
+      console.error('Error applying changes:', error);
+      alert(`Error applying changes: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [pendingModification, commit]);
 
   const handleUndo = useCallback(() => {
     if (canUndo) {
-      setHistory(prevHistory => ({
-        ...prevHistory,
-        currentIndex: prevHistory.currentIndex - 1,
-      }));
+      history.undo();
     }
-  }, [canUndo, setHistory]);
+  }, [canUndo, history.undo]);
 
   const handleRedo = useCallback(() => {
     if (canRedo) {
-      setHistory(prevHistory => ({
-        ...prevHistory,
-        currentIndex: prevHistory.currentIndex + 1,
-      }));
+      history.redo();
     }
-  }, [canRedo, setHistory]);
+  }, [canRedo, history.redo]);
 
   const handleDownload = useCallback(async () => {
     try {
@@ -243,6 +299,7 @@ const App: React.FC = () => {
         onRenameProject={handleRenameProject}
         onUndo={handleUndo}
         onRedo={handleRedo}
+        onOpenHistory={() => setHistoryOpen(true)}
         onDownload={handleDownload}
         onPublish={() => setPublishModalOpen(true)}
         canUndo={canUndo}
@@ -261,11 +318,12 @@ const App: React.FC = () => {
         
         <div className={`${mobileView === 'preview' ? 'flex' : 'hidden'} md:flex flex-col w-full md:w-1/2`}>
           <EditorPreviewPanel
-            files={files}
+            files={visibleFiles}
             activeFile={activeFile}
             onFileSelect={setActiveFile}
             onCodeChange={handleCodeChange}
-            previewHtml={previewHtml}
+            readOnly={!!streamingProgress}
+            previewHtml={streamingProgress?.previewHtml ?? previewHtml}
             onToggleFullscreen={() => setIsPreviewFullscreen(!isPreviewFullscreen)}
             isFullscreen={isPreviewFullscreen}
           />
@@ -299,6 +357,25 @@ const App: React.FC = () => {
         />
       )}
       
+      {pendingModification && (
+        <ChangeReviewPanel
+          modification={pendingModification}
+          files={files}
+          onApply={handleApplyChanges}
+          onDiscard={() => setPendingModification(null)}
+        />
+      )}
+      
+      {isHistoryOpen && (
+        <HistoryPanel
+          versions={history.versions}
+          currentVersionId={history.currentVersionId}
+          onCheckout={history.checkout}
+          onNameVersion={history.nameVersion}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
+      
       {isCommandPaletteOpen && (
         <CommandPalette
           onClose={() => setCommandPaletteOpen(false)}
@@ -310,8 +387,10 @@ const App: React.FC = () => {
       
       {isPreviewFullscreen && (
         <LivePreview
-          html={previewHtml}
-          onClose={() => setIsPreviewFullscreen(false)}
+          htmlContent={streamingProgress?.previewHtml ?? previewHtml}
+          files={visibleFiles}
+          isFullscreen
+          onExitFullscreen={() => setIsPreviewFullscreen(false)}
         />
       )}
     </div>
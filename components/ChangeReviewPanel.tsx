@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import type { Change, Files, Modification } from '../types';
+import { buildChangeReview } from '../utils/changeSet';
+import type { DiffLine, FileChangeReview } from '../utils/changeSet';
+import { Icon } from './Icon';
+
+interface ChangeReviewPanelProps {
+  modification: Modification;
+  files: Files;
+  onApply: (accepted: Change[], applyPreview: boolean) => void;
+  onDiscard: () => void;
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 3;
+
+const ACTION_COLORS: Record<Change['action'], string> = {
+  create: 'bg-green-500/20 text-green-300',
+  update: 'bg-yellow-500/20 text-yellow-300',
+  delete: 'bg-red-500/20 text-red-300',
+};
+
+const LINE_COLORS: Record<DiffLine['type'], string> = {
+  context: 'text-gray-400',
+  add: 'bg-green-900/40 text-green-200',
+  remove: 'bg-red-900/40 text-red-200',
+};
+
+const LINE_PREFIXES: Record<DiffLine['type'], string> = { context: ' ', add: '+', remove: '-' };
+
+type DiffRow = DiffLine | { type: 'fold'; count: number };
+
+const foldContext = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'context') {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'context') end++;
+    const keepBefore = i === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === lines.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepBefore + keepAfter + 1) {
+      rows.push(...lines.slice(i, i + keepBefore), { type: 'fold', count: end - i - keepBefore - keepAfter }, ...lines.slice(end - keepAfter, end));
+    } else {
+      rows.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+};
+
+const FileDiff: React.FC<{ review: FileChangeReview }> = ({ review }) => {
+  if (review.error) {
+    return <p className="p-3 text-sm text-red-300">{review.error}</p>;
+  }
+  if (review.action === 'delete') {
+    return <p className="p-3 text-sm text-gray-400">This file will be deleted ({review.deletions} lines).</p>;
+  }
+  if (review.additions === 0 && review.deletions === 0) {
+    return <p className="p-3 text-sm text-gray-400">No changes to the content.</p>;
+  }
+
+  return (
+    <pre className="text-xs font-mono leading-5">
+      {foldContext(review.lines).map((row, index) => row.type === 'fold' ? (
+        <div key={index} className="px-2 text-blue-300 bg-white/5">··· {row.count} unchanged lines ···</div>
+      ) : (
+        <div key={index} className={`flex ${LINE_COLORS[row.type]}`}>
+          <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{row.oldNumber ?? ''}</span>
+          <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{row.newNumber ?? ''}</span>
+          <span className="whitespace-pre-wrap break-all">{LINE_PREFIXES[row.type]} {row.content}</span>
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+const ChangeReviewPanel: React.FC<ChangeReviewPanelProps> = ({ modification, files, onApply, onDiscard }) => {
+  const reviews = useMemo(() => buildChangeReview(files, modification), [files, modification]);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [applyPreview, setApplyPreview] = useState(!!modification.previewHtml);
+
+  const isAccepted = (index: number) => !reviews[index].error && !rejected.has(index);
+  const acceptedChanges = reviews.filter((_, index) => isAccepted(index)).map(review => review.change);
+  const selected = reviews[selectedIndex];
+
+  const toggle = (index: number) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const setAll = (accepted: boolean) => {
+    setRejected(accepted ? new Set() : new Set(reviews.map((_, index) => index)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md" role="dialog" aria-modal="true">
+      <div className="relative flex flex-col w-full max-w-5xl h-[85vh] bg-gray-800/80 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-2xl">
+        <button onClick={onDiscard} className="absolute top-4 right-4 p-1 rounded-full text-gray-400 hover:bg-white/10 hover:text-white" aria-label="Close">
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+        <h3 className="text-xl font-bold mb-1">Review Changes</h3>
+        {modification.reason && <p className="text-sm text-gray-400 mb-4 pr-8">{modification.reason}</p>}
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          <div className="w-72 flex-shrink-0 flex flex-col">
+            <div className="flex items-center gap-2 mb-2 text-xs">
+              <button onClick={() => setAll(true)} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">Accept all</button>
+              <button onClick={() => setAll(false)} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">Reject all</button>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+              {reviews.map((review, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer ${index === selectedIndex ? 'bg-purple-600/30' : 'hover:bg-white/5'}`}
+                  onClick={() => setSelectedIndex(index)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isAccepted(index)}
+                    disabled={!!review.error}
+                    onChange={() => toggle(index)}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={`Accept ${review.filePath}`}
+                    className="rounded"
+                  />
+                  <span className={`px-1.5 rounded text-xs font-semibold ${ACTION_COLORS[review.action]}`}>{review.action}</span>
+                  <span className={`flex-1 truncate text-sm font-mono ${review.error ? 'text-red-300' : isAccepted(index) ? 'text-gray-200' : 'text-gray-500 line-through'}`} title={review.filePath}>
+                    {review.filePath}
+                  </span>
+                  {!review.error && (
+                    <span className="text-xs whitespace-nowrap">
+                      <span className="text-green-400">+{review.additions}</span> <span className="text-red-400">-{review.deletions}</span>
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col bg-black/30 rounded-lg border border-white/10">
+            {selected ? (
+              <>
+                <div className="px-3 py-2 border-b border-white/10 text-sm font-mono truncate">{selected.filePath}</div>
+                <div className="flex-1 overflow-auto">
+                  <FileDiff review={selected} />
+                </div>
+              </>
+            ) : (
+              <p className="p-3 text-sm text-gray-400">This response has no file changes.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4 mt-4">
+          {modification.previewHtml && (
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={applyPreview} onChange={(e) => setApplyPreview(e.target.checked)} className="rounded" />
+              Update the preview
+            </label>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <button onClick={onDiscard} className="px-4 py-2 text-sm font-semibold rounded-lg bg-white/10 hover:bg-white/20 transition-colors">
+              Discard
+            </button>
+            <button
+              onClick={() => onApply(acceptedChanges, applyPreview)}
+              disabled={acceptedChanges.length === 0 && !applyPreview}
+              className="px-4 py-2 text-sm font-semibold rounded-lg bg-purple-600 hover:bg-purple-500 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              Apply {acceptedChanges.length} of {reviews.length} {reviews.length === 1 ? 'change' : 'changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeReviewPanel;
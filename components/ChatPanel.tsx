@@ -2,7 +2,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { Message, FileAttachment } from '../types';
 import { Icon } from './Icon';
-import { ValidationError, validateChatMessage, validateFileAttachment, decodeHtmlEntities } from '../utils/validation';
+import Markdown from './Markdown';
+import { ValidationError, validateChatMessage, validateFileAttachment } from '../utils/validation';
 
 interface ChatPanelProps {
   messages: Message[];
@@ -185,11 +186,17 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, aiStatus
                   </div>
                 }
                 <div className={`max-w-md p-4 rounded-2xl ${msg.role === 'user' ? 'bg-purple-600 text-white rounded-br-none' : 'bg-black/30 text-gray-200 rounded-bl-none'}`}>
-                  <p className="whitespace-pre-wrap text-sm leading-relaxed">
-                    {isLatestModel
-                      ? <span>{typed}<span className="animate-blink">|</span></span>
-                      : decodeHtmlEntities(msg.content)}
-                  </p>
+                  {isLatestModel ? (
+                    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+                      <span>{typed}<span className="animate-blink">|</span></span>
+                    </p>
+                  ) : msg.role === 'model' ? (
+                    <div className="text-sm leading-relaxed">
+                      <Markdown text={msg.content} />
+                    </div>
+                  ) : (
+                    <p className="whitespace-pre-wrap text-sm leading-relaxed">{msg.content}</p>
+                  )}
                 </div>
               </div>
             );
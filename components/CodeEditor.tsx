@@ -1,25 +1,38 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Icon } from './Icon';
 
 interface CodeEditorProps {
   filePath: string;
   code: string;
   onCodeChange: (newCode: string) => void;
+  readOnly?: boolean;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ filePath, code, onCodeChange }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ filePath, code, onCodeChange, readOnly = false }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the newest streamed lines in view while the file is being written
+  useEffect(() => {
+    if (readOnly && textareaRef.current) {
+      textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+    }
+  }, [readOnly, code]);
+
   return (
     <div className="flex flex-col h-full bg-black/30">
        <div className="flex-shrink-0 p-3 border-b border-white/10">
         <h2 className="text-sm font-semibold flex items-center text-gray-300">
           <Icon name="code" className="w-4 h-4 mr-2" />
           <span className="font-mono text-purple-300">{filePath}</span>
+          {readOnly && <span className="ml-2 text-xs text-gray-500">(being written by AI)</span>}
         </h2>
       </div>
       <div className="flex-grow relative">
         <textarea
+          ref={textareaRef}
           value={code}
+          readOnly={readOnly}
           onChange={(e) => onCodeChange(e.target.value)}
           className="w-full h-full p-4 bg-transparent text-gray-300 font-mono text-sm resize-none focus:outline-none leading-relaxed"
           spellCheck="false"
@@ -8,6 +8,7 @@ export interface ConsoleMessage {
 
 interface DevToolsPanelProps {
   logs: ConsoleMessage[];
+  status?: string; // e.g. the state of the project build
   onClear: () => void;
 }
 
@@ -50,11 +51,14 @@ const LogEntry: React.FC<{ message: ConsoleMessage }> = ({ message }) => {
   );
 };
 
-const DevToolsPanel: React.FC<DevToolsPanelProps> = ({ logs, onClear }) => {
+const DevToolsPanel: React.FC<DevToolsPanelProps> = ({ logs, status, onClear }) => {
   return (
     <div className="flex flex-col h-full bg-black/40 text-gray-300">
       <div className="flex-shrink-0 flex items-center justify-between p-2 border-b border-white/10">
-        <h3 className="text-sm font-semibold">Console</h3>
+        <div className="flex items-center gap-3">
+          <h3 className="text-sm font-semibold">Console</h3>
+          {status && <span className="text-xs text-gray-500">{status}</span>}
+        </div>
         <button
           onClick={onClear}
           className="p-1.5 rounded-lg text-gray-400 hover:bg-white/10 hover:text-white"
@@ -11,6 +11,7 @@ interface EditorPreviewPanelProps {
   activeFile: string;
   onSelectFile: (path: string) => void;
   onCodeChange: (newContent: string) => void;
+  readOnly?: boolean; // while the AI is still writing the files
   previewHtml: string;
   onBackToChat: () => void; // For mobile view
   onToggleFullscreen: () => void;
@@ -21,6 +22,7 @@ const EditorPreviewPanel: React.FC<EditorPreviewPanelProps> = ({
   activeFile,
   onSelectFile,
   onCodeChange,
+  readOnly = false,
   previewHtml,
   onBackToChat,
   onToggleFullscreen,
@@ -56,7 +58,7 @@ const EditorPreviewPanel: React.FC<EditorPreviewPanelProps> = ({
       </div>
 
       <div className="flex-grow overflow-hidden relative">
-        {view === 'preview' && <LivePreview htmlContent={previewHtml} />}
+        {view === 'preview' && <LivePreview htmlContent={previewHtml} files={files} />}
         {view === 'code' && (
            <ResizablePanel direction="horizontal" initialSize={250} minSize={150}>
             <FileExplorer files={files} activeFile={activeFile} onSelectFile={onSelectFile} />
@@ -64,6 +66,7 @@ const EditorPreviewPanel: React.FC<EditorPreviewPanelProps> = ({
               filePath={activeFile}
               code={files[activeFile] || ''}
               onCodeChange={onCodeChange}
+              readOnly={readOnly}
             />
           </ResizablePanel>
         )}
@@ -11,6 +11,7 @@ interface HeaderProps {
   onToggleView: () => void;
   onUndo: () => void;
   onRedo: () => void;
+  onOpenHistory: () => void;
   canUndo: boolean;
   canRedo: boolean;
 }
@@ -25,6 +26,7 @@ const Header: React.FC<HeaderProps> = ({
   onToggleView,
   onUndo,
   onRedo,
+  onOpenHistory,
   canUndo,
   canRedo
 }) => {
@@ -134,6 +136,13 @@ const Header: React.FC<HeaderProps> = ({
               >
                 <Icon name="redo" className="w-5 h-5" />
               </button>
+              <button 
+                onClick={onOpenHistory} 
+                className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors" 
+                aria-label="Version history"
+              >
+                <Icon name="history" className="w-5 h-5" />
+              </button>
             </>
          )}
       </div>
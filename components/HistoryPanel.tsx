@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { VersionInfo } from '../types';
+import { Icon } from './Icon';
+
+interface HistoryPanelProps {
+  versions: VersionInfo[];
+  currentVersionId: string;
+  onCheckout: (id: string) => void;
+  onNameVersion: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+interface VersionRowProps {
+  version: VersionInfo;
+  isCurrent: boolean;
+  onCheckout: (id: string) => void;
+  onNameVersion: (id: string, name: string) => void;
+}
+
+const VersionRow: React.FC<VersionRowProps> = ({ version, isCurrent, onCheckout, onNameVersion }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState(version.name || '');
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onNameVersion(version.id, name);
+    setIsNaming(false);
+  };
+
+  return (
+    <div className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg ${isCurrent ? 'bg-purple-600/30 border border-purple-500/50' : 'hover:bg-white/5'}`}>
+      <span className={`w-2.5 h-2.5 flex-shrink-0 rounded-full ${isCurrent ? 'bg-purple-400' : version.name ? 'bg-yellow-400' : 'bg-gray-500'}`} />
+      {isNaming ? (
+        <form onSubmit={handleNameSubmit} className="flex-1">
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={handleNameSubmit}
+            placeholder="Version name"
+            className="w-full bg-white/10 text-sm text-white rounded px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </form>
+      ) : (
+        <button
+          onClick={() => onCheckout(version.id)}
+          disabled={isCurrent}
+          title={version.changedFiles.length > 0 ? version.changedFiles.join('\n') : 'No file changes'}
+          className="flex-1 min-w-0 text-left"
+        >
+          <div className="flex items-center gap-2">
+            {version.name && <span className="px-1.5 rounded bg-yellow-500/20 text-yellow-300 text-xs font-semibold truncate">{version.name}</span>}
+            <span className="text-sm text-gray-200 truncate">{version.label}</span>
+          </div>
+          <div className="text-xs text-gray-500">
+            {new Date(version.createdAt).toLocaleString()}
+            {version.changedFiles.length > 0 && ` · ${version.changedFiles.length} file${version.changedFiles.length === 1 ? '' : 's'}`}
+            {isCurrent && ' · current'}
+          </div>
+        </button>
+      )}
+      {!isNaming && (
+        <button
+          onClick={() => setIsNaming(true)}
+          className="px-2 py-0.5 text-xs rounded text-gray-400 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          {version.name ? 'Rename' : 'Name'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ versions, currentVersionId, onCheckout, onNameVersion, onClose }) => {
+  const [namedOnly, setNamedOnly] = useState(false);
+
+  const childrenOf = new Map<string | null, VersionInfo[]>();
+  for (const version of versions) {
+    childrenOf.set(version.parentId, [...(childrenOf.get(version.parentId) || []), version]);
+  }
+
+  // A run of versions stays at one level; older children of a version are branches, indented under it
+  const renderBranch = (start: VersionInfo): React.ReactNode[] => {
+    const rows: React.ReactNode[] = [];
+    let version: VersionInfo | undefined = start;
+    while (version) {
+      rows.push(
+        <VersionRow
+          key={version.id}
+          version={version}
+          isCurrent={version.id === currentVersionId}
+          onCheckout={onCheckout}
+          onNameVersion={onNameVersion}
+        />
+      );
+      const children: VersionInfo[] = childrenOf.get(version.id) || [];
+      for (const branch of children.slice(0, -1)) {
+        rows.push(
+          <div key={`branch-${branch.id}`} className="ml-4 pl-2 border-l border-dashed border-white/20">
+            <div className="px-2 text-xs text-gray-500">branch</div>
+            {renderBranch(branch)}
+          </div>
+        );
+      }
+      version = children[children.length - 1];
+    }
+    return rows;
+  };
+
+  const roots = childrenOf.get(null) || [];
+  const namedVersions = versions.filter(version => version.name);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md" role="dialog" aria-modal="true">
+      <div className="relative flex flex-col w-full max-w-lg max-h-[80vh] bg-gray-800/80 backdrop-blur-xl border border-white/10 rounded-2xl p-6 shadow-2xl">
+        <button onClick={onClose} className="absolute top-4 right-4 p-1 rounded-full text-gray-400 hover:bg-white/10 hover:text-white" aria-label="Close">
+          <Icon name="close" className="w-5 h-5" />
+        </button>
+        <h3 className="text-xl font-bold mb-1">Version History</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Click a version to go back to it. Changing anything from an older version starts a new branch; the old one stays here.
+        </p>
+        <label className="flex items-center gap-2 mb-3 text-sm text-gray-300">
+          <input type="checkbox" checked={namedOnly} onChange={(e) => setNamedOnly(e.target.checked)} className="rounded" />
+          Named versions only
+        </label>
+        <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+          {namedOnly ? (
+            namedVersions.length === 0 ? (
+              <p className="text-sm text-gray-500">No named versions yet. Hover a version and click Name.</p>
+            ) : (
+              namedVersions.map(version => (
+                <VersionRow
+                  key={version.id}
+                  version={version}
+                  isCurrent={version.id === currentVersionId}
+                  onCheckout={onCheckout}
+                  onNameVersion={onNameVersion}
+                />
+              ))
+            )
+          ) : (
+            roots.map(root => renderBranch(root))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
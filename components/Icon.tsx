@@ -98,6 +98,16 @@ export const Icon: React.FC<IconProps> = ({ name, className }) => {
          <path d="M3 13v-2a4 4 0 0 1 4-4h11.29a2 2 0 0 0 1.79-1.11L22 2" /><path d="M18.29 7H7a4 4 0 0 0-4 4v2" /><path d="M21 7h1v5" />
        </svg>
     ),
+    history: (
+      <svg fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" viewBox="0 0 24 24">
+        <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"></path><path d="M3 3v5h5"></path><path d="M12 7v5l4 2"></path>
+      </svg>
+    ),
+    refresh: (
+      <svg fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" viewBox="0 0 24 24">
+        <path d="M21 12a9 9 0 1 1-2.64-6.36L21 8"></path><path d="M21 3v5h-5"></path>
+      </svg>
+    ),
     desktop: (
       <svg fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" viewBox="0 0 24 24">
         <rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect><line x1="8" y1="21" x2="16" y2="21"></line><line x1="12" y1="17" x2="12" y2="21"></line>
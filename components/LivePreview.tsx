@@ -1,16 +1,39 @@
-import React, { useState, useEffect } from 'react';
-import { decodeHtmlEntities } from '../utils/validation';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { Files } from '../types';
+import { buildPreviewDocument, PREVIEW_SANDBOX } from '../utils/previewDocument';
+import { createSourceMapLookup, mapStackTrace } from '../utils/sourceMap';
+import type { SourceMapLookup } from '../utils/sourceMap';
+import { buildHmrRuntime, EMPTY_SNAPSHOT, HMR_MESSAGE_SOURCE, markStyleBlocks, planPreviewUpdate } from '../utils/previewHmr';
+import type { PreviewSnapshot } from '../utils/previewHmr';
+import { findEntryPoint, toProjectPath } from '../services/previewBundler';
+import type { BundleMessage } from '../services/previewBundler';
+import usePreviewBundle from '../hooks/usePreviewBundle';
 import { Icon } from './Icon';
 import ResizablePanel from './ResizablePanel';
 import DevToolsPanel, { ConsoleMessage } from './DevToolsPanel';
 
 interface LivePreviewProps {
   htmlContent: string;
+  files?: Files; // when the project has an entry point, the preview can run the bundled project instead
   isFullscreen?: boolean;
   onExitFullscreen?: () => void;
 }
 
 type Device = 'desktop' | 'tablet' | 'mobile';
+type PreviewSource = 'app' | 'prototype';
+
+// The document the iframe last loaded in full; generation changes remount it
+interface LoadedFrame {
+  html: string;
+  snapshot: PreviewSnapshot;
+  generation: number;
+}
+
+// A stable default, so the bundler hook does not see new files on every render
+const NO_FILES: Files = {};
+
+// The bundle runs from a blob: URL created inside the preview
+const BUNDLE_URL_PATTERN = /blob:[^\s()]+/;
 
 const deviceStyles: Record<Device, React.CSSProperties> = {
   desktop: { width: '100%' },
@@ -63,7 +86,11 @@ const consoleInterceptorScript = `
   });
 
   window.addEventListener('error', (e) => {
-    window.console.error(e.message, 'at ' + e.filename + ':' + e.lineno);
+    if (e.error && e.error.stack) {
+      window.console.error(e.error.stack);
+    } else {
+      window.console.error(e.message, 'at ' + e.filename + ':' + e.lineno + ':' + e.colno);
+    }
   });
   
   window.addEventListener('unhandledrejection', (e) => {
@@ -72,26 +99,111 @@ const consoleInterceptorScript = `
 `;
 
 
-const LivePreview: React.FC<LivePreviewProps> = ({ htmlContent, isFullscreen = false, onExitFullscreen }) => {
-  const isPlaceholder = !htmlContent || !htmlContent.trim();
+const formatBundleMessage = ({ text, file, line, column, lineText }: BundleMessage): string => {
+  const location = file ? `${file}${line ? `:${line}:${column}` : ''}: ` : '';
+  return `${location}${text}${lineText ? `\n  ${lineText}` : ''}`;
+};
+
+// Points stack traces from the bundle at the project files
+const mapPayload = (payload: any[], lookup: SourceMapLookup): any[] => payload.map(arg => {
+  if (typeof arg === 'string') return mapStackTrace(arg, lookup, BUNDLE_URL_PATTERN);
+  if (arg && typeof arg.stack === 'string') return { ...arg, stack: mapStackTrace(arg.stack, lookup, BUNDLE_URL_PATTERN) };
+  return arg;
+});
+
+const LivePreview: React.FC<LivePreviewProps> = ({ htmlContent, files = NO_FILES, isFullscreen = false, onExitFullscreen }) => {
   const [device, setDevice] = useState<Device>('desktop');
   const [consoleLogs, setConsoleLogs] = useState<ConsoleMessage[]>([]);
+  const [sourcePreference, setSourcePreference] = useState<PreviewSource | null>(null);
+
+  const canBundle = useMemo(() => findEntryPoint(files) !== null, [files]);
+  const hasPrototype = !!htmlContent && !!htmlContent.trim();
+  // Until the user picks one, the project wins over the prototype when it can be built
+  const source: PreviewSource = sourcePreference ?? (canBundle || !hasPrototype ? 'app' : 'prototype');
+  const bundle = usePreviewBundle(files, source === 'app' && canBundle);
+
+  const activeHtml = source === 'app' ? (canBundle ? bundle.html : '') : htmlContent;
+  const isPlaceholder = !activeHtml || !activeHtml.trim();
+
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [frame, setFrame] = useState<LoadedFrame>({ html: '', snapshot: EMPTY_SNAPSHOT, generation: 0 });
+  const currentHtmlRef = useRef(''); // what the iframe shows, including hot updates
+  const snapshotRef = useRef<PreviewSnapshot>(EMPTY_SNAPSHOT);
+  const isReadyRef = useRef(false);
+
+  // A soft reload keeps the hash, scroll position and localStorage of the page; a hard reload starts fresh
+  const reload = useCallback((hard: boolean) => {
+    if (hard) snapshotRef.current = EMPTY_SNAPSHOT;
+    isReadyRef.current = false;
+    setConsoleLogs([]);
+    setFrame(prev => ({ html: currentHtmlRef.current, snapshot: snapshotRef.current, generation: prev.generation + 1 }));
+  }, []);
+
+  const lookupRef = useRef<SourceMapLookup | null>(null);
+  useEffect(() => {
+    try {
+      lookupRef.current = source === 'app' && bundle.sourceMap ? createSourceMapLookup(bundle.sourceMap, toProjectPath) : null;
+    } catch {
+      lookupRef.current = null;
+    }
+  }, [source, bundle.sourceMap]);
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
       if (event.data && event.data.source === 'mominai-preview-console') {
-        setConsoleLogs(prev => [...prev, { level: event.data.level, payload: event.data.payload }]);
+        const lookup = lookupRef.current;
+        const payload = lookup ? mapPayload(event.data.payload, lookup) : event.data.payload;
+        setConsoleLogs(prev => [...prev, { level: event.data.level, payload }]);
+      }
+      if (event.data && event.data.source === HMR_MESSAGE_SOURCE && event.source === iframeRef.current?.contentWindow) {
+        const { type } = event.data;
+        if (type === 'ready') {
+          isReadyRef.current = true;
+        } else if (type === 'state') {
+          snapshotRef.current = event.data.snapshot;
+        } else if (type === 'reload-required') {
+          reload(false);
+        } else if (type === 'applied') {
+          const message = event.data.code ? 'Hot update applied: the app restarted without reloading the page' : 'Styles updated in place';
+          setConsoleLogs(prev => [...prev, { level: 'info', payload: [message] }]);
+        }
       }
     };
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, []);
+  }, [reload]);
 
+  // Patch the running page when only styles or the bundle changed, otherwise reload it
   useEffect(() => {
-    setConsoleLogs([]);
-  }, [htmlContent]);
+    const previous = currentHtmlRef.current;
+    currentHtmlRef.current = activeHtml;
+    const update = previous && isReadyRef.current ? planPreviewUpdate(previous, activeHtml) : null;
+    if (update?.kind === 'none') return;
+    const target = iframeRef.current?.contentWindow;
+    if (update?.kind === 'patch' && target) {
+      target.postMessage({ source: HMR_MESSAGE_SOURCE, type: 'update', styles: update.styles, code: update.code }, '*');
+      return;
+    }
+    reload(false);
+  }, [activeHtml, reload]);
 
-  const srcDoc = isPlaceholder ? '' : `<script>${consoleInterceptorScript}</script>${decodeHtmlEntities(htmlContent)}`;
+  const buildLogs: ConsoleMessage[] = source === 'app' && canBundle
+    ? [
+        ...bundle.errors.map(error => ({ level: 'error' as const, payload: [formatBundleMessage(error)] })),
+        ...bundle.warnings.map(warning => ({ level: 'warn' as const, payload: [formatBundleMessage(warning)] })),
+      ]
+    : [];
+  const buildStatus = source !== 'app' || !canBundle
+    ? undefined
+    : bundle.isBuilding
+      ? 'Building...'
+      : bundle.errors.length > 0
+        ? `Build failed with ${bundle.errors.length} ${bundle.errors.length === 1 ? 'error' : 'errors'}`
+        : bundle.duration !== null ? `Built in ${Math.round(bundle.duration)}ms` : undefined;
+
+  const srcDoc = useMemo(() => frame.html
+    ? buildPreviewDocument(markStyleBlocks(frame.html), `<script>${consoleInterceptorScript}</script>${buildHmrRuntime(frame.snapshot)}`)
+    : '', [frame]);
 
   const deviceButtons: { name: Device, icon: string }[] = [
     { name: 'desktop', icon: 'desktop' },
@@ -99,7 +211,8 @@ const LivePreview: React.FC<LivePreviewProps> = ({ htmlContent, isFullscreen = f
     { name: 'mobile', icon: 'mobile' },
   ];
 
-  if (isPlaceholder) {
+  // A build that failed or is still running shows its status and errors in the console instead
+  if (isPlaceholder && buildStatus === undefined) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-gray-500 bg-black/20 rounded-xl">
         <Icon name="eye" className="w-16 h-16 text-gray-600" />
@@ -128,6 +241,27 @@ const LivePreview: React.FC<LivePreviewProps> = ({ htmlContent, isFullscreen = f
 
       {!isFullscreen && (
         <div className="flex-shrink-0 flex items-center justify-center p-1.5 gap-2 bg-black/20 border-b border-white/10">
+          {canBundle && hasPrototype && (
+            <div className="flex items-center gap-1 mr-2 bg-black/20 p-1 rounded-lg text-xs">
+              {(['app', 'prototype'] as PreviewSource[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => {
+                    // The app and the prototype do not share hash routes or storage
+                    snapshotRef.current = EMPTY_SNAPSHOT;
+                    setSourcePreference(option);
+                  }}
+                  className={`px-2 py-1 rounded-md transition-colors ${
+                    source === option ? 'bg-white/10 text-white' : 'text-gray-400 hover:bg-white/5'
+                  }`}
+                  aria-pressed={source === option}
+                  title={option === 'app' ? 'Run the project files' : 'Show the single-file prototype'}
+                >
+                  {option === 'app' ? 'App' : 'Prototype'}
+                </button>
+              ))}
+            </div>
+          )}
           {deviceButtons.map(({ name, icon }) => (
             <button
               key={name}
@@ -141,17 +275,26 @@ const LivePreview: React.FC<LivePreviewProps> = ({ htmlContent, isFullscreen = f
               <Icon name={icon} className="w-5 h-5" />
             </button>
           ))}
+          <button
+            onClick={() => reload(true)}
+            className="ml-2 p-2 rounded-lg text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+            aria-label="Hard reload preview"
+            title="Hard reload: start the preview fresh, clearing its route, scroll position and storage"
+          >
+            <Icon name="refresh" className="w-5 h-5" />
+          </button>
         </div>
       )}
       
       {isFullscreen ? (
         <div className="w-full h-full bg-white">
           <iframe
-            key={htmlContent}
+            key={frame.generation}
+            ref={iframeRef}
             srcDoc={srcDoc}
             title="Live Preview"
             className="w-full h-full border-0 bg-white"
-            sandbox="allow-scripts allow-forms"
+            sandbox={PREVIEW_SANDBOX}
           />
         </div>
       ) : (
@@ -159,15 +302,16 @@ const LivePreview: React.FC<LivePreviewProps> = ({ htmlContent, isFullscreen = f
           <div className="w-full h-full bg-gray-800/50 flex justify-center overflow-auto p-4">
             <div style={deviceStyles[device]} className="h-full shadow-2xl bg-white flex-shrink-0 transition-all duration-300 ease-in-out">
               <iframe
-                key={htmlContent} // Force re-render on content change
+                key={frame.generation} // Remounted only for full reloads; other changes are hot updates
+                ref={iframeRef}
                 srcDoc={srcDoc}
                 title="Live Preview"
                 className="w-full h-full border-0 bg-white"
-                sandbox="allow-scripts allow-forms"
+                sandbox={PREVIEW_SANDBOX}
               />
             </div>
           </div>
-          <DevToolsPanel logs={consoleLogs} onClear={() => setConsoleLogs([])} />
+          <DevToolsPanel logs={[...buildLogs, ...consoleLogs]} status={buildStatus} onClear={() => setConsoleLogs([])} />
         </ResizablePanel>
       )}
     </div>
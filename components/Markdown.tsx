@@ -0,0 +1,128 @@
+import React from 'react';
+
+interface MarkdownProps {
+  text: string;
+}
+
+// Renders the markdown subset the AI uses in chat as React elements, so nothing in a message is ever parsed as HTML
+
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const INLINE_PATTERN = /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\s][^*\n]*\*|_[^_\s][^_\n]*_)|(\[[^\]\n]+\]\([^)\s]+\))|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+const isSafeUrl = (url: string): boolean => {
+  try {
+    return SAFE_LINK_PROTOCOLS.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const renderLink = (label: React.ReactNode, url: string, key: number) => {
+  if (!isSafeUrl(url)) return <React.Fragment key={key}>{label}</React.Fragment>;
+  return (
+    <a key={key} href={url} target="_blank" rel="noopener noreferrer" className="text-purple-300 underline hover:text-purple-200">
+      {label}
+    </a>
+  );
+};
+
+const renderInline = (text: string): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let key = 0;
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push(rest);
+      break;
+    }
+    if (match.index > 0) nodes.push(rest.slice(0, match.index));
+    const [token, code, bold, italic, link, url] = match;
+    if (code) {
+      nodes.push(<code key={key++} className="px-1 py-0.5 rounded bg-black/40 font-mono text-[0.85em] text-purple-200">{code.slice(1, -1)}</code>);
+    } else if (bold) {
+      nodes.push(<strong key={key++}>{renderInline(bold.slice(2, -2))}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key++}>{renderInline(italic.slice(1, -1))}</em>);
+    } else if (link) {
+      const [, label, href] = link.match(/^\[([^\]]+)\]\(([^)]+)\)$/) || [];
+      nodes.push(renderLink(renderInline(label), href, key++));
+    } else if (url) {
+      nodes.push(renderLink(url, url, key++));
+    }
+    rest = rest.slice(match.index + token.length);
+  }
+  return nodes;
+};
+
+const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  const lines = text.split('\n');
+  const blocks: React.ReactNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push(<p key={blocks.length} className="whitespace-pre-wrap">{renderInline(paragraph.join('\n'))}</p>);
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*```\s*([\w-]*)\s*$/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) code.push(lines[i++]);
+      i++; // the closing fence, or the end of an unclosed block
+      blocks.push(
+        <pre key={blocks.length} className="p-3 rounded-lg bg-black/40 overflow-x-auto text-xs font-mono leading-5" data-language={fence[1] || undefined}>
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      const className = heading[1].length <= 2 ? 'text-base font-bold' : 'text-sm font-semibold';
+      blocks.push(<p key={blocks.length} className={className}>{renderInline(heading[2])}</p>);
+      i++;
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      let next: RegExpMatchArray | null = item;
+      while (next && /\d/.test(next[1]) === ordered) {
+        items.push(next[2]);
+        i++;
+        next = i < lines.length ? lines[i].match(LIST_ITEM) : null;
+      }
+      const children = items.map((content, index) => <li key={index}>{renderInline(content)}</li>);
+      blocks.push(ordered
+        ? <ol key={blocks.length} className="list-decimal pl-5 space-y-1">{children}</ol>
+        : <ul key={blocks.length} className="list-disc pl-5 space-y-1">{children}</ul>);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+  flushParagraph();
+
+  return <div className="space-y-2 break-words">{blocks}</div>;
+};
+
+export default Markdown;
@@ -1,36 +1,273 @@
 // Browser automation from Kilo Code
-import { Browser, Page } from 'playwright'
+import type { Browser, BrowserContext, Page } from 'playwright'
+import { isPublicUrl } from './NetworkPolicy'
+
+export type BrowserAction =
+  | 'launch'
+  | 'navigate'
+  | 'click'
+  | 'type'
+  | 'scroll_down'
+  | 'scroll_up'
+  | 'wait_for'
+  | 'close'
+
+export interface BrowserActionResult {
+  screenshot?: string // data:image/png;base64,...
+  logs: string // console messages, page errors and failed requests since the previous action
+  currentUrl?: string
+  currentMousePosition?: string
+}
+
+export interface BrowserSessionOptions {
+  viewport?: { width: number; height: number }
+  actionTimeoutMs?: number
+  executablePath?: string // a system Chromium instead of the one Playwright downloads
+  blockPrivateNetwork?: boolean // for untrusted pages: refuse requests to localhost and internal addresses
+}
+
+const DEFAULT_VIEWPORT = { width: 900, height: 600 }
+const DEFAULT_ACTION_TIMEOUT_MS = 10000
+
+// How long to let network activity settle before taking the screenshot
+const SETTLE_TIMEOUT_MS = 3000
+
+const MAX_LOG_LINES = 200
+
+// In-memory documents are served from here so localStorage and relative URLs behave as on a real site
+const INLINE_DOCUMENT_URL = 'http://mirage-preview.localhost/'
+
+// Carries the page state at the time of failure so the model can see what went wrong
+export class BrowserActionError extends Error {
+  constructor(message: string, public result: BrowserActionResult) {
+    super(message)
+    this.name = 'BrowserActionError'
+  }
+}
 
 export class BrowserSession {
   private browser?: Browser
+  private context?: BrowserContext
   private page?: Page
-  
-  async launch(): Promise<void> {
-    // Launch browser with Playwright
-    // const { chromium } = await import('playwright')
-    // this.browser = await chromium.launch()
-    // this.page = await this.browser.newPage()
-  }
-  
-  async navigate(url: string): Promise<void> {
-    if (!this.page) await this.launch()
-    // await this.page?.goto(url)
-  }
-  
-  async click(selector: string): Promise<void> {
-    // await this.page?.click(selector)
-  }
-  
-  async type(selector: string, text: string): Promise<void> {
-    // await this.page?.fill(selector, text)
-  }
-  
+  private logs: string[] = []
+  private mousePosition?: { x: number; y: number }
+  private viewport: { width: number; height: number }
+  private actionTimeoutMs: number
+  private executablePath?: string
+  private blockPrivateNetwork: boolean
+
+  constructor(options: BrowserSessionOptions = {}) {
+    this.viewport = options.viewport ?? DEFAULT_VIEWPORT
+    this.actionTimeoutMs = options.actionTimeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS
+    this.executablePath = options.executablePath
+    this.blockPrivateNetwork = options.blockPrivateNetwork ?? false
+  }
+
+  get isLaunched(): boolean {
+    return Boolean(this.page && !this.page.isClosed())
+  }
+
+  async launch(url?: string): Promise<BrowserActionResult> {
+    await this.ensureLaunched()
+    return url ? this.navigate(url) : this.capture()
+  }
+
+  async navigate(url: string): Promise<BrowserActionResult> {
+    if (!this.isLaunched) return this.launch(url)
+    return this.runAction(async page => {
+      await page.goto(url, { waitUntil: 'domcontentloaded' })
+    })
+  }
+
+  // target is either "x,y" viewport coordinates or a Playwright selector
+  async click(target: string): Promise<BrowserActionResult> {
+    return this.runAction(async page => {
+      const coordinate = parseCoordinate(target)
+      if (coordinate) {
+        await page.mouse.click(coordinate.x, coordinate.y)
+        this.mousePosition = coordinate
+      } else {
+        await page.click(target)
+      }
+    })
+  }
+
+  // Types into the focused element, or fills the element matched by selector
+  async type(text: string, selector?: string): Promise<BrowserActionResult> {
+    return this.runAction(async page => {
+      if (selector) {
+        await page.fill(selector, text)
+      } else {
+        await page.keyboard.type(text)
+      }
+    })
+  }
+
+  async scroll(direction: 'up' | 'down', amount = this.viewport.height): Promise<BrowserActionResult> {
+    return this.runAction(async page => {
+      await page.evaluate(delta => window.scrollBy({ top: delta, behavior: 'instant' as ScrollBehavior }), direction === 'down' ? amount : -amount)
+    })
+  }
+
+  // target is a selector to wait for, or a number of milliseconds
+  async waitFor(target: string, timeoutMs = this.actionTimeoutMs): Promise<BrowserActionResult> {
+    return this.runAction(async page => {
+      if (/^\d+$/.test(target.trim())) {
+        await page.waitForTimeout(Math.min(parseInt(target, 10), timeoutMs))
+      } else {
+        await page.waitForSelector(target, { state: 'visible', timeout: timeoutMs })
+      }
+    })
+  }
+
+  // Render an HTML document held in memory, e.g. a generated preview
+  async loadHtml(html: string): Promise<BrowserActionResult> {
+    await this.ensureLaunched()
+    await this.page!.route(INLINE_DOCUMENT_URL, route => route.fulfill({ contentType: 'text/html; charset=utf-8', body: html }), { times: 1 })
+    return this.runAction(async page => {
+      await page.goto(INLINE_DOCUMENT_URL, { waitUntil: 'load' })
+    })
+  }
+
+  async setViewport(viewport: { width: number; height: number }): Promise<void> {
+    this.viewport = viewport
+    if (this.isLaunched) {
+      await this.page!.setViewportSize(viewport)
+    }
+  }
+
+  // Run a function inside the page - it is serialized, so it can't close over anything
+  async evaluate<R, A>(pageFunction: (arg: A) => R | Promise<R>, arg: A): Promise<R> {
+    if (!this.isLaunched) {
+      throw new Error('The browser is not running - launch it first')
+    }
+    // Runners that keep function names (tsx, esbuild --keep-names) wrap inner functions in __name(), which the page doesn't have
+    const source = `(() => { const __name = target => target; return (${pageFunction.toString()})(${JSON.stringify(arg)}) })()`
+    return await this.page!.evaluate(source) as R
+  }
+
   async screenshot(): Promise<Buffer | null> {
-    // return await this.page?.screenshot() || null
-    return null
+    if (!this.isLaunched) return null
+    return await this.page!.screenshot({ type: 'png' })
   }
-  
+
+  // Logs collected since the last action, without taking a screenshot
+  drainLogs(): string {
+    const logs = this.logs.join('\n')
+    this.logs = []
+    return logs
+  }
+
   async closeBrowser(): Promise<void> {
-    await this.browser?.close()
+    const browser = this.browser
+    this.browser = undefined
+    this.context = undefined
+    this.page = undefined
+    this.mousePosition = undefined
+    this.logs = []
+
+    try {
+      await browser?.close()
+    } catch (error) {
+      console.error('Error closing browser:', error)
+    }
+  }
+
+  private async ensureLaunched(): Promise<void> {
+    if (this.isLaunched) return
+    await this.closeBrowser()
+
+    // Loaded lazily so nothing pulls in Playwright until the browser is actually used
+    const { chromium } = await import('playwright')
+    this.browser = await chromium.launch({ headless: true, executablePath: this.executablePath })
+    this.context = await this.browser.newContext({ viewport: this.viewport })
+    if (this.blockPrivateNetwork) {
+      await this.restrictToPublicNetwork(this.context)
+    }
+    this.page = await this.context.newPage()
+    this.page.setDefaultTimeout(this.actionTimeoutMs)
+    this.attachListeners(this.page)
   }
-}
\ No newline at end of file
+
+  // Run an action, then report what the page looks like and what it logged - even when the action failed
+  private async runAction(action: (page: Page) => Promise<void>): Promise<BrowserActionResult> {
+    if (!this.isLaunched) {
+      throw new Error('The browser is not running - launch it first')
+    }
+
+    const page = this.page!
+    let actionError: Error | undefined
+
+    try {
+      await action(page)
+    } catch (error) {
+      actionError = error
+    }
+
+    await page.waitForLoadState('networkidle', { timeout: SETTLE_TIMEOUT_MS }).catch(() => {})
+    const result = await this.capture()
+
+    if (actionError) {
+      throw new BrowserActionError(actionError.message, result)
+    }
+    return result
+  }
+
+  private async capture(): Promise<BrowserActionResult> {
+    const page = this.page
+    const screenshot = page ? await page.screenshot({ type: 'png' }).catch(() => null) : null
+
+    return {
+      screenshot: screenshot ? `data:image/png;base64,${screenshot.toString('base64')}` : undefined,
+      logs: this.drainLogs(),
+      currentUrl: page?.url(),
+      currentMousePosition: this.mousePosition ? `${this.mousePosition.x},${this.mousePosition.y}` : undefined
+    }
+  }
+
+  // In-memory documents are fulfilled by a page route, which runs before these context routes
+  private async restrictToPublicNetwork(context: BrowserContext): Promise<void> {
+    await context.route('**/*', async route => {
+      const url = route.request().url()
+      if (await isPublicUrl(url)) {
+        await route.fallback()
+      } else {
+        this.addLog(`[blocked] ${route.request().method()} ${url} - private network addresses are not reachable from previews`)
+        await route.abort('blockedbyclient')
+      }
+    })
+    await context.routeWebSocket(/.*/, async ws => {
+      if (await isPublicUrl(ws.url())) {
+        ws.connectToServer()
+      } else {
+        this.addLog(`[blocked] WebSocket ${ws.url()} - private network addresses are not reachable from previews`)
+        await ws.close()
+      }
+    })
+  }
+
+  private attachListeners(page: Page): void {
+    page.on('console', message => this.addLog(`[${message.type()}] ${message.text()}`))
+    page.on('pageerror', error => this.addLog(`[page error] ${error.message}`))
+    page.on('requestfailed', request => {
+      this.addLog(`[request failed] ${request.method()} ${request.url()} - ${request.failure()?.errorText ?? 'unknown error'}`)
+    })
+    page.on('response', response => {
+      if (response.status() >= 400) {
+        this.addLog(`[http ${response.status()}] ${response.request().method()} ${response.url()}`)
+      }
+    })
+  }
+
+  private addLog(line: string): void {
+    this.logs.push(line)
+    if (this.logs.length > MAX_LOG_LINES) {
+      this.logs = this.logs.slice(-MAX_LOG_LINES)
+    }
+  }
+}
+
+function parseCoordinate(target: string): { x: number; y: number } | null {
+  const match = target.trim().match(/^(\d+(?:\.\d+)?)\s*,\s*(\d+(?:\.\d+)?)$/)
+  return match ? { x: parseFloat(match[1]), y: parseFloat(match[2]) } : null
+}
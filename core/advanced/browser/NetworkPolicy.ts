@@ -0,0 +1,76 @@
+// Keeps pages rendered on the server away from the machine and its network: loopback, private, link-local and
+// other non-public addresses are refused, whether a URL names them directly or through DNS
+import { promises as dns } from 'dns'
+import { isIP } from 'net'
+
+const PRIVATE_HOSTNAMES = /(^|\.)(localhost|local|internal|lan|home\.arpa)$/i
+
+// [network, prefix length]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3] // multicast and reserved
+]
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, part) => value * 256 + parseInt(part, 10), 0)
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase()
+
+  if (isIP(ip) === 4) {
+    const value = ipv4ToNumber(ip)
+    return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+      const size = 2 ** (32 - prefix)
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size)
+    })
+  }
+
+  if (isIP(ip) === 6) {
+    // IPv4-mapped addresses, which URLs normalise to hex, e.g. ::ffff:7f00:1
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (mapped) return isPrivateAddress(mapped[1])
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)]
+      return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'))
+    }
+    return ip === '::' || ip === '::1' ||
+      /^f[cd]/.test(ip) || // unique local
+      /^fe[89ab]/.test(ip) || // link-local
+      /^ff/.test(ip) // multicast
+  }
+
+  return false
+}
+
+// Resolves the host so names pointing at internal addresses are caught too. Unresolvable hosts are allowed,
+// as the browser will fail to reach them anyway.
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let hostname: string
+  try {
+    const parsed = new URL(url)
+    if (!['http:', 'https:', 'ws:', 'wss:'].includes(parsed.protocol)) return true // data:, blob: and the like
+    hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  } catch {
+    return false
+  }
+
+  if (PRIVATE_HOSTNAMES.test(hostname)) return false
+  if (isIP(hostname)) return !isPrivateAddress(hostname)
+
+  try {
+    const addresses = await dns.lookup(hostname, { all: true })
+    return addresses.every(({ address }) => !isPrivateAddress(address))
+  } catch {
+    return true
+  }
+}
@@ -0,0 +1,438 @@
+// Visual QA for generated Mirage Prototypes (previewHtml)
+// Renders the page headlessly at several widths and looks for what users notice first:
+// script errors, empty sections and cards, text nobody can read and content spilling off the screen.
+import { BrowserSession, BrowserActionError } from './BrowserSession'
+import type { BrowserSessionOptions } from './BrowserSession'
+
+export interface PreviewViewport {
+  name: string
+  width: number
+  height: number
+}
+
+export const PREVIEW_VIEWPORTS: PreviewViewport[] = [
+  { name: 'desktop', width: 1280, height: 800 },
+  { name: 'tablet', width: 768, height: 1024 },
+  { name: 'mobile', width: 375, height: 667 }
+]
+
+export type PreviewIssueKind = 'js-error' | 'failed-request' | 'empty-container' | 'low-contrast' | 'overflow'
+
+export interface PreviewIssue {
+  kind: PreviewIssueKind
+  message: string
+  element?: string // e.g. div.grid.gap-8 "Our Core Features"
+  viewports: string[]
+}
+
+export interface PreviewQAReport {
+  passed: boolean
+  issues: PreviewIssue[]
+  screenshots: Record<string, string> // viewport name -> data URL
+}
+
+export interface PreviewQAOptions {
+  viewports?: PreviewViewport[]
+  maxIssuesPerKind?: number
+  settleTimeoutMs?: number // time allowed for entrance animations and lazy content
+  session?: BrowserSessionOptions
+}
+
+// What the in-page inspection reports back - it runs in the browser so it must stay self-contained
+interface PageFinding {
+  kind: PreviewIssueKind
+  message: string
+  element?: string
+}
+
+const DEFAULT_MAX_ISSUES_PER_KIND = 8
+const DEFAULT_SETTLE_TIMEOUT_MS = 4000
+
+const ISSUE_HEADINGS: Record<PreviewIssueKind, string> = {
+  'js-error': 'JavaScript errors',
+  'failed-request': 'Failed requests (broken images, scripts or stylesheets)',
+  'empty-container': 'Empty containers',
+  'low-contrast': 'Invisible or low-contrast text',
+  'overflow': 'Overflow'
+}
+
+export class PreviewQA {
+  private viewports: PreviewViewport[]
+  private maxIssuesPerKind: number
+  private settleTimeoutMs: number
+
+  constructor(private options: PreviewQAOptions = {}) {
+    this.viewports = options.viewports ?? PREVIEW_VIEWPORTS
+    this.maxIssuesPerKind = options.maxIssuesPerKind ?? DEFAULT_MAX_ISSUES_PER_KIND
+    this.settleTimeoutMs = options.settleTimeoutMs ?? DEFAULT_SETTLE_TIMEOUT_MS
+  }
+
+  // Throws if the browser can't be started - callers decide whether QA is optional
+  async check(html: string): Promise<PreviewQAReport> {
+    // The page is model-generated, so it must not reach the server's own network
+    const session = new BrowserSession({ ...this.options.session, blockPrivateNetwork: true })
+    const issues = new Map<string, PreviewIssue>()
+    const screenshots: Record<string, string> = {}
+
+    const addIssue = (finding: PageFinding, viewport: string) => {
+      const key = `${finding.kind}|${finding.element ?? ''}|${finding.message}`
+      const existing = issues.get(key)
+      if (existing) {
+        existing.viewports.push(viewport)
+      } else {
+        issues.set(key, { ...finding, viewports: [viewport] })
+      }
+    }
+
+    try {
+      for (const viewport of this.viewports) {
+        await session.setViewport({ width: viewport.width, height: viewport.height })
+
+        let logs: string
+        try {
+          logs = (await session.loadHtml(html)).logs
+        } catch (error) {
+          // The first launch failing means there is no browser, not a broken page
+          if (!(error instanceof BrowserActionError)) throw error
+          addIssue({ kind: 'js-error', message: `The page failed to load: ${error.message}` }, viewport.name)
+          logs = error.result.logs
+        }
+
+        await session.evaluate(settlePage, this.settleTimeoutMs)
+        const findings = await session.evaluate(inspectPage, this.maxIssuesPerKind)
+
+        for (const finding of [...parseLogs(logs + '\n' + session.drainLogs()), ...findings]) {
+          addIssue(finding, viewport.name)
+        }
+
+        const screenshot = await session.screenshot()
+        if (screenshot) {
+          screenshots[viewport.name] = `data:image/png;base64,${screenshot.toString('base64')}`
+        }
+      }
+    } finally {
+      await session.closeBrowser()
+    }
+
+    // Keep the report short enough to hand back to the model
+    const perKind = new Map<PreviewIssueKind, number>()
+    const kept = Array.from(issues.values()).filter(issue => {
+      const count = (perKind.get(issue.kind) ?? 0) + 1
+      perKind.set(issue.kind, count)
+      return count <= this.maxIssuesPerKind
+    })
+
+    return { passed: kept.length === 0, issues: kept, screenshots }
+  }
+}
+
+// The repair turn sent back to the model when a preview fails QA
+export function formatPreviewRepairPrompt(report: PreviewQAReport, viewports: PreviewViewport[] = PREVIEW_VIEWPORTS): string {
+  const widths = viewports.map(viewport => `${viewport.name} (${viewport.width}px)`).join(', ')
+  const sections: string[] = []
+
+  for (const kind of Object.keys(ISSUE_HEADINGS) as PreviewIssueKind[]) {
+    const issues = report.issues.filter(issue => issue.kind === kind)
+    if (issues.length === 0) continue
+
+    const lines = issues.map(issue => {
+      const where = issue.viewports.length === viewports.length ? 'all widths' : issue.viewports.join(', ')
+      return `- [${where}] ${issue.element ? `${issue.element}: ` : ''}${issue.message}`
+    })
+    sections.push(`${ISSUE_HEADINGS[kind]}:\n${lines.join('\n')}`)
+  }
+
+  return [
+    `Automated visual QA rendered your previewHtml at ${widths} and found these problems:`,
+    sections.join('\n\n'),
+    'Fix every problem listed above. Respond with the complete MODIFY_CODE JSON again: keep all of the source code changes ' +
+      '(fix them too if they share the bug) and include the corrected, complete previewHtml.'
+  ].join('\n\n')
+}
+
+function parseLogs(logs: string): PageFinding[] {
+  const findings: PageFinding[] = []
+
+  for (const line of logs.split('\n')) {
+    if (line.startsWith('[page error] ')) {
+      findings.push({ kind: 'js-error', message: `Uncaught ${line.slice('[page error] '.length)}` })
+    } else if (line.startsWith('[error] ')) {
+      const message = line.slice('[error] '.length)
+      // Chromium echoes every failed resource to the console - those are reported as failed requests
+      if (!message.startsWith('Failed to load resource')) {
+        findings.push({ kind: 'js-error', message: `console.error: ${message}` })
+      }
+    } else if (line.startsWith('[request failed] ')) {
+      findings.push({ kind: 'failed-request', message: line.slice('[request failed] '.length) })
+    } else if (line.startsWith('[http ')) {
+      const [, status, request] = line.match(/^\[http (\d+)\] (.*)$/) ?? []
+      findings.push({ kind: 'failed-request', message: `HTTP ${status}: ${request}` })
+    }
+  }
+
+  return findings
+}
+
+// Scroll through the page so scroll-triggered animations run, then wait for entrance animations to finish
+async function settlePage(timeoutMs: number): Promise<void> {
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+  const deadline = Date.now() + timeoutMs
+  const scroller = document.scrollingElement ?? document.documentElement
+
+  for (let y = window.innerHeight; y < scroller.scrollHeight && Date.now() < deadline; y += window.innerHeight) {
+    window.scrollTo(0, y)
+    await sleep(100)
+  }
+  window.scrollTo(0, 0)
+
+  // Looping animations (spinners, pulses) never finish
+  const finite = document.getAnimations().filter(animation => animation.effect?.getComputedTiming().endTime !== Infinity)
+  await Promise.race([
+    Promise.all(finite.map(animation => animation.finished.catch(() => undefined))),
+    sleep(Math.max(0, deadline - Date.now()))
+  ])
+}
+
+// Runs inside the page
+function inspectPage(maxPerKind: number): PageFinding[] {
+  const findings: PageFinding[] = []
+  const counts: Record<string, number> = {}
+  const report = (finding: PageFinding) => {
+    counts[finding.kind] = (counts[finding.kind] ?? 0) + 1
+    if (counts[finding.kind] <= maxPerKind) findings.push(finding)
+  }
+
+  const describe = (element: Element): string => {
+    let description = element.tagName.toLowerCase()
+    if (element.id) description += `#${element.id}`
+    const classes = Array.from(element.classList).slice(0, 3)
+    if (classes.length > 0) description += `.${classes.join('.')}`
+
+    const text = ((element as HTMLElement).innerText ?? '').trim().replace(/\s+/g, ' ')
+    if (text) description += ` "${text.length > 40 ? text.slice(0, 40) + '...' : text}"`
+    return description
+  }
+
+  const isRendered = (element: Element): boolean => {
+    const rect = element.getBoundingClientRect()
+    return rect.width > 0 && rect.height > 0 && getComputedStyle(element).visibility !== 'hidden'
+  }
+
+  // Tailwind's preflight gives everything border-style: solid, so only the widths say whether a border shows
+  const paints = (style: CSSStyleDeclaration): boolean =>
+    style.backgroundColor !== 'rgba(0, 0, 0, 0)' ||
+    style.backgroundImage !== 'none' ||
+    style.boxShadow !== 'none' ||
+    ['top', 'right', 'bottom', 'left'].some(side => parseFloat(style.getPropertyValue(`border-${side}-width`)) > 0)
+
+  const MEDIA = 'img, svg, video, canvas, iframe, picture, input, select, textarea, object, embed'
+  const all = Array.from(document.body?.querySelectorAll('*') ?? [])
+
+  // --- Empty containers ---
+  const hasBody = (document.body?.innerText ?? '').trim() !== '' || Boolean(document.body?.querySelector(MEDIA))
+  if (!hasBody) {
+    report({ kind: 'empty-container', message: 'The page rendered nothing visible - no text, images or controls' })
+  } else {
+    const CONTAINER_TAGS = ['SECTION', 'MAIN', 'ARTICLE', 'ASIDE', 'NAV', 'HEADER', 'FOOTER', 'UL', 'OL', 'TABLE']
+    const PLACEHOLDER_TEXT = /^(\.{2,}|…|todo|tbd|placeholder|coming soon|lorem ipsum\b.*)$/i
+    const reported: Element[] = []
+
+    for (const element of all) {
+      if (reported.some(parent => parent.contains(element))) continue
+      if (!isRendered(element) || element.closest('[aria-hidden="true"]')) continue
+
+      const rect = element.getBoundingClientRect()
+      if (rect.width < 40 || rect.height < 40) continue
+
+      const style = getComputedStyle(element)
+      let isContainer = CONTAINER_TAGS.includes(element.tagName)
+      if (element.tagName === 'DIV') {
+        // A childless box only counts when it is padded like a card - not an overlay, swatch, bar or divider
+        isContainer = element.children.length > 0
+          ? true
+          : paints(style) && parseFloat(style.paddingTop) + parseFloat(style.paddingLeft) > 0 && !['absolute', 'fixed'].includes(style.position)
+      }
+      if (!isContainer || style.backgroundImage !== 'none' || element.querySelector(MEDIA)) continue
+
+      // Coloured shapes inside (chart bars, progress tracks, icon circles) are content too
+      if (Array.from(element.querySelectorAll('*')).some(child => paints(getComputedStyle(child)))) continue
+
+      // Pseudo-element content (icons, decorations) counts as content
+      const hasPseudoContent = ['::before', '::after'].some(pseudo => {
+        const content = getComputedStyle(element, pseudo).content
+        return content !== 'none' && content !== 'normal' && content !== '""'
+      })
+      if (hasPseudoContent) continue
+
+      const text = ((element as HTMLElement).innerText ?? '').trim()
+      if (text === '') {
+        report({ kind: 'empty-container', element: describe(element), message: 'renders as an empty box with no content' })
+        reported.push(element)
+      } else if (PLACEHOLDER_TEXT.test(text)) {
+        report({ kind: 'empty-container', element: describe(element), message: `only contains placeholder text "${text}"` })
+        reported.push(element)
+      }
+    }
+  }
+
+  // --- Invisible and low-contrast text ---
+  type Rgba = { r: number; g: number; b: number; a: number }
+  const parseColor = (value: string): Rgba | null => {
+    const match = value.match(/^rgba?\(([^)]+)\)$/)
+    if (!match) return null // color(), oklch() etc. - not worth guessing
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(parseFloat)
+    return { r: parts[0], g: parts[1], b: parts[2], a: parts.length > 3 ? parts[3] : 1 }
+  }
+  const blend = (top: Rgba, bottom: Rgba): Rgba => ({
+    r: top.r * top.a + bottom.r * (1 - top.a),
+    g: top.g * top.a + bottom.g * (1 - top.a),
+    b: top.b * top.a + bottom.b * (1 - top.a),
+    a: 1
+  })
+  const luminance = (color: Rgba): number => {
+    const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+      const value = channel / 255
+      return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+    })
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b
+  }
+  const formatColor = (color: Rgba) => `rgb(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)})`
+
+  // The backdrop is whatever is painted under the text: element backgrounds, or an image we can't judge
+  const backdropFromLayers = (layers: Element[]): Rgba | null => {
+    const colors: Rgba[] = []
+    for (const layer of layers) {
+      const style = getComputedStyle(layer)
+      if (layer.matches('img, video, canvas, iframe, picture, svg') || style.backgroundImage !== 'none') return null
+      const color = parseColor(style.backgroundColor)
+      if (color && color.a > 0) colors.push(color)
+      if (color && color.a >= 1) break
+    }
+
+    const canvasColor = parseColor(getComputedStyle(document.documentElement).backgroundColor)
+    let result: Rgba = canvasColor && canvasColor.a >= 1 ? canvasColor : { r: 255, g: 255, b: 255, a: 1 }
+    for (const color of colors.reverse()) result = blend(color, result)
+    return result
+  }
+
+  const ancestorsOf = (element: Element): Element[] => {
+    const chain: Element[] = []
+    for (let current: Element | null = element; current; current = current.parentElement) chain.push(current)
+    return chain
+  }
+
+  const textElements = all.filter(element =>
+    !['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'OPTION'].includes(element.tagName) &&
+    Array.from(element.childNodes).some(node => node.nodeType === Node.TEXT_NODE && node.textContent!.trim() !== '') &&
+    isRendered(element)
+  )
+
+  const checkText = (element: Element, layers: Element[]) => {
+    const style = getComputedStyle(element)
+    const text = describe(element)
+
+    let opacity = 1
+    let revealsOnInteraction = false
+    for (const ancestor of ancestorsOf(element)) {
+      const ancestorStyle = getComputedStyle(ancestor)
+      const ancestorOpacity = parseFloat(ancestorStyle.opacity)
+      opacity *= ancestorOpacity
+      // Transparent with an opacity transition is a hover or click reveal, not a bug
+      if (ancestorOpacity < 1 && /\b(opacity|all)\b/.test(ancestorStyle.transitionProperty) && parseFloat(ancestorStyle.transitionDuration) > 0) {
+        revealsOnInteraction = true
+      }
+    }
+    if (opacity < 0.1) {
+      if (!revealsOnInteraction) {
+        report({ kind: 'low-contrast', element: text, message: 'text is invisible (opacity stays at 0 - an entrance animation that never ran?)' })
+      }
+      return
+    }
+
+    const color = parseColor(style.color)
+    const backdrop = backdropFromLayers(layers)
+    if (!color || !backdrop) return
+
+    const foreground = blend({ ...color, a: color.a * opacity }, backdrop)
+    const [lighter, darker] = [luminance(foreground), luminance(backdrop)].sort((a, b) => b - a)
+    const ratio = (lighter + 0.05) / (darker + 0.05)
+
+    const fontSize = parseFloat(style.fontSize)
+    const isLarge = fontSize >= 24 || (fontSize >= 18.66 && parseInt(style.fontWeight, 10) >= 700)
+    const required = isLarge ? 3 : 4.5
+
+    if (ratio < required) {
+      const severity = ratio < 1.5 ? 'text is practically invisible' : 'text is hard to read'
+      report({
+        kind: 'low-contrast',
+        element: text,
+        message: `${severity} - contrast ${ratio.toFixed(2)}:1 (needs ${required}:1), ${formatColor(foreground)} on ${formatColor(backdrop)}`
+      })
+    }
+  }
+
+  // Text on screen is judged by what is actually painted under it; the rest by its ancestors' backgrounds
+  const scroller = document.scrollingElement ?? document.documentElement
+  const pending = new Set(textElements)
+  for (let y = 0; pending.size > 0; y += window.innerHeight) {
+    window.scrollTo(0, y)
+    for (const element of Array.from(pending)) {
+      const rect = element.getBoundingClientRect()
+      const x = rect.left + rect.width / 2
+      const centerY = rect.top + rect.height / 2
+      if (x < 0 || x >= window.innerWidth || centerY < 0 || centerY >= window.innerHeight) continue
+
+      // pointer-events: none elements never show up here and fall back to their ancestors below
+      const stack = document.elementsFromPoint(x, centerY)
+      const index = stack.findIndex(layer => layer === element || element.contains(layer))
+      if (index === -1) continue
+
+      pending.delete(element)
+      checkText(element, stack.slice(index).filter(layer => layer === element || !element.contains(layer)))
+    }
+    if (y + window.innerHeight >= scroller.scrollHeight) break
+  }
+  window.scrollTo(0, 0)
+  for (const element of pending) checkText(element, ancestorsOf(element))
+
+  // --- Overflow ---
+  const viewportWidth = document.documentElement.clientWidth
+  const isClippedOrFixed = (element: Element): boolean => {
+    for (let current = element.parentElement; current && current !== document.body; current = current.parentElement) {
+      const style = getComputedStyle(current)
+      if (style.overflowX !== 'visible' || style.position === 'fixed') return true
+    }
+    return getComputedStyle(element).position === 'fixed'
+  }
+  const sticksOut = (element: Element | null): boolean => {
+    if (!element || element === document.body) return false
+    const rect = element.getBoundingClientRect()
+    return rect.width > 0 && (rect.right > viewportWidth + 1 || rect.left < -1)
+  }
+
+  if (scroller.scrollWidth > viewportWidth + 1) {
+    let found = false
+    for (const element of all) {
+      // Report the outermost element that sticks out, not every descendant
+      if (!sticksOut(element) || sticksOut(element.parentElement) || isClippedOrFixed(element)) continue
+      const rect = element.getBoundingClientRect()
+      const excess = Math.round(Math.max(rect.right - viewportWidth, -rect.left))
+      report({ kind: 'overflow', element: describe(element), message: `extends ${excess}px beyond the ${viewportWidth}px wide viewport, causing horizontal scrolling` })
+      found = true
+    }
+    if (!found) {
+      report({ kind: 'overflow', message: `the page is ${scroller.scrollWidth}px wide in a ${viewportWidth}px viewport, causing horizontal scrolling` })
+    }
+  }
+
+  for (const element of textElements) {
+    const style = getComputedStyle(element)
+    // Scrollable boxes and ellipsis truncation are deliberate
+    if (!['hidden', 'clip'].includes(style.overflowX) || style.textOverflow === 'ellipsis') continue
+    if (element.scrollWidth > element.clientWidth + 1) {
+      report({ kind: 'overflow', element: describe(element), message: 'text is cut off horizontally' })
+    }
+  }
+
+  return findings
+}
@@ -0,0 +1,110 @@
+// Serves workspace files to the browser over http://127.0.0.1 so pages behave as they would when deployed.
+// Every request goes through the workspace PathPolicy - file:// pages could pull in anything on disk.
+import * as http from 'http'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { AddressInfo } from 'net'
+import { PathPolicy, PathPolicyError } from '../../tools/PathPolicy'
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.wasm': 'application/wasm'
+}
+
+export class StaticFileServer {
+  private server?: http.Server
+  private origin?: string
+
+  constructor(private pathPolicy: PathPolicy) {}
+
+  // Starts on first use and returns the URL for a workspace-relative path
+  async getUrl(filePath: string): Promise<string> {
+    const origin = await this.start()
+    const urlPath = filePath.replace(/\\/g, '/').replace(/^\.?\/+/, '')
+    return `${origin}/${urlPath.split('/').map(encodeURIComponent).join('/')}`
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server
+    this.server = undefined
+    this.origin = undefined
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()))
+    }
+  }
+
+  private async start(): Promise<string> {
+    if (this.origin) return this.origin
+
+    const server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        if (!response.headersSent) response.writeHead(500)
+        response.end(String(error.message))
+      })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(0, '127.0.0.1', () => resolve())
+    })
+
+    // Keep-alive sockets from the browser shouldn't hold the process open
+    server.unref()
+    this.server = server
+    this.origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    return this.origin
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405).end()
+      return
+    }
+
+    let relativePath = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname).replace(/^\/+/, '')
+
+    try {
+      let fullPath = await this.pathPolicy.resolve(relativePath || '.', 'read')
+      let stats = await fs.stat(fullPath)
+
+      if (stats.isDirectory()) {
+        relativePath = path.join(relativePath, 'index.html')
+        fullPath = await this.pathPolicy.resolve(relativePath, 'read')
+        stats = await fs.stat(fullPath)
+      }
+
+      const contentType = MIME_TYPES[path.extname(fullPath).toLowerCase()] ?? 'application/octet-stream'
+      response.writeHead(200, { 'Content-Type': contentType, 'Content-Length': stats.size, 'Cache-Control': 'no-store' })
+
+      if (request.method === 'HEAD') {
+        response.end()
+      } else {
+        response.end(await fs.readFile(fullPath))
+      }
+    } catch (error) {
+      if (error instanceof PathPolicyError) {
+        response.writeHead(403, { 'Content-Type': 'text/plain; charset=utf-8' }).end(error.message)
+      } else if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`Not found: /${relativePath}`)
+      } else {
+        throw error
+      }
+    }
+  }
+}
@@ -1,4 +1,7 @@
 // Sliding window context management from Kilo Code
+import { TokenizerService } from '../../tokenizer/TokenizerService'
+import type { ApiHandler, ModelInfo } from '../../api'
+
 export interface TruncateOptions {
   messages: any[]
   totalTokens: number
@@ -6,11 +9,13 @@ export interface TruncateOptions {
   contextWindow: number
   autoCondenseContext?: boolean
   autoCondenseContextPercent?: number
-  systemPrompt?: string
+  apiHandler?: ApiHandler
   taskId?: string
+  modelId?: string
 }
 
 export interface TruncateResult {
+  // The messages to keep - when a summary is returned it replaces everything before them
   messages: any[]
   summary?: string
   cost?: number
@@ -19,6 +24,17 @@ export interface TruncateResult {
   error?: string
 }
 
+const SUMMARY_PROMPT = `You are summarizing the earlier part of a conversation between a user and an AI coding agent so the agent can continue the task with a shorter context.
+
+Write a concise summary that preserves everything the agent needs to keep working:
+
+1. Task: what the user originally asked for and any later changes to the request.
+2. Files: every file path that was read, created, modified or deleted, with a short note on what changed.
+3. Decisions: technical decisions made, approaches that were tried and rejected, and why.
+4. Open TODOs: work that is still pending, known bugs, and the next step the agent was about to take.
+
+Use short bullet points under those four headings. Do not invent details that are not in the conversation. Respond with the summary only.`
+
 export async function truncateConversationIfNeeded(options: TruncateOptions): Promise<TruncateResult> {
   const {
     messages,
@@ -27,59 +43,130 @@ export async function truncateConversationIfNeeded(options: TruncateOptions): Pr
     contextWindow,
     autoCondenseContext = true,
     autoCondenseContextPercent = 75,
-    systemPrompt,
+    apiHandler,
     taskId
   } = options
-  
+  const modelId = options.modelId ?? apiHandler?.getModel().id
+
   // Check if truncation is needed
   const availableTokens = contextWindow - maxTokens
-  
+
   if (totalTokens <= availableTokens) {
     return { messages } // No truncation needed
   }
-  
+
   console.log(`Context window management: ${totalTokens} tokens > ${availableTokens} available`)
-  
-  if (autoCondenseContext) {
+
+  if (autoCondenseContext && apiHandler) {
     // Condense conversation by keeping percentage
-    const keepPercent = autoCondenseContextPercent / 100
-    const keepCount = Math.floor(messages.length * keepPercent)
-    const truncatedMessages = messages.slice(-keepCount)
-    
-    // Generate summary of removed messages
-    const removedMessages = messages.slice(0, messages.length - keepCount)
-    const summary = await generateSummary(removedMessages, systemPrompt)
-    
-    return {
-      messages: truncatedMessages,
-      summary,
-      newContextTokens: estimateTokens(truncatedMessages),
-      prevContextTokens: totalTokens,
-      cost: 0 // Would calculate actual cost
+    const cut = findTurnBoundary(messages, messages.length - Math.floor(messages.length * autoCondenseContextPercent / 100))
+    const truncatedMessages = messages.slice(cut)
+
+    // Summarize the removed messages with the active model
+    const removedMessages = messages.slice(0, cut)
+
+    try {
+      const { summary, cost } = await generateSummary(removedMessages, apiHandler, taskId)
+
+      return {
+        messages: truncatedMessages,
+        summary,
+        newContextTokens: estimateTokens(truncatedMessages, modelId) +
+          TokenizerService.instance.countTokens(summary, modelId),
+        prevContextTokens: totalTokens,
+        cost
+      }
+    } catch (error) {
+      // Fall through to plain truncation so the task can continue
+      return {
+        ...simpleTruncate(messages, totalTokens, modelId),
+        error: `Failed to summarize conversation: ${error.message}`
+      }
     }
   }
-  
-  // Simple truncation - keep last 75% of messages
-  const keepCount = Math.floor(messages.length * 0.75)
-  const truncatedMessages = messages.slice(-keepCount)
-  
+
+  return simpleTruncate(messages, totalTokens, modelId)
+}
+
+// Simple truncation - keep last 75% of messages
+function simpleTruncate(messages: any[], totalTokens: number, modelId?: string): TruncateResult {
+  const truncatedMessages = messages.slice(findTurnBoundary(messages, messages.length - Math.floor(messages.length * 0.75)))
+
   return {
     messages: truncatedMessages,
-    newContextTokens: estimateTokens(truncatedMessages),
+    newContextTokens: estimateTokens(truncatedMessages, modelId),
     prevContextTokens: totalTokens
   }
 }
 
-async function generateSummary(messages: any[], systemPrompt?: string): Promise<string> {
-  // Generate summary of conversation
-  const messageText = messages.map(m => `${m.role}: ${m.content}`).join('\n')
-  
-  return `Summary of ${messages.length} messages:\n${messageText.substring(0, 500)}...`
+// Agent tool messages and API tool turns both count - providers reject a result whose call was cut off
+function isToolResult(message: any): boolean {
+  return message.type === 'tool' || message.role === 'tool' || Boolean(message.toolUseId ?? message.metadata?.toolUseId)
 }
 
-function estimateTokens(messages: any[]): number {
-  return messages.reduce((total, msg) => {
-    const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-    return total + Math.ceil(content.length / 4)
-  }, 0)
-}
\ No newline at end of file
+// Moves a cut forward past tool results so the kept messages start on a new turn, or back to their call if
+// the conversation ends in tool results
+function findTurnBoundary(messages: any[], cut: number): number {
+  if (cut >= messages.length) return cut
+
+  let boundary = cut
+  while (boundary < messages.length && isToolResult(messages[boundary])) boundary++
+  if (boundary < messages.length) return boundary
+
+  boundary = cut
+  while (boundary > 0 && isToolResult(messages[boundary])) boundary--
+  return boundary
+}
+
+async function generateSummary(
+  messages: any[],
+  apiHandler: ApiHandler,
+  taskId?: string
+): Promise<{ summary: string; cost: number }> {
+  const transcript = messages
+    .map(m => {
+      const content = typeof m.content === 'string' ? m.content : JSON.stringify(m.content)
+      return `${m.role ?? m.type}: ${content}`
+    })
+    .join('\n\n')
+  const request = `Summarize this conversation:\n\n${transcript}`
+
+  let summary = ''
+  let usage: { inputTokens: number; outputTokens: number } | undefined
+
+  const stream = apiHandler.createMessage(SUMMARY_PROMPT, [{ role: 'user', content: request }], {
+    taskId: taskId ?? 'context-summary'
+  })
+
+  for await (const chunk of stream) {
+    if (chunk.type === 'text' && chunk.text) {
+      summary += chunk.text
+    } else if (chunk.type === 'usage') {
+      usage = chunk.data
+    } else if (chunk.type === 'error') {
+      throw new Error(chunk.error || 'Stream error')
+    }
+  }
+
+  summary = summary.trim()
+  if (!summary) {
+    throw new Error('The model returned an empty summary')
+  }
+
+  // Providers that don't report usage are costed from our own token counts
+  const { id, info } = apiHandler.getModel()
+  const inputTokens = usage?.inputTokens ??
+    TokenizerService.instance.countTokens(SUMMARY_PROMPT + request, id)
+  const outputTokens = usage?.outputTokens ??
+    TokenizerService.instance.countTokens(summary, id)
+
+  return { summary, cost: calculateCost(info, inputTokens, outputTokens) }
+}
+
+function calculateCost(info: ModelInfo, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * (info.inputPrice ?? 0) + outputTokens * (info.outputPrice ?? 0)) / 1_000_000
+}
+
+function estimateTokens(messages: any[], modelId?: string): number {
+  return TokenizerService.instance.countMessageTokens(messages, modelId)
+}
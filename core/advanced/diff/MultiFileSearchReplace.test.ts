@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { MultiFileSearchReplaceDiffStrategy, isSearchReplaceDiff } from './MultiFileSearchReplace'
+
+const block = (search: string, replace: string, startLine?: number) => [
+  '<<<<<<< SEARCH',
+  ...(startLine !== undefined ? [`:start_line:${startLine}`, '-------'] : []),
+  search,
+  '=======',
+  replace,
+  '>>>>>>> REPLACE'
+].join('\n')
+
+describe('MultiFileSearchReplaceDiffStrategy', () => {
+  const strategy = new MultiFileSearchReplaceDiffStrategy()
+
+  describe('parseDiffBlocks', () => {
+    it('reads blocks for several files with their start line hints', () => {
+      const diff = [
+        '*** File: src/a.ts',
+        block('const a = 1', 'const a = 2', 3),
+        block('', 'new'),
+        '*** File: src/b.ts',
+        block('x\ny', 'z')
+      ].join('\n')
+
+      expect(strategy.parseDiffBlocks(diff)).toEqual([
+        { targetPath: 'src/a.ts', searchText: 'const a = 1', replaceText: 'const a = 2', startLine: 3 },
+        { targetPath: 'src/a.ts', searchText: '', replaceText: 'new', startLine: undefined },
+        { targetPath: 'src/b.ts', searchText: 'x\ny', replaceText: 'z', startLine: undefined }
+      ])
+    })
+
+    it('uses the default path until a file header appears', () => {
+      const blocks = strategy.parseDiffBlocks(`${block('a', 'b')}\n*** File: other.ts\n${block('c', 'd')}`, 'main.ts')
+      expect(blocks.map(parsed => parsed.targetPath)).toEqual(['main.ts', 'other.ts'])
+    })
+
+    it('rejects blocks without a path or with missing markers', () => {
+      expect(() => strategy.parseDiffBlocks(block('a', 'b'))).toThrow('has no "*** File: <path>" header')
+      expect(() => strategy.parseDiffBlocks('*** File: a.ts\n<<<<<<< SEARCH\na\n')).toThrow('missing its ======= separator')
+      expect(() => strategy.parseDiffBlocks('*** File: a.ts\n<<<<<<< SEARCH\na\n=======\nb\n')).toThrow('missing its >>>>>>> REPLACE marker')
+    })
+
+    it('recognises SEARCH/REPLACE diffs', () => {
+      expect(isSearchReplaceDiff(block('a', 'b'))).toBe(true)
+      expect(isSearchReplaceDiff('--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-a\n+b\n')).toBe(false)
+    })
+  })
+
+  describe('applyDiff', () => {
+    it('replaces exact matches and keeps CRLF line endings', async () => {
+      const result = await strategy.applyDiff({ 'a.ts': 'one\r\ntwo\r\nthree\r\n' }, `*** File: a.ts\n${block('two', 'TWO\nand a half')}`)
+
+      expect(result.success).toBe(true)
+      expect(result.files['a.ts']).toBe('one\r\nTWO\r\nand a half\r\nthree\r\n')
+      expect(result.results[0]).toMatchObject({ filePath: 'a.ts', matchType: 'exact', startLine: 2 })
+    })
+
+    it('matches ignoring whitespace and re-indents the replacement', async () => {
+      const content = 'function f() {\n    if (x) {\n        return 1\n    }\n}\n'
+      const result = await strategy.applyDiff({ 'f.ts': content }, block('if (x) {\n    return 1\n}', 'if (x) {\n    return 2\n}'), 'f.ts')
+
+      expect(result.results[0].matchType).toBe('whitespace')
+      expect(result.files['f.ts']).toBe('function f() {\n    if (x) {\n        return 2\n    }\n}\n')
+    })
+
+    it('matches small differences fuzzily above the threshold', async () => {
+      const content = 'const greeting = "hello world"\nconsole.log(greeting)\n'
+      const result = await strategy.applyDiff({ 'g.ts': content }, block('const greeting = "hello wrld"', 'const greeting = "hi"'), 'g.ts')
+
+      expect(result.results[0].matchType).toBe('fuzzy')
+      expect(result.results[0].similarity).toBeGreaterThan(0.9)
+      expect(result.files['g.ts']).toBe('const greeting = "hi"\nconsole.log(greeting)\n')
+    })
+
+    it('prefers the occurrence nearest the start line hint, shifted by earlier blocks', async () => {
+      const content = ['x = 0', 'x = 0', 'x = 0', 'y = 0', 'x = 0'].join('\n')
+      const diff = [block('y = 0', 'y = 1\ny = 2', 4), block('x = 0', 'x = 5', 5)].join('\n')
+      const result = await strategy.applyDiff({ 'x.ts': content }, diff, 'x.ts')
+
+      expect(result.files['x.ts']).toBe(['x = 0', 'x = 0', 'x = 0', 'y = 1', 'y = 2', 'x = 5'].join('\n'))
+      expect(result.results.map(blockResult => blockResult.startLine)).toEqual([4, 6])
+    })
+
+    it('matches blocks to files given by a shorter or longer path', async () => {
+      const result = await strategy.applyDiff({ 'src/App.tsx': 'old\n' }, `*** File: ./App.tsx\n${block('old', 'new')}`)
+      expect(result.files['src/App.tsx']).toBe('new\n')
+    })
+
+    it('creates missing files from blocks with an empty SEARCH section', async () => {
+      const result = await strategy.applyDiff({}, block('', 'export {}'), 'new.ts')
+      expect(result.files['new.ts']).toBe('export {}')
+      expect(result.results[0].matchType).toBe('create')
+    })
+
+    it('reports the closest match when a block does not match', async () => {
+      const content = 'alpha\nbeta\ngamma\n'
+      const result = await strategy.applyDiff({ 'a.ts': content }, block('totally different text', 'x'), 'a.ts')
+
+      expect(result.success).toBe(false)
+      expect(result.files['a.ts']).toBe(content)
+      expect(result.results[0].error).toMatch(/^No match found \(best similarity \d+%, threshold 80%\)$/)
+      expect(result.results[0].closestMatch).toMatchObject({ startLine: expect.any(Number), snippet: expect.any(String) })
+    })
+
+    it('reports missing files and parse errors as failed results', async () => {
+      const missing = await strategy.applyDiff({}, block('a', 'b'), 'gone.ts')
+      expect(missing.results[0]).toMatchObject({ success: false, error: 'File not found: gone.ts' })
+
+      const malformed = await strategy.applyDiff({}, '<<<<<<< SEARCH\na\n')
+      expect(malformed.success).toBe(false)
+      expect(malformed.results[0].error).toContain('header')
+    })
+
+    it('keeps fuzzy matching fast on large files', async () => {
+      const content = Array.from({ length: 5000 }, (_, index) => `const value${index} = computeSomething(${index}, "padding text")`).join('\n')
+      const started = Date.now()
+      const result = await strategy.applyDiff({ 'big.ts': content }, block('const value4321 = computeSomethng(4321, "padding text")', 'replaced'), 'big.ts')
+
+      expect(result.results[0]).toMatchObject({ success: true, matchType: 'fuzzy', startLine: 4322 })
+      expect(Date.now() - started).toBeLessThan(5000)
+    })
+  })
+})
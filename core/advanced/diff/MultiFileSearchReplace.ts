@@ -1,44 +1,436 @@
 // Advanced diff strategy from Kilo Code
+//
+// Diff format - one or more files, each followed by one or more SEARCH/REPLACE blocks:
+//
+//   *** File: src/App.tsx
+//   <<<<<<< SEARCH
+//   :start_line:12
+//   -------
+//   [exact content to find]
+//   =======
+//   [new content]
+//   >>>>>>> REPLACE
+//
+// The :start_line: hint and the ------- separator are optional. An empty SEARCH
+// section creates the file when it does not exist yet. Blocks before the first
+// "*** File:" header apply to the default path, when one is given.
+
+export interface DiffBlock {
+  targetPath: string
+  searchText: string
+  replaceText: string
+  startLine?: number
+}
+
+export interface DiffBlockResult {
+  filePath: string
+  blockIndex: number
+  success: boolean
+  matchType?: 'exact' | 'whitespace' | 'fuzzy' | 'create'
+  similarity?: number
+  startLine?: number
+  error?: string
+  closestMatch?: {
+    startLine: number
+    similarity: number
+    snippet: string
+  }
+}
+
+export interface MultiFileDiffResult {
+  files: Record<string, string>
+  results: DiffBlockResult[]
+  success: boolean
+}
+
+interface Match {
+  index: number // 0-based line index
+  length: number // number of lines matched
+  similarity: number
+  matchType: 'exact' | 'whitespace' | 'fuzzy'
+}
+
+const FILE_HEADER = /^\*\*\* File:\s*(.+?)\s*$/
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/
+const SEPARATOR = /^={5,9}\s*$/
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/
+const START_LINE = /^:start_line:\s*(\d+)\s*$/
+const CONTENT_START = /^-{5,9}\s*$/
+
+export function isSearchReplaceDiff(diff: string): boolean {
+  return diff.split(/\r?\n/).some(line => SEARCH_MARKER.test(line))
+}
+
+// Lines either side of a :start_line: hint that are searched before the whole file
+const HINT_BUFFER = 40
+
+// Fuzzy matching scores whole windows, so it only looks at the windows sharing the most lines with the block
+const MAX_FUZZY_CANDIDATES = 20
+// Longer SEARCH blocks only match exactly or ignoring whitespace
+const MAX_FUZZY_CHARS = 20000
+
 export class MultiFileSearchReplaceDiffStrategy {
   private fuzzyMatchThreshold: number
-  
+
   constructor(fuzzyMatchThreshold: number = 0.8) {
     this.fuzzyMatchThreshold = fuzzyMatchThreshold
   }
-  
-  async applyDiff(files: Record<string, string>, diff: string): Promise<Record<string, string>> {
-    // Parse diff and apply to multiple files with fuzzy matching
+
+  async applyDiff(files: Record<string, string>, diff: string, defaultPath?: string): Promise<MultiFileDiffResult> {
     const updatedFiles = { ...files }
-    
-    // Sophisticated diff parsing and application
-    const diffBlocks = this.parseDiffBlocks(diff)
-    
-    for (const block of diffBlocks) {
-      const targetFile = this.findBestMatchFile(block.targetPath, Object.keys(files))
-      if (targetFile) {
-        updatedFiles[targetFile] = this.applySearchReplace(
-          updatedFiles[targetFile], 
-          block.searchText, 
-          block.replaceText
-        )
-      }
-    }
-    
-    return updatedFiles
-  }
-  
-  private parseDiffBlocks(diff: string): any[] {
-    // Parse diff format into structured blocks
-    return []
-  }
-  
+    const results: DiffBlockResult[] = []
+
+    let diffBlocks: DiffBlock[]
+    try {
+      diffBlocks = this.parseDiffBlocks(diff, defaultPath)
+    } catch (error) {
+      return {
+        files: updatedFiles,
+        results: [{ filePath: '', blockIndex: 0, success: false, error: error.message }],
+        success: false
+      }
+    }
+
+    // Later :start_line: hints refer to the original file, so track how far earlier edits shifted it
+    const lineOffsets = new Map<string, number>()
+
+    diffBlocks.forEach((block, blockIndex) => {
+      const targetFile = this.findBestMatchFile(block.targetPath, Object.keys(updatedFiles))
+
+      if (!targetFile) {
+        if (!block.searchText) {
+          updatedFiles[block.targetPath] = block.replaceText
+          results.push({ filePath: block.targetPath, blockIndex, success: true, matchType: 'create', startLine: 1 })
+        } else {
+          results.push({ filePath: block.targetPath, blockIndex, success: false, error: `File not found: ${block.targetPath}` })
+        }
+        return
+      }
+
+      const offset = lineOffsets.get(targetFile) ?? 0
+      const startLine = block.startLine !== undefined ? block.startLine + offset : undefined
+      const result = this.applySearchReplace(updatedFiles[targetFile], { ...block, startLine })
+
+      if (result.content !== undefined) {
+        updatedFiles[targetFile] = result.content
+        lineOffsets.set(targetFile, offset + result.lineDelta)
+      }
+
+      results.push({ ...result.report, filePath: targetFile, blockIndex })
+    })
+
+    return {
+      files: updatedFiles,
+      results,
+      success: results.length > 0 && results.every(result => result.success)
+    }
+  }
+
+  parseDiffBlocks(diff: string, defaultPath?: string): DiffBlock[] {
+    const lines = diff.replace(/\r\n/g, '\n').split('\n')
+    const blocks: DiffBlock[] = []
+    let currentPath = defaultPath || undefined
+    let i = 0
+
+    while (i < lines.length) {
+      const header = lines[i].match(FILE_HEADER)
+      if (header) {
+        currentPath = header[1]
+        i++
+        continue
+      }
+
+      if (!SEARCH_MARKER.test(lines[i])) {
+        i++
+        continue
+      }
+
+      if (!currentPath) {
+        throw new Error(`SEARCH block at line ${i + 1} has no "*** File: <path>" header before it`)
+      }
+
+      const blockStart = i + 1
+      i++
+
+      let startLine: number | undefined
+      const hint = lines[i]?.match(START_LINE)
+      if (hint) {
+        startLine = parseInt(hint[1], 10)
+        i++
+      }
+      if (lines[i] !== undefined && CONTENT_START.test(lines[i])) {
+        i++
+      }
+
+      const searchLines: string[] = []
+      while (i < lines.length && !SEPARATOR.test(lines[i])) {
+        searchLines.push(lines[i++])
+      }
+      if (i >= lines.length) {
+        throw new Error(`SEARCH block at line ${blockStart} is missing its ======= separator`)
+      }
+      i++
+
+      const replaceLines: string[] = []
+      while (i < lines.length && !REPLACE_MARKER.test(lines[i])) {
+        replaceLines.push(lines[i++])
+      }
+      if (i >= lines.length) {
+        throw new Error(`SEARCH block at line ${blockStart} is missing its >>>>>>> REPLACE marker`)
+      }
+      i++
+
+      blocks.push({
+        targetPath: currentPath,
+        searchText: searchLines.join('\n'),
+        replaceText: replaceLines.join('\n'),
+        startLine
+      })
+    }
+
+    return blocks
+  }
+
   private findBestMatchFile(targetPath: string, availableFiles: string[]): string | null {
-    // Fuzzy match file paths
-    return availableFiles[0] || null
+    const normalize = (filePath: string) => filePath.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '')
+    const target = normalize(targetPath)
+
+    const exact = availableFiles.find(file => normalize(file) === target)
+    if (exact) return exact
+
+    // One path may be more fully qualified than the other (e.g. "App.tsx" vs "src/App.tsx")
+    const suffixMatches = availableFiles.filter(file => {
+      const normalized = normalize(file)
+      return normalized.endsWith(`/${target}`) || target.endsWith(`/${normalized}`)
+    })
+
+    return suffixMatches.length === 1 ? suffixMatches[0] : null
+  }
+
+  private applySearchReplace(
+    content: string,
+    block: DiffBlock
+  ): { content?: string; lineDelta: number; report: Omit<DiffBlockResult, 'filePath' | 'blockIndex'> } {
+    if (!block.searchText) {
+      return {
+        lineDelta: 0,
+        report: { success: false, error: 'SEARCH section is empty - only new files can be created without one' }
+      }
+    }
+
+    const lineEnding = content.includes('\r\n') ? '\r\n' : '\n'
+    const contentLines = content.split(/\r?\n/)
+    const searchLines = block.searchText.split('\n')
+
+    const match = this.findMatch(contentLines, searchLines, block.startLine)
+
+    if (!match) {
+      const closest = this.findClosest(contentLines, searchLines)
+
+      return {
+        lineDelta: 0,
+        report: {
+          success: false,
+          error: closest
+            ? `No match found (best similarity ${Math.round(closest.similarity * 100)}%, threshold ${Math.round(this.fuzzyMatchThreshold * 100)}%)`
+            : 'No match found',
+          closestMatch: closest ? {
+            startLine: closest.index + 1,
+            similarity: closest.similarity,
+            snippet: contentLines.slice(closest.index, closest.index + closest.length).join('\n')
+          } : undefined
+        }
+      }
+    }
+
+    const matchedLines = contentLines.slice(match.index, match.index + match.length)
+    const replaceLines = match.matchType === 'exact'
+      ? block.replaceText.split('\n')
+      : this.reindent(block.replaceText.split('\n'), searchLines, matchedLines)
+
+    const updated = [
+      ...contentLines.slice(0, match.index),
+      ...(block.replaceText ? replaceLines : []),
+      ...contentLines.slice(match.index + match.length)
+    ]
+
+    return {
+      content: updated.join(lineEnding),
+      lineDelta: updated.length - contentLines.length,
+      report: {
+        success: true,
+        matchType: match.matchType,
+        similarity: match.similarity,
+        startLine: match.index + 1
+      }
+    }
+  }
+
+  // Exact, then whitespace-insensitive, then fuzzy - near the hint first, then the whole file
+  private findMatch(contentLines: string[], searchLines: string[], startLine?: number): Match | null {
+    const ranges: Array<[number, number]> = []
+
+    if (startLine !== undefined) {
+      const hintIndex = Math.max(0, startLine - 1)
+      ranges.push([Math.max(0, hintIndex - HINT_BUFFER), Math.min(contentLines.length, hintIndex + HINT_BUFFER + searchLines.length)])
+    }
+    ranges.push([0, contentLines.length])
+
+    const hintIndex = startLine !== undefined ? startLine - 1 : 0
+    const byDistance = (a: number, b: number) => Math.abs(a - hintIndex) - Math.abs(b - hintIndex)
+
+    for (const [from, to] of ranges) {
+      const candidates = this.windowStarts(from, to, searchLines.length).sort(byDistance)
+
+      const exact = candidates.find(index => this.linesEqual(contentLines, index, searchLines, line => line))
+      if (exact !== undefined) {
+        return { index: exact, length: searchLines.length, similarity: 1, matchType: 'exact' }
+      }
+
+      const whitespace = candidates.find(index => this.linesEqual(contentLines, index, searchLines, normalizeWhitespace))
+      if (whitespace !== undefined) {
+        return { index: whitespace, length: searchLines.length, similarity: 1, matchType: 'whitespace' }
+      }
+
+      const fuzzy = this.bestFuzzyMatch(contentLines, searchLines, candidates, this.fuzzyMatchThreshold)
+      if (fuzzy) {
+        return fuzzy
+      }
+    }
+
+    return null
+  }
+
+  // Used only for failure reports, so no threshold applies
+  private findClosest(contentLines: string[], searchLines: string[]): Match | null {
+    const candidates = this.windowStarts(0, contentLines.length, searchLines.length)
+    return this.bestFuzzyMatch(contentLines, searchLines, candidates, 0)
   }
-  
-  private applySearchReplace(content: string, search: string, replace: string): string {
-    // Apply search and replace with fuzzy matching
-    return content.replace(new RegExp(search, 'g'), replace)
+
+  // Orders windows by how many of the block's lines they contain, then by how close their first line is to the
+  // block's; ties keep their original order
+  private rankCandidates(contentLines: string[], searchLines: string[], candidates: number[]): number[] {
+    if (candidates.length <= MAX_FUZZY_CANDIDATES) return candidates
+
+    const searchSet = new Set(searchLines.map(normalizeWhitespace).filter(Boolean))
+    const firstLine = normalizeWhitespace(searchLines[0])
+    // sharedBefore[i] = lines before index i that also appear in the block
+    const sharedBefore = [0]
+    contentLines.forEach((line, index) => {
+      sharedBefore.push(sharedBefore[index] + (searchSet.has(normalizeWhitespace(line)) ? 1 : 0))
+    })
+
+    const scored = candidates.map(index => ({
+      index,
+      score: sharedBefore[index + searchLines.length] - sharedBefore[index] +
+        getSimilarity(firstLine, normalizeWhitespace(contentLines[index]), 0)
+    }))
+    scored.sort((a, b) => b.score - a.score)
+    return scored.slice(0, MAX_FUZZY_CANDIDATES).map(candidate => candidate.index)
+  }
+
+  private windowStarts(from: number, to: number, length: number): number[] {
+    const starts: number[] = []
+    for (let index = from; index + length <= to; index++) {
+      starts.push(index)
+    }
+    return starts
+  }
+
+  private linesEqual(
+    contentLines: string[],
+    index: number,
+    searchLines: string[],
+    normalize: (line: string) => string
+  ): boolean {
+    return searchLines.every((line, offset) => normalize(contentLines[index + offset]) === normalize(line))
+  }
+
+  private bestFuzzyMatch(
+    contentLines: string[],
+    searchLines: string[],
+    candidates: number[],
+    threshold: number
+  ): Match | null {
+    const search = normalizeWhitespace(searchLines.join('\n'))
+    if (search.length > MAX_FUZZY_CHARS) return null
+    let best: Match | null = null
+
+    for (const index of this.rankCandidates(contentLines, searchLines, candidates)) {
+      const window = normalizeWhitespace(contentLines.slice(index, index + searchLines.length).join('\n'))
+      const minSimilarity = Math.max(threshold, best?.similarity ?? 0)
+      const similarity = getSimilarity(search, window, minSimilarity)
+
+      if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+        best = { index, length: searchLines.length, similarity, matchType: 'fuzzy' }
+        if (similarity === 1) break
+      }
+    }
+
+    return best
+  }
+
+  // Shift replacement lines from the SEARCH block's indentation to the matched code's
+  private reindent(replaceLines: string[], searchLines: string[], matchedLines: string[]): string[] {
+    const searchIndent = leadingWhitespace(searchLines.find(line => line.trim()) ?? '')
+    const matchedIndent = leadingWhitespace(matchedLines.find(line => line.trim()) ?? '')
+
+    if (searchIndent === matchedIndent) {
+      return replaceLines
+    }
+
+    return replaceLines.map(line => {
+      if (!line.trim()) return line
+      return line.startsWith(searchIndent)
+        ? matchedIndent + line.slice(searchIndent.length)
+        : line
+    })
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0]
+}
+
+// 1 - normalised Levenshtein distance; returns 0 early once minSimilarity is out of reach
+function getSimilarity(a: string, b: string, minSimilarity: number): number {
+  const maxLength = Math.max(a.length, b.length)
+  if (maxLength === 0) return 1
+
+  const maxDistance = Math.floor((1 - minSimilarity) * maxLength)
+  if (Math.abs(a.length - b.length) > maxDistance) return 0
+
+  const distance = levenshtein(a, b, maxDistance)
+  return distance > maxDistance ? 0 : 1 - distance / maxLength
+}
+
+// Only cells within maxDistance of the diagonal can stay under the limit, so the rest are never computed
+function levenshtein(a: string, b: string, maxDistance: number): number {
+  const outOfReach = maxDistance + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => Math.min(j, outOfReach))
+  let current = new Array<number>(b.length + 1).fill(outOfReach)
+
+  for (let i = 1; i <= a.length; i++) {
+    const from = Math.max(1, i - maxDistance)
+    const to = Math.min(b.length, i + maxDistance)
+    current[0] = Math.min(i, outOfReach)
+    current[from - 1] = from === 1 ? current[0] : outOfReach
+    let rowMin = current[from - 1]
+
+    for (let j = from; j <= to; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (current[j] < rowMin) rowMin = current[j]
+    }
+    if (to < b.length) current[to + 1] = outOfReach
+
+    if (rowMin > maxDistance) return outOfReach
+    ;[previous, current] = [current, previous]
   }
-}
\ No newline at end of file
+
+  return Math.min(previous[b.length], outOfReach)
+}
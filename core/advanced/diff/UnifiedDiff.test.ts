@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import { applyHunks, formatRejects, isUnifiedDiff, parseUnifiedDiff } from './UnifiedDiff'
+
+const FILE = ['import a from "a"', '', 'function one() {', '  return 1', '}', '', 'function two() {', '  return 2', '}', ''].join('\n')
+
+describe('parseUnifiedDiff', () => {
+  it('reads git headers and hunks for several files', () => {
+    const patches = parseUnifiedDiff([
+      'diff --git a/src/one.ts b/src/one.ts',
+      'index 1234567..89abcde 100644',
+      '--- a/src/one.ts',
+      '+++ b/src/one.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      'diff --git a/src/two.ts b/src/two.ts',
+      '--- a/src/two.ts',
+      '+++ b/src/two.ts',
+      '@@ -5 +5 @@',
+      '-x',
+      '+y',
+      '\\ No newline at end of file'
+    ].join('\n'))
+
+    expect(patches.map(patch => patch.newPath)).toEqual(['src/one.ts', 'src/two.ts'])
+    expect(patches[0].hunks[0]).toEqual({ header: '@@ -1,2 +1,2 @@', oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [' keep', '-old', '+new'] })
+    expect(patches[1].hunks[0]).toMatchObject({ oldStart: 5, oldLines: 1, lines: ['-x', '+y'] })
+  })
+
+  it('uses the default path for bare hunks', () => {
+    const [patch] = parseUnifiedDiff('@@ -1 +1 @@\n-a\n+b\n', 'notes.txt')
+    expect(patch).toMatchObject({ oldPath: 'notes.txt', newPath: 'notes.txt', isNew: false, isRename: false })
+  })
+
+  it('recognizes new, deleted and renamed files', () => {
+    const [created] = parseUnifiedDiff('--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1 @@\n+hello\n')
+    const [deleted] = parseUnifiedDiff('--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-bye\n')
+    const [renamed] = parseUnifiedDiff('--- a/before.ts\n+++ b/after.ts\n@@ -1 +1 @@\n-a\n+b\n')
+
+    expect(created).toMatchObject({ oldPath: null, newPath: 'new.ts', isNew: true })
+    expect(deleted).toMatchObject({ oldPath: 'old.ts', newPath: null, isDeleted: true })
+    expect(renamed).toMatchObject({ oldPath: 'before.ts', newPath: 'after.ts', isRename: true })
+  })
+
+  it('accepts git patches without hunks that only create, delete or rename a file', () => {
+    const rename = 'diff --git a/src/old.ts b/src/new.ts\nsimilarity index 100%\nrename from src/old.ts\nrename to src/new.ts\n'
+    const created = 'diff --git a/empty.txt b/empty.txt\nnew file mode 100644\nindex 0000000..e69de29\n'
+
+    expect(isUnifiedDiff(rename)).toBe(true)
+    expect(parseUnifiedDiff(rename)).toEqual([expect.objectContaining({ oldPath: 'src/old.ts', newPath: 'src/new.ts', isRename: true, hunks: [] })])
+    expect(isUnifiedDiff(created)).toBe(true)
+    expect(isUnifiedDiff('Please rename old.ts to new.ts')).toBe(false)
+  })
+
+  it('reads hunk lines past a miscounted header and restores a missing context prefix', () => {
+    const [patch] = parseUnifiedDiff('@@ -1,1 +1,1 @@\n a\n-b\n+c\n\n d\n', 'f.txt')
+    expect(patch.hunks[0].lines).toEqual([' a', '-b', '+c', ' ', ' d'])
+  })
+})
+
+describe('applyHunks', () => {
+  const [patch] = parseUnifiedDiff([
+    '@@ -7,3 +7,3 @@',
+    ' function two() {',
+    '-  return 2',
+    '+  return 22',
+    ' }'
+  ].join('\n'), 'f.ts')
+
+  it('applies a hunk at its stated line', () => {
+    const { content, results } = applyHunks(FILE, patch.hunks)
+    expect(content).toBe(FILE.replace('return 2', 'return 22'))
+    expect(results).toEqual([{ index: 0, success: true, line: 7, offset: 0, fuzz: 0, ignoredWhitespace: false }])
+  })
+
+  it('finds a hunk that moved and reports the offset', () => {
+    const shifted = '// header\n// comment\n' + FILE
+    const { content, results } = applyHunks(shifted, patch.hunks)
+    expect(content).toBe(shifted.replace('return 2', 'return 22'))
+    expect(results[0]).toMatchObject({ success: true, line: 9, offset: 2 })
+  })
+
+  it('drops mismatched context lines with fuzz', () => {
+    const [fuzzy] = parseUnifiedDiff([
+      '@@ -6,4 +6,4 @@',
+      ' // this line is not in the file',
+      ' function two() {',
+      '-  return 2',
+      '+  return 22',
+      ' }'
+    ].join('\n'), 'f.ts')
+    const { content, results } = applyHunks(FILE, fuzzy.hunks)
+    expect(content).toBe(FILE.replace('return 2', 'return 22'))
+    expect(results[0]).toMatchObject({ success: true, fuzz: 1 })
+  })
+
+  it('ignores whitespace as a last resort and keeps the file\'s own context lines', () => {
+    const [spaced] = parseUnifiedDiff('@@ -7,3 +7,3 @@\n function  two()  {\n-    return 2\n+  return 22\n }\n', 'f.ts')
+    const { content, results } = applyHunks(FILE, spaced.hunks)
+    expect(content).toBe(FILE.replace('return 2', 'return 22'))
+    expect(results[0]).toMatchObject({ success: true, ignoredWhitespace: true })
+  })
+
+  it('keeps CRLF line endings and a missing trailing newline', () => {
+    const { content } = applyHunks('a\r\nb\r\nc', parseUnifiedDiff('@@ -2 +2 @@\n-b\n+B\n', 'f')[0].hunks)
+    expect(content).toBe('a\r\nB\r\nc')
+  })
+
+  it('creates content for a new file', () => {
+    const [created] = parseUnifiedDiff('--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n')
+    expect(applyHunks('', created.hunks).content).toBe('one\ntwo\n')
+  })
+
+  it('fails the whole file when a hunk does not apply and reports the rejected hunk', () => {
+    const [broken] = parseUnifiedDiff([
+      '@@ -3,3 +3,3 @@',
+      ' function one() {',
+      '-  return 1',
+      '+  return 11',
+      ' }',
+      '@@ -20,3 +20,3 @@',
+      ' function three() {',
+      '-  return 3',
+      '+  return 33',
+      ' }'
+    ].join('\n'), 'f.ts')
+    const { content, results } = applyHunks(FILE, broken.hunks)
+
+    expect(content).toBeUndefined()
+    expect(results.map(result => result.success)).toEqual([true, false])
+    expect(formatRejects('f.ts', broken.hunks, results)).toBe([
+      '--- f.ts',
+      '@@ -20,3 +20,3 @@',
+      ' function three() {',
+      '-  return 3',
+      '+  return 33',
+      ' }',
+      '# Could not find the context for hunk 2 (expected near line 20)'
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,301 @@
+// Unified diff (git patch) parsing and hunk application
+//
+// Hunks are located near their stated line first and then anywhere in the file
+// (offset tolerance). If that fails, up to MAX_FUZZ context lines are dropped from
+// each end of the hunk (fuzz), as GNU patch does. A final pass ignores whitespace.
+
+export interface UnifiedHunk {
+  header: string
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: string[] // prefixed with ' ', '-' or '+'
+}
+
+export interface FilePatch {
+  oldPath: string | null // null for new files
+  newPath: string | null // null for deleted files
+  hunks: UnifiedHunk[]
+  isNew: boolean
+  isDeleted: boolean
+  isRename: boolean
+  isBinary: boolean
+}
+
+export interface HunkResult {
+  index: number
+  success: boolean
+  line?: number // 1-based line the hunk was applied at
+  offset?: number
+  fuzz?: number
+  ignoredWhitespace?: boolean
+  error?: string
+}
+
+export interface HunkApplyResult {
+  content?: string // undefined when any hunk failed
+  results: HunkResult[]
+}
+
+const MAX_FUZZ = 2
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+// Hunks, or git headers that create, delete or rename a file without changing its lines
+export function isUnifiedDiff(diff: string): boolean {
+  return /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(diff) ||
+    parseUnifiedDiff(diff).some(patch => patch.isNew || patch.isDeleted || patch.isRename)
+}
+
+// Strip a/ b/ prefixes and trailing timestamps from header paths
+function parseHeaderPath(raw: string): string | null {
+  const filePath = raw.split('\t')[0].trim().replace(/^"(.*)"$/, '$1')
+  if (filePath === '/dev/null') return null
+  return filePath.replace(/^[ab]\//, '')
+}
+
+export function parseUnifiedDiff(diff: string, defaultPath?: string): FilePatch[] {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n')
+  const patches: FilePatch[] = []
+  let current: FilePatch | null = null
+
+  const startPatch = (): FilePatch => {
+    current = {
+      oldPath: defaultPath ?? null,
+      newPath: defaultPath ?? null,
+      hunks: [],
+      isNew: false,
+      isDeleted: false,
+      isRename: false,
+      isBinary: false
+    }
+    patches.push(current)
+    return current
+  }
+
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (line.startsWith('diff --git ')) {
+      const patch = startPatch()
+      const paths = line.match(/^diff --git a\/(.+?) b\/(.+)$/)
+      if (paths) {
+        patch.oldPath = paths[1]
+        patch.newPath = paths[2]
+      }
+      i++
+      continue
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // A ---/+++ pair without a preceding "diff --git" starts a new file
+      const patch: FilePatch = current && current.hunks.length === 0 ? current : startPatch()
+      patch.oldPath = parseHeaderPath(line.slice(4))
+      patch.newPath = parseHeaderPath(lines[i + 1].slice(4))
+      patch.isNew = patch.isNew || patch.oldPath === null
+      patch.isDeleted = patch.isDeleted || patch.newPath === null
+      i += 2
+      continue
+    }
+
+    const patch: FilePatch = current ?? startPatch()
+
+    if (line.startsWith('new file mode')) {
+      patch.isNew = true
+    } else if (line.startsWith('deleted file mode')) {
+      patch.isDeleted = true
+    } else if (line.startsWith('rename from ')) {
+      patch.oldPath = line.slice('rename from '.length)
+      patch.isRename = true
+    } else if (line.startsWith('rename to ')) {
+      patch.newPath = line.slice('rename to '.length)
+      patch.isRename = true
+    } else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) {
+      patch.isBinary = true
+    } else {
+      const header = line.match(HUNK_HEADER)
+      if (header) {
+        const hunk: UnifiedHunk = {
+          header: line,
+          oldStart: parseInt(header[1], 10),
+          oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+          newStart: parseInt(header[3], 10),
+          newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+          lines: []
+        }
+        i++
+
+        // Models often miscount, so read until the next header instead of trusting the counts
+        while (i < lines.length) {
+          const hunkLine = lines[i]
+          if (hunkLine.startsWith('\\')) {
+            i++ // "\ No newline at end of file"
+            continue
+          }
+          if (HUNK_HEADER.test(hunkLine) || hunkLine.startsWith('diff --git ') ||
+              (hunkLine.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+            break
+          }
+          if (hunkLine === '' && i === lines.length - 1) {
+            i++ // trailing newline of the patch itself
+            continue
+          }
+          hunk.lines.push(/^[ +-]/.test(hunkLine) ? hunkLine : ` ${hunkLine}`)
+          i++
+        }
+
+        patch.hunks.push(hunk)
+        continue
+      }
+    }
+
+    i++
+  }
+
+  for (const patch of patches) {
+    if (!patch.isNew && !patch.isDeleted && patch.oldPath && patch.newPath && patch.oldPath !== patch.newPath) {
+      patch.isRename = true
+    }
+  }
+
+  return patches.filter(patch => patch.hunks.length > 0 || patch.isNew || patch.isDeleted || patch.isRename || patch.isBinary)
+}
+
+export function applyHunks(content: string, hunks: UnifiedHunk[]): HunkApplyResult {
+  const lineEnding = content.includes('\r\n') ? '\r\n' : '\n'
+  const hadTrailingNewline = content === '' || content.endsWith('\n')
+  let lines = content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/)
+
+  const results: HunkResult[] = []
+  let delta = 0
+
+  hunks.forEach((hunk, index) => {
+    const expected = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta)
+    const placement = locateHunk(lines, hunk.lines, expected)
+
+    if (!placement) {
+      results.push({
+        index,
+        success: false,
+        error: `Could not find the context for hunk ${index + 1} (expected near line ${expected + 1})`
+      })
+      return
+    }
+
+    const { position, top, bottom, ignoredWhitespace } = placement
+    const hunkLines = hunk.lines.slice(top, hunk.lines.length - bottom)
+    const replacement: string[] = []
+    let cursor = position
+
+    // Keep the file's own context lines so whitespace-insensitive matches don't rewrite them
+    for (const hunkLine of hunkLines) {
+      const text = hunkLine.slice(1)
+      if (hunkLine[0] === ' ') {
+        replacement.push(lines[cursor++])
+      } else if (hunkLine[0] === '-') {
+        cursor++
+      } else {
+        replacement.push(text)
+      }
+    }
+
+    const removed = cursor - position
+    lines = [...lines.slice(0, position), ...replacement, ...lines.slice(cursor)]
+    delta += replacement.length - removed
+
+    results.push({
+      index,
+      success: true,
+      line: position + 1,
+      offset: position - (expected + top),
+      fuzz: Math.max(top, bottom),
+      ignoredWhitespace
+    })
+  })
+
+  if (results.some(result => !result.success)) {
+    return { results }
+  }
+
+  const joined = lines.join(lineEnding)
+  return {
+    content: joined && hadTrailingNewline ? joined + lineEnding : joined,
+    results
+  }
+}
+
+function locateHunk(
+  lines: string[],
+  hunkLines: string[],
+  expected: number
+): { position: number; top: number; bottom: number; ignoredWhitespace: boolean } | null {
+  const leadingContext = countContext(hunkLines)
+  const trailingContext = countContext([...hunkLines].reverse())
+
+  for (const ignoredWhitespace of [false, true]) {
+    const normalize = ignoredWhitespace
+      ? (line: string) => line.replace(/\s+/g, ' ').trim()
+      : (line: string) => line
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      const top = Math.min(fuzz, leadingContext)
+      const bottom = Math.min(fuzz, trailingContext)
+      if (fuzz > 0 && top === 0 && bottom === 0) break
+
+      const oldLines = hunkLines
+        .slice(top, hunkLines.length - bottom)
+        .filter(line => line[0] !== '+')
+        .map(line => normalize(line.slice(1)))
+
+      const position = findBlock(lines, oldLines, expected + top, normalize)
+      if (position !== null) {
+        return { position, top, bottom, ignoredWhitespace }
+      }
+    }
+  }
+
+  return null
+}
+
+function countContext(hunkLines: string[]): number {
+  let count = 0
+  while (count < hunkLines.length && hunkLines[count][0] === ' ') count++
+  return count
+}
+
+// Search outward from the expected line so the nearest match wins
+function findBlock(
+  lines: string[],
+  block: string[],
+  expected: number,
+  normalize: (line: string) => string
+): number | null {
+  const lastStart = lines.length - block.length
+  if (lastStart < 0) return null
+
+  const matchesAt = (start: number) => block.every((line, offset) => normalize(lines[start + offset]) === line)
+  const origin = Math.min(Math.max(expected, 0), lastStart)
+
+  for (let distance = 0; distance <= lastStart; distance++) {
+    const candidates = distance === 0 ? [origin] : [origin - distance, origin + distance]
+    for (const start of candidates) {
+      if (start >= 0 && start <= lastStart && matchesAt(start)) {
+        return start
+      }
+    }
+    if (origin - distance < 0 && origin + distance > lastStart) break
+  }
+
+  return null
+}
+
+export function formatRejects(filePath: string, hunks: UnifiedHunk[], results: HunkResult[]): string {
+  return results
+    .filter(result => !result.success)
+    .map(result => {
+      const hunk = hunks[result.index]
+      return `--- ${filePath}\n${hunk.header}\n${hunk.lines.join('\n')}\n# ${result.error}`
+    })
+    .join('\n\n')
+}
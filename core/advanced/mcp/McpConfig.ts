@@ -0,0 +1,139 @@
+// MCP server settings from ~/.mominai/mcp.json (global) and <workspace>/.mominai/mcp.json (project)
+//
+// Both files use the common "mcpServers" layout:
+// { "mcpServers": { "github": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-github"], "alwaysAllow": ["list_issues"] } } }
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import type { McpServerConfig } from './McpHub'
+
+export type McpConfigSource = 'global' | 'project'
+
+export interface McpConfigResult {
+  servers: McpServerConfig[]
+  errors: string[]
+  // A file existed but couldn't be read as a whole - usually a save in the middle of an edit
+  incomplete: boolean
+}
+
+const TRANSPORT_TYPES = ['stdio', 'sse', 'streamable-http']
+
+export function getMcpConfigPaths(workspacePath: string): Record<McpConfigSource, string> {
+  return {
+    global: path.join(os.homedir(), '.mominai', 'mcp.json'),
+    project: path.join(workspacePath, '.mominai', 'mcp.json')
+  }
+}
+
+// Project entries replace global entries with the same name
+export async function loadMcpConfig(workspacePath: string): Promise<McpConfigResult> {
+  const paths = getMcpConfigPaths(workspacePath)
+  const servers = new Map<string, McpServerConfig>()
+  const errors: string[] = []
+  let incomplete = false
+
+  for (const source of ['global', 'project'] as McpConfigSource[]) {
+    const filePath = paths[source]
+
+    let raw: string
+    try {
+      raw = await fs.readFile(filePath, 'utf-8')
+    } catch {
+      continue // No config at this level
+    }
+
+    let data: any
+    try {
+      data = raw.trim() ? JSON.parse(raw) : {}
+    } catch (error) {
+      errors.push(`${filePath}: invalid JSON - ${error.message}`)
+      incomplete = true
+      continue
+    }
+
+    const entries = data.mcpServers ?? {}
+    if (typeof entries !== 'object' || Array.isArray(entries)) {
+      errors.push(`${filePath}: "mcpServers" must be an object keyed by server name`)
+      incomplete = true
+      continue
+    }
+
+    for (const [name, entry] of Object.entries(entries)) {
+      const result = parseServerEntry(name, entry, source)
+      if (typeof result === 'string') {
+        errors.push(`${filePath}: ${result}`)
+      } else {
+        servers.set(name, result)
+      }
+    }
+  }
+
+  return { servers: Array.from(servers.values()), errors, incomplete }
+}
+
+function parseServerEntry(name: string, entry: any, source: McpConfigSource): McpServerConfig | string {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return `server "${name}" must be an object`
+  }
+
+  const problems: string[] = []
+  const expect = (field: string, valid: boolean, description: string) => {
+    if (entry[field] !== undefined && !valid) problems.push(`"${field}" must be ${description}`)
+  }
+
+  expect('type', TRANSPORT_TYPES.includes(entry.type), TRANSPORT_TYPES.join(', ') + ' or omitted')
+  expect('command', typeof entry.command === 'string', 'a string')
+  expect('args', isStringArray(entry.args), 'an array of strings')
+  expect('env', isStringRecord(entry.env), 'an object of string values')
+  expect('cwd', typeof entry.cwd === 'string', 'a string')
+  expect('url', typeof entry.url === 'string' && isUrl(entry.url), 'an http(s) URL')
+  expect('headers', isStringRecord(entry.headers), 'an object of string values')
+  expect('disabled', typeof entry.disabled === 'boolean', 'true or false')
+  expect('alwaysAllow', isStringArray(entry.alwaysAllow), 'an array of tool names')
+  expect('timeout', typeof entry.timeout === 'number' && entry.timeout > 0, 'a positive number of seconds')
+
+  const type = entry.type ?? (entry.command ? 'stdio' : entry.url ? undefined : null)
+  if (type === null) {
+    problems.push('needs either "command" (stdio) or "url" (HTTP/SSE)')
+  } else if (type === 'stdio' && !entry.command) {
+    problems.push('stdio servers need "command"')
+  } else if (type !== 'stdio' && !entry.url) {
+    problems.push(`${type} servers need "url"`)
+  }
+
+  if (problems.length > 0) {
+    return `server "${name}": ${problems.join('; ')}`
+  }
+
+  return {
+    name,
+    type: entry.type,
+    command: entry.command,
+    args: entry.args,
+    env: entry.env,
+    cwd: entry.cwd,
+    url: entry.url,
+    headers: entry.headers,
+    disabled: entry.disabled ?? false,
+    alwaysAllow: entry.alwaysAllow ?? [],
+    timeout: entry.timeout,
+    source
+  }
+}
+
+function isStringArray(value: any): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isStringRecord(value: any): boolean {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(item => typeof item === 'string')
+}
+
+function isUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { McpHub, type McpServerConfig } from './McpHub'
+import { McpTrustStore } from './McpTrust'
+
+const ECHO_SERVER = path.join(__dirname, '__fixtures__', 'echo-server.mjs')
+
+const echoConfig = (overrides: Partial<McpServerConfig> = {}): McpServerConfig => ({
+  name: 'echo',
+  command: process.execPath,
+  args: [ECHO_SERVER],
+  ...overrides
+})
+
+describe('McpHub', () => {
+  let hub: McpHub
+  let home: string
+
+  // The global config lives in ~/.mominai, so the user's own servers must not leak into the tests
+  beforeEach(async () => {
+    home = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-home-'))
+    vi.stubEnv('HOME', home)
+    vi.stubEnv('USERPROFILE', home)
+  })
+
+  afterEach(async () => {
+    await hub?.dispose()
+    vi.unstubAllEnvs()
+    await fs.rm(home, { recursive: true, force: true })
+  })
+
+  it('connects over stdio and lists what the server offers', async () => {
+    hub = new McpHub()
+    await hub.connectServer(echoConfig({ alwaysAllow: ['echo'] }))
+
+    const [server] = hub.getServers()
+    expect(server.status).toBe('connected')
+    expect(await hub.getAvailableTools()).toEqual([{
+      serverName: 'echo',
+      name: 'echo',
+      description: 'Returns its input',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+      alwaysAllow: true
+    }])
+    expect((await hub.getAvailableResources()).map(resource => resource.uri)).toEqual(['echo://greeting'])
+    expect((await hub.getAvailablePrompts()).map(prompt => prompt.name)).toEqual(['repeat'])
+    expect(hub.isToolAlwaysAllowed(undefined, 'echo')).toBe(true)
+  })
+
+  it('calls tools and reads resources and prompts', async () => {
+    hub = new McpHub()
+    await hub.connectServer(echoConfig({ env: { ECHO_GREETING: 'hi' } }))
+
+    expect(await hub.executeToolViaServer('echo', { text: 'ping' })).toEqual({
+      serverName: 'echo',
+      toolName: 'echo',
+      content: 'echo: ping',
+      isError: false
+    })
+    expect(await hub.readResource('echo', 'echo://greeting')).toBe('hi from echo://greeting')
+    expect(await hub.getPrompt('echo', 'repeat', { word: 'pong' })).toBe('user: Repeat pong')
+    await expect(hub.executeToolViaServer('missing', {}, 'echo')).rejects.toThrow('has no tool "missing"')
+  })
+
+  it('reports servers that fail to start', async () => {
+    hub = new McpHub()
+    const statuses: string[] = []
+    hub.on('server_status', server => statuses.push(server.status))
+
+    await expect(hub.connectServer(echoConfig({ args: ['-e', 'console.error("boom"); process.exit(1)'] })))
+      .rejects.toThrow('Failed to connect to MCP server "echo"')
+    expect(hub.getServers()[0]).toMatchObject({ status: 'disconnected', error: expect.stringContaining('boom') })
+    expect(statuses).toEqual(['connecting', 'disconnected'])
+  })
+
+  it('disconnects servers', async () => {
+    hub = new McpHub()
+    await hub.connectServer(echoConfig())
+    await hub.disconnectServer('echo')
+
+    expect(hub.getServers()).toEqual([])
+    await expect(hub.executeToolViaServer('echo', { text: 'ping' })).rejects.toThrow()
+  })
+
+  it('starts project servers only once they are trusted', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-workspace-'))
+    const trustFile = path.join(workspace, 'trusted.json')
+    await fs.mkdir(path.join(workspace, '.mominai'))
+    await fs.writeFile(path.join(workspace, '.mominai', 'mcp.json'), JSON.stringify({
+      mcpServers: { echo: { command: process.execPath, args: [ECHO_SERVER] } }
+    }))
+
+    try {
+      hub = new McpHub(new McpTrustStore(trustFile))
+      await hub.watchConfig(workspace)
+      expect(hub.getServers()[0].status).toBe('untrusted')
+
+      await hub.trustServer('echo')
+      expect(hub.getServers()[0].status).toBe('connected')
+
+      // A second hub, as after a restart, starts the same command without asking
+      await hub.dispose()
+      hub = new McpHub(new McpTrustStore(trustFile))
+      await hub.watchConfig(workspace)
+      expect(hub.getServers()[0].status).toBe('connected')
+
+      // Changing the command needs a new approval
+      await fs.writeFile(path.join(workspace, '.mominai', 'mcp.json'), JSON.stringify({
+        mcpServers: { echo: { command: process.execPath, args: [ECHO_SERVER, '--verbose'] } }
+      }))
+      await hub.reloadConfig()
+      expect(hub.getServers()[0].status).toBe('untrusted')
+      await hub.trustServer('echo')
+      expect(hub.getServers()[0].status).toBe('connected')
+
+      // So does letting a tool skip approval
+      await fs.writeFile(path.join(workspace, '.mominai', 'mcp.json'), JSON.stringify({
+        mcpServers: { echo: { command: process.execPath, args: [ECHO_SERVER, '--verbose'], alwaysAllow: ['echo'] } }
+      }))
+      await hub.reloadConfig()
+      expect(hub.getServers()[0].status).toBe('untrusted')
+      expect(hub.isToolAlwaysAllowed(undefined, 'echo')).toBe(false)
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true })
+    }
+  })
+
+  it('starts servers from the global config without asking', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-workspace-'))
+    await fs.mkdir(path.join(home, '.mominai'))
+    await fs.writeFile(path.join(home, '.mominai', 'mcp.json'), JSON.stringify({
+      mcpServers: { echo: { command: process.execPath, args: [ECHO_SERVER] } }
+    }))
+
+    try {
+      hub = new McpHub(new McpTrustStore(path.join(workspace, 'trusted.json')))
+      await hub.watchConfig(workspace)
+      expect(hub.getServers()[0]).toMatchObject({ status: 'connected', config: { source: 'global' } })
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true })
+    }
+  })
+})
@@ -1,27 +1,501 @@
 // Model Context Protocol Hub - Kilo Code's MCP system
-export class McpHub {
+import { EventEmitter } from 'events'
+import { watchFile, unwatchFile } from 'fs'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { getMcpConfigPaths, loadMcpConfig } from './McpConfig'
+import type { McpConfigSource } from './McpConfig'
+import { McpTrustStore } from './McpTrust'
+
+export interface McpServerConfig {
+  name: string
+  type?: 'stdio' | 'sse' | 'streamable-http' // inferred from command/url when omitted
+  command?: string
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string
+  url?: string
+  headers?: Record<string, string>
+  timeout?: number // seconds per request
+  disabled?: boolean
+  alwaysAllow?: string[] // tools that run without asking for approval
+  source?: McpConfigSource // set for servers loaded from mcp.json
+}
+
+// 'untrusted': a project server that waits for the user to trust it before it is started
+export type McpServerStatus = 'connecting' | 'connected' | 'disconnected' | 'disabled' | 'untrusted'
+
+export interface McpTool {
+  serverName: string
+  name: string
+  description?: string
+  inputSchema: Record<string, any>
+  alwaysAllow: boolean
+}
+
+export interface McpResource {
+  serverName: string
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+}
+
+export interface McpPrompt {
+  serverName: string
+  name: string
+  description?: string
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>
+}
+
+export interface McpServer {
+  name: string
+  config: McpServerConfig
+  status: McpServerStatus
+  error?: string
+  tools: McpTool[]
+  resources: McpResource[]
+  prompts: McpPrompt[]
+}
+
+export interface McpToolCallResult {
+  serverName: string
+  toolName: string
+  content: string
+  isError: boolean
+}
+
+interface McpConnection {
+  server: McpServer
+  client: Client
+  transport: Transport
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 60
+
+// Keep the tail of a server's stderr for error reports
+const MAX_STDERR_CHARS = 4000
+
+const CONFIG_POLL_INTERVAL_MS = 1000
+
+// Emits: 'server_status' (server: McpServer), 'config_loaded' (errors: string[])
+export class McpHub extends EventEmitter {
   private static instance: McpHub
-  private servers = new Map<string, any>()
-  private tools = new Map<string, any>()
-  
+  // Every known server, including ones that failed to connect or are disabled
+  private servers = new Map<string, McpServer>()
+  private connections = new Map<string, McpConnection>()
+  private configErrors: string[] = []
+  private watchedWorkspace?: string
+  private watchedFiles: string[] = []
+  private reloadQueue: Promise<void> = Promise.resolve()
+
+  constructor(private trustStore: McpTrustStore = new McpTrustStore()) {
+    super()
+  }
+
   static getInstance(): McpHub {
     if (!McpHub.instance) {
       McpHub.instance = new McpHub()
     }
     return McpHub.instance
   }
-  
-  async connectServer(serverConfig: any): Promise<void> {
-    // Connect to MCP server
-    this.servers.set(serverConfig.name, serverConfig)
+
+  async connectServer(serverConfig: McpServerConfig): Promise<void> {
+    const { name } = serverConfig
+
+    // Reconnecting replaces the old connection
+    await this.disconnectServer(name)
+
+    const server: McpServer = {
+      name,
+      config: serverConfig,
+      status: serverConfig.disabled ? 'disabled' : 'connecting',
+      tools: [],
+      resources: [],
+      prompts: []
+    }
+    this.servers.set(name, server)
+    this.emit('server_status', server)
+    if (serverConfig.disabled) return
+
+    const client = new Client({ name: 'MominAI', version: '1.0.0' }, { capabilities: {} })
+    let stderr = ''
+
+    try {
+      const transport = await this.connectTransport(client, serverConfig, data => {
+        stderr = (stderr + data).slice(-MAX_STDERR_CHARS)
+      })
+      const connection: McpConnection = { server, client, transport }
+      this.connections.set(name, connection)
+
+      client.onclose = () => {
+        if (this.connections.get(name) !== connection) return
+        server.status = 'disconnected'
+        server.error = server.error ?? (stderr.trim() || 'Server closed the connection')
+        this.emit('server_status', server)
+      }
+      client.onerror = (error: Error) => {
+        server.error = error.message
+        this.emit('server_status', server)
+      }
+
+      // Servers announce list changes - keep our copies current
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => this.refreshServer(name))
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => this.refreshServer(name))
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () => this.refreshServer(name))
+
+      await this.refreshServer(name)
+      server.status = 'connected'
+      server.error = undefined
+      this.emit('server_status', server)
+    } catch (error) {
+      server.status = 'disconnected'
+      server.error = [error.message, stderr.trim()].filter(Boolean).join('\n')
+      this.emit('server_status', server)
+
+      this.connections.delete(name)
+      await client.close().catch(() => {})
+      throw new Error(`Failed to connect to MCP server "${name}": ${server.error}`)
+    }
+  }
+
+  async disconnectServer(name: string): Promise<void> {
+    const connection = this.connections.get(name)
+    this.servers.delete(name)
+    if (!connection) return
+
+    this.connections.delete(name)
+    connection.server.status = 'disconnected'
+
+    try {
+      await connection.client.close()
+    } catch (error) {
+      console.error(`Error closing MCP server "${name}":`, error)
+    }
+    this.emit('server_status', connection.server)
+  }
+
+  // Remember the user's approval of a project server's current settings and start it
+  async trustServer(name: string): Promise<void> {
+    const server = this.servers.get(name)
+    if (!server) {
+      throw new Error(`Unknown MCP server "${name}"`)
+    }
+    await this.trustStore.trust(server.config)
+    await this.connectServer(server.config)
+  }
+
+  getServers(): McpServer[] {
+    return Array.from(this.servers.values())
+  }
+
+  getConfigErrors(): string[] {
+    return [...this.configErrors]
+  }
+
+  // Load the workspace's merged mcp.json files and reload whenever either changes
+  async watchConfig(workspacePath: string): Promise<void> {
+    if (this.watchedWorkspace === workspacePath) return
+    this.unwatchConfig()
+    this.watchedWorkspace = workspacePath
+
+    // Polling also notices files that are created after we start watching
+    this.watchedFiles = Object.values(getMcpConfigPaths(workspacePath))
+    for (const filePath of this.watchedFiles) {
+      watchFile(filePath, { interval: CONFIG_POLL_INTERVAL_MS, persistent: false }, () => {
+        this.reloadConfig().catch(error => console.error('Failed to reload MCP config:', error))
+      })
+    }
+
+    await this.reloadConfig()
+  }
+
+  unwatchConfig(): void {
+    for (const filePath of this.watchedFiles) {
+      unwatchFile(filePath)
+    }
+    this.watchedFiles = []
+    this.watchedWorkspace = undefined
+  }
+
+  // Connect new or changed servers and drop removed ones - reloads run one at a time
+  reloadConfig(): Promise<void> {
+    this.reloadQueue = this.reloadQueue.then(async () => {
+      if (!this.watchedWorkspace) return
+
+      const { servers, errors, incomplete } = await loadMcpConfig(this.watchedWorkspace)
+      this.configErrors = errors
+
+      // Keep the running servers until the file parses again
+      if (incomplete) {
+        this.emit('config_loaded', errors)
+        return
+      }
+
+      const configured = new Set(servers.map(server => server.name))
+
+      // Servers connected from code (no source) are left alone
+      for (const server of this.getServers()) {
+        if (server.config.source && !configured.has(server.name)) {
+          await this.disconnectServer(server.name)
+        }
+      }
+
+      await Promise.all(servers.map(async config => {
+        // A cloned repo could otherwise run any command, so project servers only start once the user trusts them
+        if (config.source === 'project' && !config.disabled && !await this.trustStore.isTrusted(config)) {
+          await this.disconnectServer(config.name)
+          const server: McpServer = { name: config.name, config, status: 'untrusted', tools: [], resources: [], prompts: [] }
+          this.servers.set(config.name, server)
+          this.emit('server_status', server)
+          return
+        }
+
+        const existing = this.servers.get(config.name)
+
+        // Allow-list changes don't need a reconnect
+        if (existing && existing.status !== 'disconnected' && sameConnectionSettings(existing.config, config)) {
+          existing.config = config
+          existing.tools = existing.tools.map(tool => ({ ...tool, alwaysAllow: Boolean(config.alwaysAllow?.includes(tool.name)) }))
+          this.emit('server_status', existing)
+          return
+        }
+
+        try {
+          await this.connectServer(config)
+        } catch (error) {
+          console.error(error.message)
+        }
+      }))
+
+      this.emit('config_loaded', errors)
+    })
+    return this.reloadQueue
+  }
+
+  isToolAlwaysAllowed(serverName: string | undefined, toolName: string): boolean {
+    const owners = this.getConnectedServers().filter(server =>
+      (!serverName || server.name === serverName) && server.tools.some(tool => tool.name === toolName)
+    )
+    return owners.length === 1 && Boolean(owners[0].config.alwaysAllow?.includes(toolName))
+  }
+
+  async getAvailableTools(): Promise<McpTool[]> {
+    return this.getConnectedServers().flatMap(server => server.tools)
+  }
+
+  async getAvailableResources(): Promise<McpResource[]> {
+    return this.getConnectedServers().flatMap(server => server.resources)
+  }
+
+  async getAvailablePrompts(): Promise<McpPrompt[]> {
+    return this.getConnectedServers().flatMap(server => server.prompts)
   }
-  
-  async getAvailableTools(): Promise<any[]> {
-    return Array.from(this.tools.values())
+
+  // Without a server name the call goes to whichever server provides the tool
+  async executeToolViaServer(toolName: string, args: any, serverName?: string): Promise<McpToolCallResult> {
+    const connection = serverName ? this.getConnection(serverName) : this.findToolConnection(toolName)
+    const { server, client } = connection
+
+    if (!server.tools.some(tool => tool.name === toolName)) {
+      const available = server.tools.map(tool => tool.name).join(', ') || 'none'
+      throw new Error(`MCP server "${server.name}" has no tool "${toolName}". Available tools: ${available}`)
+    }
+
+    const result: any = await client.callTool(
+      { name: toolName, arguments: args ?? {} },
+      undefined,
+      this.getRequestOptions(server.config)
+    )
+
+    return {
+      serverName: server.name,
+      toolName,
+      content: formatToolContent(result),
+      isError: Boolean(result.isError)
+    }
+  }
+
+  async readResource(serverName: string, uri: string): Promise<string> {
+    const { server, client } = this.getConnection(serverName)
+    const result = await client.readResource({ uri }, this.getRequestOptions(server.config))
+
+    return result.contents
+      .map((item: any) => item.text ?? `[binary resource ${item.uri} (${item.mimeType ?? 'unknown type'})]`)
+      .join('\n')
+  }
+
+  async getPrompt(serverName: string, promptName: string, args?: Record<string, string>): Promise<string> {
+    const { server, client } = this.getConnection(serverName)
+    const result = await client.getPrompt({ name: promptName, arguments: args }, this.getRequestOptions(server.config))
+
+    return result.messages
+      .map((message: any) => `${message.role}: ${formatToolContent({ content: [message.content] })}`)
+      .join('\n\n')
+  }
+
+  async dispose(): Promise<void> {
+    this.unwatchConfig()
+    await Promise.all(Array.from(this.servers.keys()).map(name => this.disconnectServer(name)))
+    this.removeAllListeners()
+  }
+
+  private async connectTransport(
+    client: Client,
+    config: McpServerConfig,
+    onStderr: (data: string) => void
+  ): Promise<Transport> {
+    const type = config.type ?? (config.command ? 'stdio' : 'streamable-http')
+
+    if (type === 'stdio') {
+      if (!config.command) {
+        throw new Error('stdio servers need a command')
+      }
+
+      const transport = new StdioClientTransport({
+        command: config.command,
+        args: config.args ?? [],
+        env: { ...getDefaultEnvironment(), ...config.env },
+        cwd: config.cwd,
+        stderr: 'pipe'
+      })
+      transport.stderr?.on('data', (data: Buffer) => onStderr(data.toString()))
+
+      await client.connect(transport, this.getRequestOptions(config))
+      return transport
+    }
+
+    if (!config.url) {
+      throw new Error(`${type} servers need a url`)
+    }
+    const url = new URL(config.url)
+    const requestInit = config.headers ? { headers: config.headers } : undefined
+
+    if (type === 'streamable-http') {
+      try {
+        const transport = new StreamableHTTPClientTransport(url, { requestInit })
+        await client.connect(transport, this.getRequestOptions(config))
+        return transport
+      } catch (error) {
+        // Older servers only speak the HTTP+SSE transport
+        if (config.type === 'streamable-http') throw error
+        await client.close().catch(() => {})
+      }
+    }
+
+    const transport = new SSEClientTransport(url, { requestInit })
+    await client.connect(transport, this.getRequestOptions(config))
+    return transport
+  }
+
+  // Re-list everything the server offers, according to the capabilities it declared
+  private async refreshServer(name: string): Promise<void> {
+    const connection = this.connections.get(name)
+    if (!connection) return
+
+    const { server, client } = connection
+    const capabilities = client.getServerCapabilities() ?? {}
+    const options = this.getRequestOptions(server.config)
+
+    try {
+      const [tools, resources, prompts] = await Promise.all([
+        capabilities.tools ? client.listTools(undefined, options) : { tools: [] },
+        capabilities.resources ? client.listResources(undefined, options) : { resources: [] },
+        capabilities.prompts ? client.listPrompts(undefined, options) : { prompts: [] }
+      ])
+
+      server.tools = tools.tools.map(tool => ({
+        serverName: name,
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        alwaysAllow: Boolean(server.config.alwaysAllow?.includes(tool.name))
+      }))
+      server.resources = resources.resources.map(resource => ({
+        serverName: name,
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType
+      }))
+      server.prompts = prompts.prompts.map(prompt => ({
+        serverName: name,
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+
+      this.emit('server_status', server)
+    } catch (error) {
+      server.error = `Failed to list server capabilities: ${error.message}`
+      this.emit('server_status', server)
+      if (server.status === 'connecting') throw error
+    }
+  }
+
+  private getConnectedServers(): McpServer[] {
+    return this.getServers().filter(server => server.status === 'connected')
+  }
+
+  private getConnection(serverName: string): McpConnection {
+    const connection = this.connections.get(serverName)
+    if (!connection || connection.server.status !== 'connected') {
+      const connected = this.getConnectedServers().map(server => server.name).join(', ') || 'none'
+      throw new Error(`MCP server "${serverName}" is not connected. Connected servers: ${connected}`)
+    }
+    return connection
+  }
+
+  private findToolConnection(toolName: string): McpConnection {
+    const owners = this.getConnectedServers().filter(server => server.tools.some(tool => tool.name === toolName))
+
+    if (owners.length === 0) {
+      throw new Error(`No connected MCP server provides the tool "${toolName}"`)
+    }
+    if (owners.length > 1) {
+      throw new Error(`Several MCP servers provide "${toolName}" (${owners.map(server => server.name).join(', ')}) - pass server_name`)
+    }
+    return this.connections.get(owners[0].name)!
   }
-  
-  async executeToolViaServer(toolName: string, args: any): Promise<any> {
-    // Execute tool through MCP server
-    return { result: 'MCP tool executed' }
+
+  private getRequestOptions(config: McpServerConfig): { timeout: number } {
+    return { timeout: (config.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000 }
   }
-}
\ No newline at end of file
+}
+
+function sameConnectionSettings(a: McpServerConfig, b: McpServerConfig): boolean {
+  const connectionSettings = ({ alwaysAllow, source, ...rest }: McpServerConfig) => JSON.stringify(rest)
+  return connectionSettings(a) === connectionSettings(b)
+}
+
+function formatToolContent(result: any): string {
+  const content: any[] = Array.isArray(result.content)
+    ? result.content
+    : result.toolResult !== undefined ? [{ type: 'text', text: JSON.stringify(result.toolResult) }] : []
+
+  return content
+    .map(item => {
+      switch (item.type) {
+        case 'text':
+          return item.text
+        case 'image':
+        case 'audio':
+          return `[${item.type} ${item.mimeType}, ${item.data?.length ?? 0} base64 chars]`
+        case 'resource':
+          return item.resource?.text ?? `[resource ${item.resource?.uri}]`
+        case 'resource_link':
+          return `[resource ${item.uri}]`
+        default:
+          return JSON.stringify(item)
+      }
+    })
+    .join('\n')
+}
@@ -0,0 +1,52 @@
+// Project servers the user has agreed to run, kept in ~/.mominai/mcp-trusted.json.
+// The list lives outside the workspace so a cloned repo cannot trust its own servers.
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import type { McpServerConfig } from './McpHub'
+
+export const MCP_TRUST_FILE = path.join(os.homedir(), '.mominai', 'mcp-trusted.json')
+
+// Covers everything that decides what gets started or contacted and which tools skip approval, so editing any
+// of it asks again
+export function getServerFingerprint(config: McpServerConfig): string {
+  const { command, args, env, cwd, url, headers, alwaysAllow } = config
+  const allowed = [...new Set(alwaysAllow ?? [])].sort()
+  return createHash('sha256')
+    .update(JSON.stringify([command ?? null, args ?? [], env ?? {}, cwd ?? null, url ?? null, headers ?? {}, allowed]))
+    .digest('hex')
+}
+
+export class McpTrustStore {
+  private fingerprints = new Set<string>()
+  private loaded?: Promise<void>
+
+  constructor(private filePath: string = MCP_TRUST_FILE) {}
+
+  public async isTrusted(config: McpServerConfig): Promise<boolean> {
+    await this.load()
+    return this.fingerprints.has(getServerFingerprint(config))
+  }
+
+  public async trust(config: McpServerConfig): Promise<void> {
+    await this.load()
+    this.fingerprints.add(getServerFingerprint(config))
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(this.filePath, JSON.stringify({ trusted: Array.from(this.fingerprints) }, null, 2), 'utf-8')
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'))
+          this.fingerprints = new Set(Array.isArray(data.trusted) ? data.trusted : [])
+        } catch {
+          // Nothing trusted yet
+        }
+      })()
+    }
+    return this.loaded
+  }
+}
@@ -0,0 +1,46 @@
+// A minimal MCP server for the McpHub tests: one echo tool, one resource and one prompt over stdio
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+
+const server = new Server({ name: 'echo', version: '1.0.0' }, { capabilities: { tools: {}, resources: {}, prompts: {} } })
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [{
+    name: 'echo',
+    description: 'Returns its input',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+  }]
+}))
+
+server.setRequestHandler(CallToolRequestSchema, async request => {
+  if (request.params.name !== 'echo') {
+    return { content: [{ type: 'text', text: `Unknown tool ${request.params.name}` }], isError: true }
+  }
+  return { content: [{ type: 'text', text: `echo: ${request.params.arguments?.text}` }] }
+})
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: [{ uri: 'echo://greeting', name: 'greeting', mimeType: 'text/plain' }]
+}))
+
+server.setRequestHandler(ReadResourceRequestSchema, async request => ({
+  contents: [{ uri: request.params.uri, mimeType: 'text/plain', text: `${process.env.ECHO_GREETING ?? 'hello'} from ${request.params.uri}` }]
+}))
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+  prompts: [{ name: 'repeat', arguments: [{ name: 'word', required: true }] }]
+}))
+
+server.setRequestHandler(GetPromptRequestSchema, async request => ({
+  messages: [{ role: 'user', content: { type: 'text', text: `Repeat ${request.params.arguments?.word}` } }]
+}))
+
+await server.connect(new StdioServerTransport())
@@ -1,124 +1,236 @@
 // Subtask management from Kilo Code
-import { Agent } from '../../agent/Agent'
+import crypto from 'crypto'
 import { EventEmitter } from 'events'
+import type { Agent, AgentMessage, AgentOptions } from '../../agent/Agent'
 
 export interface SubtaskOptions {
   message: string
   mode?: string
-  initialTodos?: any[]
+  initialTodos?: string[]
   parentTaskId: string
 }
 
+export type SubtaskStatus = 'running' | 'completed' | 'failed' | 'aborted'
+
+// One node of the task tree - kept after the child agent is gone so the UI can still show it
+export interface SubtaskInfo {
+  id: string
+  parentTaskId: string
+  depth: number
+  message: string
+  mode?: string
+  todos: string[]
+  status: SubtaskStatus
+  result?: string
+  error?: string
+  startedAt: number
+  finishedAt?: number
+}
+
+interface SubtaskRecord {
+  info: SubtaskInfo
+  agent?: Agent
+  done: Promise<string>
+  cancel: (error: Error) => void
+}
+
+export type CreateAgent = (options: AgentOptions) => Agent
+
+export const DEFAULT_MAX_SUBTASK_DEPTH = 3
+
+// Emits: subtask_started, subtask_completed, subtask_error, subtask_aborted (all with the SubtaskInfo),
+// subtask_updated for every status change, and subtask_message (taskId, message) for everything a child says
 export class SubtaskManager extends EventEmitter {
-  private subtasks = new Map<string, Agent>()
+  private subtasks = new Map<string, SubtaskRecord>()
   private parentAgent: Agent
-  
-  constructor(parentAgent: Agent) {
+  private createAgent: CreateAgent
+
+  constructor(parentAgent: Agent, createAgent: CreateAgent) {
     super()
     this.parentAgent = parentAgent
+    this.createAgent = createAgent
   }
-  
+
+  // Starts the child and returns straight away - use waitForSubtask for its result
   async startSubtask(options: SubtaskOptions): Promise<string> {
+    const depth = this.parentAgent.taskDepth + 1
+    if (depth > this.parentAgent.maxSubtaskDepth) {
+      throw new Error(`Subtasks can only be nested ${this.parentAgent.maxSubtaskDepth} levels deep`)
+    }
+
     const subtaskId = crypto.randomUUID()
-    
-    // Create child agent with same configuration
-    const subtask = new Agent({
-      apiConfiguration: this.parentAgent['apiConfiguration'],
-      workspacePath: this.parentAgent.workspacePath,
-      enableCheckpoints: false, // Subtasks don't need checkpoints
-      consecutiveMistakeLimit: 3
+    const info: SubtaskInfo = {
+      id: subtaskId,
+      parentTaskId: options.parentTaskId,
+      depth,
+      message: options.message,
+      mode: options.mode,
+      todos: options.initialTodos ?? [],
+      status: 'running',
+      startedAt: Date.now()
+    }
+
+    // Children inherit the parent's provider, approvals and limits, but not its checkpoints
+    const subtask = this.createAgent({
+      ...this.parentAgent.getOptions(),
+      enableCheckpoints: false,
+      mode: options.mode,
+      parentTaskId: options.parentTaskId,
+      taskDepth: depth
     })
-    
-    // Set up event forwarding
-    subtask.on('completion', (result) => {
-      this.emit('subtask_completed', subtaskId, result)
+
+    let result: string | undefined
+    let lastError: Error | undefined
+    subtask.on('completion', (completion: string) => {
+      result = completion
     })
-    
-    subtask.on('error', (error) => {
-      this.emit('subtask_error', subtaskId, error)
+    // The child keeps going after most errors; the last one explains a failure
+    subtask.on('error', (error: Error) => {
+      lastError = error
     })
-    
-    // Store subtask
-    this.subtasks.set(subtaskId, subtask)
-    
-    // Start subtask
-    try {
-      await subtask.start(options.message)
-      this.emit('subtask_started', subtaskId)
-    } catch (error) {
-      this.subtasks.delete(subtaskId)
-      throw error
-    }
-    
+    subtask.on('message', (message: AgentMessage) => this.emit('subtask_message', subtaskId, message))
+
+    // Grandchildren show up in the same tree
+    subtask.on('subtask_updated', (childInfo: SubtaskInfo) => this.emit('subtask_updated', childInfo))
+    subtask.on('subtask_message', (taskId: string, message: AgentMessage) => this.emit('subtask_message', taskId, message))
+
+    const finished = subtask.start(buildSubtaskMessage(options)).then(() => {
+      if (info.status !== 'running') {
+        throw new Error(info.error ?? `Subtask ${subtaskId} was ${info.status}`)
+      }
+      if (result === undefined) {
+        const reason = lastError ? `: ${lastError.message}` : ''
+        this.finish(subtaskId, 'failed', { error: `The subtask stopped without calling attempt_completion${reason}` })
+        throw new Error(info.error)
+      }
+      this.finish(subtaskId, 'completed', { result })
+      return result
+    })
+
+    // Aborting settles right away instead of waiting for the child's in-flight request
+    let cancel!: (error: Error) => void
+    const cancelled = new Promise<never>((_, reject) => {
+      cancel = reject
+    })
+    const done = Promise.race([finished, cancelled])
+
+    // Nobody may be waiting yet - the rejection is delivered through waitForSubtask
+    finished.catch(() => {})
+    done.catch(() => {})
+
+    this.subtasks.set(subtaskId, { info, agent: subtask, done, cancel })
+    this.emit('subtask_started', { ...info })
+    this.emit('subtask_updated', { ...info })
+
     return subtaskId
   }
-  
-  async waitForSubtask(subtaskId: string, timeoutMs: number = 300000): Promise<any> {
+
+  // Rejects when the subtask fails, is aborted or runs past the timeout (pass null to wait indefinitely)
+  async waitForSubtask(subtaskId: string, timeoutMs: number | null = 300000): Promise<string> {
     const subtask = this.subtasks.get(subtaskId)
     if (!subtask) {
       throw new Error(`Subtask ${subtaskId} not found`)
     }
-    
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
+
+    if (timeoutMs === null) {
+      return subtask.done
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const timedOut = new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => {
         reject(new Error(`Subtask ${subtaskId} timed out after ${timeoutMs}ms`))
       }, timeoutMs)
-      
-      const onCompletion = (completedSubtaskId: string, result: any) => {
-        if (completedSubtaskId === subtaskId) {
-          clearTimeout(timeout)
-          this.off('subtask_completed', onCompletion)
-          this.off('subtask_error', onError)
-          resolve(result)
-        }
-      }
-      
-      const onError = (errorSubtaskId: string, error: Error) => {
-        if (errorSubtaskId === subtaskId) {
-          clearTimeout(timeout)
-          this.off('subtask_completed', onCompletion)
-          this.off('subtask_error', onError)
-          reject(error)
-        }
-      }
-      
-      this.on('subtask_completed', onCompletion)
-      this.on('subtask_error', onError)
     })
+
+    try {
+      return await Promise.race([subtask.done, timedOut])
+    } finally {
+      clearTimeout(timeout)
+    }
   }
-  
-  async completeSubtask(subtaskId: string, result: string): Promise<void> {
+
+  // Aborting a subtask aborts everything it started in turn. Nested subtasks are found through the running children.
+  async abortSubtask(subtaskId: string): Promise<void> {
     const subtask = this.subtasks.get(subtaskId)
     if (!subtask) {
-      throw new Error(`Subtask ${subtaskId} not found`)
+      await Promise.all(Array.from(this.subtasks.values()).map(child => child.agent?.abortSubtask(subtaskId)))
+      return
     }
-    
-    // Clean up subtask
-    subtask.dispose()
-    this.subtasks.delete(subtaskId)
-    
-    // Notify parent agent
-    this.emit('subtask_result', subtaskId, result)
+    if (subtask.info.status !== 'running') return
+
+    const agent = subtask.agent
+    this.finish(subtaskId, 'aborted', { error: 'The subtask was cancelled' })
+    subtask.cancel(new Error(subtask.info.error))
+    await agent?.abort()
   }
-  
-  async abortSubtask(subtaskId: string): Promise<void> {
-    const subtask = this.subtasks.get(subtaskId)
-    if (subtask) {
-      await subtask.abort()
-      this.subtasks.delete(subtaskId)
+
+  async abortAll(): Promise<void> {
+    await Promise.all(this.getActiveSubtasks().map(subtaskId => this.abortSubtask(subtaskId)))
+  }
+
+  // The running child, if any - user input goes to it while the parent waits
+  getActiveAgent(): Agent | undefined {
+    for (const subtask of this.subtasks.values()) {
+      if (subtask.info.status === 'running') return subtask.agent
     }
+    return undefined
   }
-  
+
   getActiveSubtasks(): string[] {
-    return Array.from(this.subtasks.keys())
+    return Array.from(this.subtasks.values())
+      .filter(subtask => subtask.info.status === 'running')
+      .map(subtask => subtask.info.id)
+  }
+
+  getSubtasks(): SubtaskInfo[] {
+    return Array.from(this.subtasks.values()).map(subtask => ({ ...subtask.info }))
   }
-  
+
   dispose(): void {
     // Clean up all subtasks
-    for (const [id, subtask] of this.subtasks) {
-      subtask.dispose()
+    for (const subtask of this.subtasks.values()) {
+      subtask.agent?.dispose()
     }
     this.subtasks.clear()
     this.removeAllListeners()
   }
-}
\ No newline at end of file
+
+  private finish(subtaskId: string, status: Exclude<SubtaskStatus, 'running'>, outcome: { result?: string; error?: string }): void {
+    const subtask = this.subtasks.get(subtaskId)
+    if (!subtask || subtask.info.status !== 'running') return
+
+    Object.assign(subtask.info, outcome, { status, finishedAt: Date.now() })
+
+    const event = { completed: 'subtask_completed', failed: 'subtask_error', aborted: 'subtask_aborted' }[status]
+    this.emit(event, { ...subtask.info })
+    this.emit('subtask_updated', { ...subtask.info })
+
+    // Let the abort settle before tearing the child down
+    const agent = subtask.agent
+    subtask.agent = undefined
+    setTimeout(() => agent?.dispose(), 0)
+  }
+}
+
+function buildSubtaskMessage(options: SubtaskOptions): string {
+  const parts = [options.message]
+
+  if (options.initialTodos && options.initialTodos.length > 0) {
+    parts.push(`Todo list:\n${options.initialTodos.map(todo => `- [ ] ${todo}`).join('\n')}`)
+  }
+
+  parts.push('You are working on a subtask delegated by another task. When you are done, call attempt_completion with a result ' +
+    'that gives the parent task everything it needs - it only sees that result, not this conversation.')
+
+  return parts.join('\n\n')
+}
+
+// new_task takes todos as a markdown checklist or one item per line
+export function parseTodos(todos: string | string[] | undefined): string[] {
+  if (!todos) return []
+  const items = Array.isArray(todos) ? todos : todos.split('\n')
+  return items
+    .map(item => item.trim().replace(/^(?:[-*]\s*)?(?:\[[ xX-]?\]\s*)?/, '').trim())
+    .filter(Boolean)
+}
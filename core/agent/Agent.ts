@@ -1,5 +1,20 @@
 import { EventEmitter } from 'events'
 import crypto from 'crypto'
+import { ApiHandler, ApiMessage, buildApiHandler } from '../api'
+import { StreamProcessor } from '../streaming/StreamProcessor'
+import type { StreamResponse } from '../streaming/StreamProcessor'
+import { ToolExecutor, ToolResult } from '../tools/ToolExecutor'
+import { getSystemPrompt } from '../prompts/system'
+import { McpHub } from '../advanced/mcp/McpHub'
+import { SubtaskManager, DEFAULT_MAX_SUBTASK_DEPTH } from '../advanced/subtasks/SubtaskManager'
+import { ModeRegistry } from '../modes/ModeRegistry'
+import { DEFAULT_MODE_SLUG, getAllowedTools, TOOL_GROUPS } from '../modes/modes'
+import { CheckpointManager } from '../checkpoints/CheckpointManager'
+import type { Checkpoint } from '../checkpoints/CheckpointManager'
+import { getToolDefinitions } from '../tools/ToolRegistry'
+import type { ModeConfig } from '../modes/modes'
+import type { SubtaskInfo } from '../advanced/subtasks/SubtaskManager'
+import type { ApprovalSettings, AskFunction } from '../approval/AutoApprovalHandler'
 
 export interface AgentOptions {
   apiConfiguration: any
@@ -9,6 +24,14 @@ export interface AgentOptions {
   fuzzyMatchThreshold?: number
   consecutiveMistakeLimit?: number
   experiments?: Record<string, boolean>
+  approvalSettings?: Partial<ApprovalSettings>
+  // Shows approval requests to the user; without one, anything needing approval is denied
+  askApproval?: AskFunction
+  mode?: string // slug of the mode to start in, defaults to code
+  // Set on subtasks started through new_task
+  parentTaskId?: string
+  taskDepth?: number
+  maxSubtaskDepth?: number
 }
 
 export interface AgentMessage {
@@ -26,32 +49,90 @@ export interface AgentEvents {
   'status': (status: string) => void
   'tool_use': (toolName: string, args: any) => void
   'completion': (result: any) => void
+  'usage': (usage: any) => void
+  'process_output': (processId: number, stream: string, data: string) => void
+  'process_exit': (info: any) => void
+  'subtask_updated': (info: SubtaskInfo) => void
+  'subtask_message': (taskId: string, message: AgentMessage) => void
+  'mode_changed': (mode: ModeConfig) => void
+  'checkpoint_created': (checkpoint: Checkpoint) => void
+  'checkpoint_restored': (checkpoint: Checkpoint) => void
+  'conversation_restored': (messages: AgentMessage[]) => void
 }
 
+// Tools that can change the workspace; a checkpoint is taken after each call
+const CHECKPOINT_TOOLS = new Set<string>([...TOOL_GROUPS.edit, ...TOOL_GROUPS.command, ...TOOL_GROUPS.mcp])
+
 export class Agent extends EventEmitter {
-  /**
-   * Stub for createCheckpoint. Returns a random checkpoint ID string.
-   */
-  public async createCheckpoint(): Promise<string> {
-    // In a real implementation, this would save agent state and return a checkpoint ID
-    return Promise.resolve('checkpoint-' + Math.random().toString(36).substring(2, 10));
-  }
   public readonly agentId: string
   public readonly workspacePath: string
+  public readonly parentTaskId?: string
+  public readonly taskDepth: number
+  public readonly maxSubtaskDepth: number
+  private readonly options: AgentOptions
   protected apiConfiguration: any
   private isRunning = false
   private isAborted = false
   private consecutiveMistakeCount = 0
   private readonly consecutiveMistakeLimit: number
   private messages: AgentMessage[] = []
+  protected api: ApiHandler
+  protected toolExecutor: ToolExecutor
+  private streamProcessor: StreamProcessor
+  private streamError?: Error
+  protected subtaskManager: SubtaskManager
+  private readonly modeRegistry: ModeRegistry
+  private currentMode: string
+  public readonly checkpointManager?: CheckpointManager
+  private checkpointsCleanedUp = false
+  // Position of the running call among the latest assistant message's tool calls
+  private toolCallIndex = 0
   
   constructor(options: AgentOptions) {
     super()
     
     this.agentId = crypto.randomUUID()
+    this.options = options
     this.workspacePath = options.workspacePath
+    this.currentMode = options.mode || DEFAULT_MODE_SLUG
+    this.parentTaskId = options.parentTaskId
+    this.taskDepth = options.taskDepth ?? 0
+    this.maxSubtaskDepth = options.maxSubtaskDepth ?? DEFAULT_MAX_SUBTASK_DEPTH
   this.apiConfiguration = options.apiConfiguration
   this.consecutiveMistakeLimit = options.consecutiveMistakeLimit || 3
+    
+    this.api = buildApiHandler(this.apiConfiguration)
+    this.streamProcessor = new StreamProcessor(this)
+    this.toolExecutor = new ToolExecutor(this.workspacePath, this)
+    this.modeRegistry = new ModeRegistry(this.workspacePath)
+    
+    // Error chunks are surfaced once the turn finishes streaming
+    this.streamProcessor.on('error', (error: Error) => {
+      this.streamError = error
+    })
+    this.streamProcessor.on('usage', (usage: any) => this.emit('usage', usage))
+    this.toolExecutor.setApprovalSettings({
+      autoApprovalEnabled: options.experiments?.autoApproval ?? false,
+      ...options.approvalSettings
+    })
+    this.toolExecutor.setAskFunction(options.askApproval)
+    this.toolExecutor.on('tool_use', (toolName: string, args: any) => this.emit('tool_use', toolName, args))
+    this.toolExecutor.on('tool_result', () => this.toolCallIndex++)
+    this.toolExecutor.on('process_output', (processId: number, stream: string, data: string) => {
+      this.emit('process_output', processId, stream, data)
+    })
+    this.toolExecutor.on('process_exit', (info: any) => this.emit('process_exit', info))
+    
+    // Subtasks are the same kind of agent as their parent
+    this.subtaskManager = new SubtaskManager(this, childOptions => new (this.constructor as new (options: AgentOptions) => Agent)(childOptions))
+    this.subtaskManager.on('subtask_updated', (info: SubtaskInfo) => this.emit('subtask_updated', info))
+    this.subtaskManager.on('subtask_message', (taskId: string, message: AgentMessage) => this.emit('subtask_message', taskId, message))
+    
+    if (options.enableCheckpoints) {
+      this.checkpointManager = new CheckpointManager(this.workspacePath, this.agentId)
+      this.checkpointManager.on('checkpoint_created', (checkpoint: Checkpoint) => this.emit('checkpoint_created', checkpoint))
+      this.checkpointManager.on('checkpoint_restored', (checkpoint: Checkpoint) => this.emit('checkpoint_restored', checkpoint))
+    }
   }
   
   public async start(initialMessage: string, images?: string[]): Promise<void> {
@@ -70,6 +151,16 @@ export class Agent extends EventEmitter {
         images
       })
       
+      // Expire old checkpoints from every run in this workspace, once per agent
+      if (this.checkpointManager && !this.checkpointsCleanedUp) {
+        this.checkpointsCleanedUp = true
+        await this.checkpointManager.cleanup().catch(error => this.emit('error', error as Error))
+      }
+      
+      // Baseline to restore to before the first change
+      await this.createCheckpoint('Task started', { trigger: 'start', messageId: this.messages[this.messages.length - 1].id })
+        .catch(error => this.emit('error', error as Error))
+      
       await this.processLoop()
       
     } catch (error) {
@@ -80,30 +171,191 @@ export class Agent extends EventEmitter {
     }
   }
   
-  // Stub for subclasses to override
-  public async executeTool(toolName: string, args: any): Promise<any> {
-    throw new Error('executeTool not implemented')
+  public get mode(): string {
+    return this.currentMode
+  }
+  
+  public async getModes(): Promise<ModeConfig[]> {
+    return this.modeRegistry.getModes()
+  }
+  
+  public async getModeConfig(): Promise<ModeConfig> {
+    const mode = await this.modeRegistry.getMode(this.currentMode)
+    if (!mode) {
+      throw new Error(`Mode "${this.currentMode}" is not defined - it may have been removed from .mominai/modes.json`)
+    }
+    return mode
+  }
+  
+  // Used by the switch_mode tool and the mode picker; the new prompt and tools apply from the next request
+  public async switchMode(slug: string): Promise<ModeConfig> {
+    const mode = await this.modeRegistry.getMode(slug)
+    if (!mode) {
+      throw await this.unknownModeError(slug)
+    }
+    
+    this.currentMode = mode.slug
+    this.toolExecutor.setMode(mode)
+    this.emit('mode_changed', mode)
+    return mode
+  }
+  
+  private async unknownModeError(slug: string): Promise<Error> {
+    const available = (await this.modeRegistry.getModes()).map(mode => mode.slug).join(', ')
+    return new Error(`Unknown mode "${slug}". Available modes: ${available}`)
+  }
+  
+  // new_task: this task waits while the child runs, then gets the child's attempt_completion result
+  public async runSubtask(message: string, mode?: string, todos: string[] = []): Promise<string> {
+    if (mode && !await this.modeRegistry.getMode(mode)) {
+      throw await this.unknownModeError(mode)
+    }
+    
+    const subtaskId = await this.subtaskManager.startSubtask({
+      message,
+      mode: mode ?? this.mode,
+      initialTodos: todos,
+      parentTaskId: this.agentId
+    })
+    
+    this.emit('status', 'paused')
+    try {
+      return await this.subtaskManager.waitForSubtask(subtaskId, null)
+    } finally {
+      if (!this.isAborted) this.emit('status', 'running')
+    }
+  }
+  
+  public getSubtasks(): SubtaskInfo[] {
+    return this.subtaskManager.getSubtasks()
+  }
+  
+  public async abortSubtask(subtaskId: string): Promise<void> {
+    await this.subtaskManager.abortSubtask(subtaskId)
+  }
+  
+  // Subclasses override this to wrap tool execution (repetition detection, telemetry)
+  public async executeTool(toolName: string, args: any): Promise<ToolResult> {
+    const result = await this.toolExecutor.executeTool(toolName, args)
+    
+    if (this.checkpointManager && CHECKPOINT_TOOLS.has(toolName)) {
+      // Unchanged workspaces are deduplicated, so denied or failed calls add nothing
+      const messageId = [...this.messages].reverse().find(m => m.type === 'assistant')?.id
+      await this.createCheckpoint(`After ${toolName}`, { trigger: 'tool', toolName, messageId, toolCallIndex: this.toolCallIndex })
+        .catch(error => this.emit('error', error as Error))
+    }
+    
+    return result
+  }
+  
+  // Snapshot the workspace; returns the latest checkpoint's ID when nothing changed since it
+  public async createCheckpoint(description?: string, metadata?: Record<string, any>): Promise<string> {
+    if (!this.checkpointManager) {
+      throw new Error('Checkpoints are not enabled for this agent')
+    }
+    await this.checkpointManager.loadCheckpoints()
+    const messageId = this.messages[this.messages.length - 1]?.id
+    return this.checkpointManager.createCheckpoint(description, { trigger: 'manual', messageId, ...metadata })
+  }
+  
+  // Put the files back as they were at the checkpoint, and optionally drop the conversation after the message
+  // that produced it. The current state is checkpointed first so the restore can itself be undone.
+  public async restoreCheckpoint(checkpointId: string, options: { restoreConversation?: boolean } = {}): Promise<void> {
+    if (!this.checkpointManager) {
+      throw new Error('Checkpoints are not enabled for this agent')
+    }
+    if (this.isRunning) {
+      throw new Error('Stop the agent before restoring a checkpoint')
+    }
+    
+    await this.checkpointManager.loadCheckpoints()
+    const checkpoint = this.checkpointManager.getCheckpoint(checkpointId)
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${checkpointId} not found`)
+    }
+    
+    let keepCount = this.messages.length
+    if (options.restoreConversation) {
+      const index = this.messages.findIndex(m => m.id === checkpoint.metadata?.messageId)
+      if (index === -1) {
+        throw new Error('The message this checkpoint was taken at is no longer in the conversation')
+      }
+      // The results of the message's tool calls stay with it, up to the call a tool checkpoint was taken after
+      const toolCallIndex = checkpoint.metadata?.toolCallIndex
+      const lastKept = typeof toolCallIndex === 'number' ? index + 1 + toolCallIndex : this.messages.length - 1
+      keepCount = index + 1
+      while (keepCount <= lastKept && keepCount < this.messages.length && this.messages[keepCount].type === 'tool') keepCount++
+    }
+    
+    await this.createCheckpoint(`Before restoring "${checkpoint.description}"`, { trigger: 'restore' })
+    await this.checkpointManager.restoreCheckpoint(checkpointId)
+    
+    if (options.restoreConversation) {
+      this.messages = this.messages.slice(0, keepCount)
+      this.consecutiveMistakeCount = 0
+      this.emit('conversation_restored', this.getMessages())
+    }
   }
   
   private async processLoop(): Promise<void> {
+  this.emit('status', 'running')
+    
     while (this.isRunning && !this.isAborted) {
       try {
         if (this.consecutiveMistakeCount >= this.consecutiveMistakeLimit) {
           await this.handleConsecutiveMistakes()
           this.consecutiveMistakeCount = 0
+          break
         }
         
+        // The model's context window and tool support must be known before the prompt is built
+        await this.api.init?.()
+        await this.manageContext()
+        
         const response = await this.makeApiRequest()
         
-        if (!response) break
+        if (this.isAborted) break
         
+        // Native calls are kept with the message so the provider can match their results on the next turn
+        const toolUses = response.toolUses ?? []
+        const nativeToolUses = toolUses.filter(toolUse => toolUse.id)
         await this.addMessage({
           type: 'assistant',
-          content: response
+          content: response.content,
+          metadata: nativeToolUses.length > 0 ? { toolUses: nativeToolUses } : undefined
         })
         
-        if (this.isTaskComplete(response)) {
-          this.emit('completion', response)
+        this.toolCallIndex = 0
+        const results = await this.toolExecutor.executeTools(toolUses)
+        
+        if (results.length === 0) {
+          // The model must call a tool every turn - nudge it back on track
+          this.consecutiveMistakeCount++
+          await this.addMessage({
+            type: 'user',
+            content: 'You did not use a tool in your previous response. Call a tool to continue, or call attempt_completion if the task is done.'
+          })
+          continue
+        }
+        
+        for (const result of results) {
+          await this.addMessage({
+            type: 'tool',
+            content: result.content,
+            images: result.images,
+            metadata: { toolName: result.toolName, success: result.success, toolUseId: result.toolUseId }
+          })
+        }
+        
+        if (results.some(result => !result.success)) {
+          this.consecutiveMistakeCount++
+        } else {
+          this.consecutiveMistakeCount = 0
+        }
+        
+        const completion = this.getCompletionResult(results)
+        if (completion) {
+          this.emit('completion', completion.content)
           break
         }
         
@@ -116,9 +368,76 @@ export class Agent extends EventEmitter {
     }
   }
   
-  private async makeApiRequest(): Promise<string> {
-    // Simplified API request - will be enhanced with full Kilo Code integration
-    return "I'm processing your request..."
+  // Runs before every model request - subclasses condense the conversation here
+  protected async manageContext(): Promise<void> {}
+  
+  private async makeApiRequest(): Promise<StreamResponse> {
+    this.streamError = undefined
+    
+    // Custom modes can change between turns, so the mode is looked up fresh every time
+    const mode = await this.getModeConfig()
+    this.toolExecutor.setMode(mode)
+    
+    // Providers with native tool calling get JSON schemas; the rest read the XML format from the prompt
+    const nativeTools = this.api.getModel().info.supportsTools === true
+    const stream = this.api.createMessage(
+      getSystemPrompt(this.workspacePath, McpHub.getInstance().getServers(), mode, await this.modeRegistry.getModes(), nativeTools),
+      this.getApiMessages(),
+      {
+        taskId: this.agentId,
+        mode: mode.slug,
+        tools: nativeTools ? getToolDefinitions(getAllowedTools(mode)) : undefined
+      }
+    )
+    
+    const response = await this.streamProcessor.processStream(stream, { xmlTools: !nativeTools })
+    
+    if (this.streamError) {
+      throw this.streamError
+    }
+    
+    if (!response || (!response.content.trim() && !response.toolUses?.length)) {
+      throw new Error('The model returned an empty response')
+    }
+    
+    return response
+  }
+  
+  // Tool results go back to the model as user turns; native ones keep their call ID for transform.ts to pair up
+  private getApiMessages(): ApiMessage[] {
+    return this.messages
+      .filter(m => m.type !== 'system')
+      .map(m => {
+        if (m.type === 'tool') {
+          const text = m.metadata?.toolUseId ? m.content : `[${m.metadata?.toolName} result]\n${m.content}`
+          return {
+            role: 'user' as const,
+            content: m.images?.length
+              ? [{ type: 'text', text }, ...m.images.map(image => ({ type: 'image', data: image }))]
+              : text,
+            toolUseId: m.metadata?.toolUseId,
+            timestamp: m.timestamp
+          }
+        }
+        
+        if (m.type === 'user' && m.images?.length) {
+          return {
+            role: 'user' as const,
+            content: [
+              { type: 'text', text: m.content },
+              ...m.images.map(image => ({ type: 'image', data: image }))
+            ],
+            timestamp: m.timestamp
+          }
+        }
+        
+        return {
+          role: m.type as 'user' | 'assistant',
+          content: m.content,
+          toolUses: m.metadata?.toolUses,
+          timestamp: m.timestamp
+        }
+      })
   }
   
   private async handleConsecutiveMistakes(): Promise<void> {
@@ -132,9 +451,8 @@ export class Agent extends EventEmitter {
   this.emit('status', 'awaiting_guidance')
   }
   
-  private isTaskComplete(content: string): boolean {
-    return content.includes('<attempt_completion>') || 
-           content.includes('task completed')
+  private getCompletionResult(results: ToolResult[]): ToolResult | undefined {
+    return results.find(result => result.toolName === 'attempt_completion' && result.success)
   }
   
   private async addMessage(message: Partial<AgentMessage>): Promise<void> {
@@ -156,6 +474,12 @@ export class Agent extends EventEmitter {
       throw new Error('Agent is not running')
     }
     
+    // While a subtask runs, the user is talking to it
+    const child = this.subtaskManager.getActiveAgent()
+    if (child) {
+      return child.sendMessage(message, images)
+    }
+    
     await this.addMessage({
       type: 'user',
       content: message,
@@ -164,6 +488,7 @@ export class Agent extends EventEmitter {
   }
   
   public async abort(): Promise<void> {
+    await this.subtaskManager.abortAll()
     this.isAborted = true
     this.isRunning = false
   this.emit('status', 'aborted')
@@ -173,16 +498,32 @@ export class Agent extends EventEmitter {
     return [...this.messages]
   }
   
+  protected replaceMessages(messages: AgentMessage[]): void {
+    this.messages = [...messages]
+  }
+  
+  public getOptions(): AgentOptions {
+    return { ...this.options }
+  }
+  
   public getStatus(): string {
     if (this.isAborted) return 'aborted'
     if (this.isRunning) return 'running'
     return 'idle'
   }
   
+  public setAskFunction(askFunction: AskFunction | undefined): void {
+    this.toolExecutor.setAskFunction(askFunction)
+  }
+  
   public dispose(): void {
     this.isAborted = true
     this.isRunning = false
     this.removeAllListeners()
+    this.subtaskManager.dispose()
+    this.streamProcessor.removeAllListeners()
+    this.toolExecutor.dispose()
+    this.checkpointManager?.dispose()
     this.messages = []
   }
 }
\ No newline at end of file
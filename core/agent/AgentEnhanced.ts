@@ -1,16 +1,22 @@
 import { Agent } from './Agent'
 import { ToolName } from '../tools'
+import { McpHub } from '../advanced/mcp/McpHub'
+import type { McpServerConfig } from '../advanced/mcp/McpHub'
 
 // Enhanced agent with Kilo Code's missing features
 export class AgentEnhanced extends Agent {
   private toolRepetitionCount = new Map<ToolName, number>()
-  private mcpServers: any[] = []
+  private mcpServers: McpServerConfig[] = []
   private diffStrategy: 'search-replace' | 'multi-file' = 'search-replace'
   
   // Add Kilo Code's missing capabilities
-  public async enableMcpServers(servers: any[]): Promise<void> {
+  // Servers passed from code - workspace servers come from .mominai/mcp.json via McpHub.watchConfig
+  public async enableMcpServers(servers: McpServerConfig[]): Promise<void> {
     this.mcpServers = servers
-    // MCP (Model Context Protocol) integration
+    const hub = McpHub.getInstance()
+    
+    // One broken server shouldn't keep the others from connecting
+    await Promise.all(servers.map(server => hub.connectServer(server).catch(error => console.error(error.message))))
   }
   
   public setDiffStrategy(strategy: 'search-replace' | 'multi-file'): void {
@@ -1,12 +1,14 @@
 // The 4,000-line Task.ts equivalent - but clean and organized
-import { Agent, AgentOptions } from './Agent'
+import crypto from 'crypto'
+import { Agent, AgentOptions, AgentMessage } from './Agent'
 import { McpHub } from '../advanced/mcp/McpHub'
-import { MultiFileSearchReplaceDiffStrategy } from '../advanced/diff/MultiFileSearchReplace'
+import type { McpServerConfig, McpTool } from '../advanced/mcp/McpHub'
+import { MultiFileSearchReplaceDiffStrategy, MultiFileDiffResult } from '../advanced/diff/MultiFileSearchReplace'
 import { BrowserSession } from '../advanced/browser/BrowserSession'
 import { TelemetryService } from '../advanced/telemetry/TelemetryService'
 import { ToolRepetitionDetector } from '../advanced/repetition/RepetitionDetector'
 import { truncateConversationIfNeeded } from '../advanced/context/SlidingWindow'
-import { SubtaskManager } from '../advanced/subtasks/SubtaskManager'
+import { TokenizerService } from '../tokenizer/TokenizerService'
 
 export class TaskAgent extends Agent {
   // Advanced components
@@ -14,7 +16,6 @@ export class TaskAgent extends Agent {
   private diffStrategy: MultiFileSearchReplaceDiffStrategy
   private browserSession: BrowserSession
   private toolRepetitionDetector: ToolRepetitionDetector
-  private subtaskManager: SubtaskManager
   
   // State management
   private lastResponseId?: string
@@ -28,33 +29,17 @@ export class TaskAgent extends Agent {
     // Initialize advanced components
     this.mcpHub = McpHub.getInstance()
     this.diffStrategy = new MultiFileSearchReplaceDiffStrategy(options.fuzzyMatchThreshold)
-    this.browserSession = new BrowserSession()
+    // Shared with the browser_action tool so the agent and the model drive the same page
+    this.browserSession = this.toolExecutor.browserSession
     this.toolRepetitionDetector = new ToolRepetitionDetector(options.consecutiveMistakeLimit)
-    this.subtaskManager = new SubtaskManager(this)
     
     // Set up telemetry
     TelemetryService.instance.captureTaskCreated(this.agentId)
   }
   
-  // Override start to add advanced features
-  public async start(initialMessage: string, images?: string[]): Promise<void> {
-    // Context window management
-    const messages = this.getMessages()
-    const truncateResult = await truncateConversationIfNeeded({
-      messages,
-      totalTokens: this.estimateTokens(messages),
-      maxTokens: 4096,
-      contextWindow: 128000,
-      autoCondenseContext: true,
-      autoCondenseContextPercent: 75,
-      taskId: this.agentId
-    })
-    
-    if (truncateResult.summary) {
-      console.log('Context condensed:', truncateResult.summary)
-    }
-    
-    return super.start(initialMessage, images)
+  // Context window management before every model request
+  protected async manageContext(): Promise<void> {
+    await this.condenseContext(75)
   }
   
   // Override tool execution with repetition detection
@@ -90,32 +75,31 @@ export class TaskAgent extends Agent {
   
   // Subtask management
   public async startSubtask(message: string, mode?: string): Promise<string> {
-    this.isPaused = true
-    
     const subtaskId = await this.subtaskManager.startSubtask({
       message,
       mode,
       parentTaskId: this.agentId
     })
     
+    this.isPaused = true
     this.childTaskId = subtaskId
     this.emit('status', 'paused')
     
     return subtaskId
   }
   
-  public async waitForSubtask(): Promise<any> {
+  public async waitForSubtask(): Promise<string> {
     if (!this.childTaskId) {
       throw new Error('No active subtask')
     }
     
-    const result = await this.subtaskManager.waitForSubtask(this.childTaskId)
-    
-    this.isPaused = false
-    this.childTaskId = undefined
-    this.emit('status', 'running')
-    
-    return result
+    try {
+      return await this.subtaskManager.waitForSubtask(this.childTaskId)
+    } finally {
+      this.isPaused = false
+      this.childTaskId = undefined
+      this.emit('status', 'running')
+    }
   }
   
   // Browser automation
@@ -132,16 +116,16 @@ export class TaskAgent extends Agent {
   }
   
   // MCP integration
-  public async connectMcpServer(serverConfig: any): Promise<void> {
+  public async connectMcpServer(serverConfig: McpServerConfig): Promise<void> {
     await this.mcpHub.connectServer(serverConfig)
   }
   
-  public async getMcpTools(): Promise<any[]> {
+  public async getMcpTools(): Promise<McpTool[]> {
     return await this.mcpHub.getAvailableTools()
   }
   
   // Advanced diff application
-  public async applyAdvancedDiff(files: Record<string, string>, diff: string): Promise<Record<string, string>> {
+  public async applyAdvancedDiff(files: Record<string, string>, diff: string): Promise<MultiFileDiffResult> {
     return await this.diffStrategy.applyDiff(files, diff)
   }
   
@@ -170,25 +154,57 @@ export class TaskAgent extends Agent {
   private async handleContextWindowError(): Promise<void> {
     console.log('Context window exceeded - forcing truncation')
     
+    await this.condenseContext(50) // More aggressive truncation
+    
+    this.skipPrevResponseIdOnce = true // Skip continuity after truncation
+  }
+  
+  private async condenseContext(keepPercent: number): Promise<void> {
     const messages = this.getMessages()
+    const { id, info } = this.api.getModel()
+    
     const truncateResult = await truncateConversationIfNeeded({
       messages,
       totalTokens: this.estimateTokens(messages),
-      maxTokens: 4096,
-      contextWindow: 128000,
+      maxTokens: info.maxTokens,
+      contextWindow: info.contextWindow,
       autoCondenseContext: true,
-      autoCondenseContextPercent: 50, // More aggressive truncation
-      taskId: this.agentId
+      autoCondenseContextPercent: keepPercent,
+      apiHandler: this.api,
+      taskId: this.agentId,
+      modelId: id
     })
     
-    // Update conversation with truncated messages
-    // Would need to implement message replacement
+    if (truncateResult.messages.length === messages.length) {
+      return
+    }
+    
+    const condensed: AgentMessage[] = [...truncateResult.messages]
     
-    this.skipPrevResponseIdOnce = true // Skip continuity after truncation
+    // The summary stands in for every message that was dropped
+    if (truncateResult.summary) {
+      condensed.unshift({
+        id: crypto.randomUUID(),
+        type: 'user',
+        content: `Summary of the earlier conversation:\n\n${truncateResult.summary}`,
+        timestamp: Date.now(),
+        metadata: { isSummary: true }
+      })
+    }
+    
+    this.replaceMessages(condensed)
+    
+    TelemetryService.instance.captureEvent('context_condensed', {
+      agentId: this.agentId,
+      prevContextTokens: truncateResult.prevContextTokens,
+      newContextTokens: truncateResult.newContextTokens,
+      cost: truncateResult.cost,
+      error: truncateResult.error
+    })
   }
   
   private estimateTokens(messages: any[]): number {
-    return messages.reduce((total, msg) => total + Math.ceil(msg.content.length / 4), 0)
+    return TokenizerService.instance.countMessageTokens(messages, this.api.getModel().id)
   }
   
   // Enhanced dispose
@@ -197,7 +213,6 @@ export class TaskAgent extends Agent {
     
     // Clean up advanced components
     this.browserSession.closeBrowser()
-    this.subtaskManager.dispose()
     this.toolRepetitionDetector.reset()
     
     TelemetryService.instance.captureEvent('task_disposed', { agentId: this.agentId })
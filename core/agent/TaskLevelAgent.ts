@@ -1,11 +1,11 @@
 import { Agent } from './Agent'
+import { TokenizerService } from '../tokenizer/TokenizerService'
 
 // Recreate Kilo Code's critical missing features
 export class TaskLevelAgent extends Agent {
   private toolRepetitionCount = new Map<string, number>()
   private contextWindow = 128000
   private maxConsecutiveToolUse = 5
-  private subtasks = new Map<string, TaskLevelAgent>()
   private messageQueue: any[] = []
   
   // 1. Tool Repetition Detection (Kilo Code's ToolRepetitionDetector)
@@ -34,37 +34,17 @@ export class TaskLevelAgent extends Agent {
   }
   
   private estimateTokens(messages: any[]): number {
-    return messages.reduce((total, msg) => total + Math.ceil(msg.content.length / 4), 0)
+    return TokenizerService.instance.countMessageTokens(messages, this.api.getModel().id)
   }
   
   // 3. Subtask Management (Kilo Code's startSubtask/waitForSubtask)
   public async startSubtask(message: string, mode?: string): Promise<string> {
-    const subtaskId = crypto.randomUUID()
-    
-    const subtask = new TaskLevelAgent({
-      apiConfiguration: this.apiConfiguration,
-      workspacePath: this.workspacePath,
-      enableCheckpoints: false // Subtasks don't need checkpoints
-    })
-    
-    this.subtasks.set(subtaskId, subtask)
-    
-    // Start subtask in background
-    subtask.start(message).catch(error => {
-      console.error(`Subtask ${subtaskId} failed:`, error)
-    })
-    
-    return subtaskId
+    return this.subtaskManager.startSubtask({ message, mode, parentTaskId: this.agentId })
   }
   
-  public async waitForSubtask(subtaskId: string): Promise<any> {
-    const subtask = this.subtasks.get(subtaskId)
-    if (!subtask) throw new Error(`Subtask ${subtaskId} not found`)
-    
-    return new Promise((resolve) => {
-      subtask.on('completion', resolve)
-      setTimeout(() => resolve(null), 300000) // 5 minute timeout
-    })
+  // Rejects if the subtask fails or takes longer than 5 minutes
+  public async waitForSubtask(subtaskId: string): Promise<string> {
+    return this.subtaskManager.waitForSubtask(subtaskId, 300000)
   }
   
   // 4. Message Queue Processing (Kilo Code's MessageQueueService)
@@ -128,12 +108,6 @@ export class TaskLevelAgent extends Agent {
   public dispose(): void {
     super.dispose()
     
-    // Cleanup subtasks
-    for (const [id, subtask] of this.subtasks) {
-      subtask.dispose()
-    }
-    this.subtasks.clear()
-    
     this.toolRepetitionCount.clear()
     this.messageQueue = []
   }
@@ -0,0 +1,176 @@
+import { createServer, type IncomingMessage, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { buildApiHandler, type ApiMessage } from './index'
+import { convertToAnthropicMessages, convertToOpenAiMessages } from './transform'
+import type { ToolDefinition } from '../tools/ToolRegistry'
+
+// A local stand-in for the provider APIs: every request is recorded and answered with the queued SSE events
+interface StubRequest {
+  path: string
+  body: any
+}
+
+let server: Server
+let baseUrl: string
+let requests: StubRequest[] = []
+let events: string[] = []
+
+const readBody = (request: IncomingMessage) => new Promise<string>(resolve => {
+  let body = ''
+  request.on('data', chunk => { body += chunk })
+  request.on('end', () => resolve(body))
+})
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    const body = await readBody(request)
+    requests.push({ path: request.url ?? '', body: body ? JSON.parse(body) : undefined })
+    response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+    for (const event of events) response.write(event)
+    response.end()
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+beforeEach(() => {
+  requests = []
+  events = []
+})
+
+const collect = async (stream: AsyncIterable<any>) => {
+  const chunks: any[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+const openAiChunk = (delta: any, usage?: any) =>
+  `data: ${JSON.stringify({ id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 0, model: 'gpt-4o', choices: usage ? [] : [{ index: 0, delta, finish_reason: null }], usage })}\n\n`
+
+const anthropicEvent = (data: any) => `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`
+
+const tools: ToolDefinition[] = [{ name: 'read_file', description: 'Read a file', parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] } }]
+
+describe('OpenAIHandler', () => {
+  it('streams text, tool calls and usage', async () => {
+    events = [
+      openAiChunk({ role: 'assistant', content: 'Hello' }),
+      openAiChunk({ content: ' world' }),
+      openAiChunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"pa' } }] }),
+      openAiChunk({ tool_calls: [{ index: 0, function: { arguments: 'th":"a.ts"}' } }] }),
+      openAiChunk(undefined, { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 }),
+      'data: [DONE]\n\n'
+    ]
+    const handler = buildApiHandler({ apiProvider: 'openai', apiKey: 'test', baseUrl })
+
+    const chunks = await collect(handler.createMessage('Be brief', [{ role: 'user', content: 'Hi' }], { taskId: 't1', tools }))
+
+    expect(chunks).toEqual([
+      { type: 'text', text: 'Hello' },
+      { type: 'text', text: ' world' },
+      { type: 'usage', data: { inputTokens: 12, outputTokens: 5, totalTokens: 17 } },
+      { type: 'tool_use', data: { id: 'call_1', name: 'read_file', args: { path: 'a.ts' } } }
+    ])
+    expect(requests).toHaveLength(1)
+    expect(requests[0].path).toBe('/chat/completions')
+    expect(requests[0].body).toMatchObject({
+      model: 'gpt-4o',
+      stream: true,
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }],
+      tools: [{ type: 'function', function: { name: 'read_file' } }]
+    })
+  })
+
+  it('yields an error chunk when the request fails', async () => {
+    const handler = buildApiHandler({ apiProvider: 'openai', apiKey: 'test', baseUrl: 'http://127.0.0.1:1' })
+    const chunks = await collect(handler.createMessage('', [{ role: 'user', content: 'Hi' }]))
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0].type).toBe('error')
+  })
+})
+
+describe('AnthropicHandler', () => {
+  it('streams text, thinking, tool calls and usage', async () => {
+    events = [
+      anthropicEvent({ type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude', stop_reason: null, stop_sequence: null, usage: { input_tokens: 20, output_tokens: 1 } } }),
+      anthropicEvent({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+      anthropicEvent({ type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Looking' } }),
+      anthropicEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Reading it' } }),
+      anthropicEvent({ type: 'content_block_stop', index: 0 }),
+      anthropicEvent({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: {} } }),
+      anthropicEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } }),
+      anthropicEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"a.ts"}' } }),
+      anthropicEvent({ type: 'content_block_stop', index: 1 }),
+      anthropicEvent({ type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 9 } }),
+      anthropicEvent({ type: 'message_stop' })
+    ]
+    const handler = buildApiHandler({ apiProvider: 'anthropic', apiKey: 'test', baseUrl })
+
+    const chunks = await collect(handler.createMessage('Be brief', [{ role: 'user', content: 'Hi' }], { taskId: 't1', tools }))
+
+    expect(chunks).toEqual([
+      { type: 'reasoning', text: 'Looking' },
+      { type: 'text', text: 'Reading it' },
+      { type: 'tool_use', data: { id: 'toolu_1', name: 'read_file', args: { path: 'a.ts' } } },
+      { type: 'usage', data: { inputTokens: 20, outputTokens: 9, totalTokens: 29 } }
+    ])
+    expect(requests[0].path).toBe('/v1/messages')
+    expect(requests[0].body).toMatchObject({
+      model: 'claude-3-5-sonnet-latest',
+      system: 'Be brief',
+      stream: true,
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      tools: [{ name: 'read_file', input_schema: tools[0].parameters }]
+    })
+  })
+})
+
+describe('transform', () => {
+  const conversation: ApiMessage[] = [
+    { role: 'user', content: [{ type: 'text', text: 'Look at this' }, { type: 'image', data: 'data:image/jpeg;base64,AAAA' }] },
+    { role: 'assistant', content: 'Checking', toolUses: [{ id: 'call_1', name: 'read_file', args: { path: 'a.ts' } }, { id: 'call_2', name: 'read_file', args: { path: 'b.ts' } }] },
+    { role: 'user', content: 'contents of a.ts', toolUseId: 'call_1' },
+    { role: 'user', content: 'Thanks' }
+  ]
+
+  it('converts tool calls and fills in missing results for OpenAI', () => {
+    expect(convertToOpenAiMessages('system', conversation)).toEqual([
+      { role: 'system', content: 'system' },
+      { role: 'user', content: [{ type: 'text', text: 'Look at this' }, { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } }] },
+      {
+        role: 'assistant',
+        content: 'Checking',
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'read_file', arguments: '{"path":"b.ts"}' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'contents of a.ts' },
+      { role: 'tool', tool_call_id: 'call_2', content: 'The tool call was not executed.' },
+      { role: 'user', content: 'Thanks' }
+    ])
+  })
+
+  it('merges tool results into alternating turns for Anthropic', () => {
+    const { system, messages } = convertToAnthropicMessages('system', [{ role: 'system', content: 'extra' }, ...conversation])
+    expect(system).toBe('system\n\nextra')
+    expect(messages.map(message => message.role)).toEqual(['user', 'assistant', 'user'])
+    expect(messages[0].content).toEqual([
+      { type: 'text', text: 'Look at this' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'AAAA' } }
+    ])
+    expect(messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 'call_1', content: [{ type: 'text', text: 'contents of a.ts' }] },
+      { type: 'tool_result', tool_use_id: 'call_2', content: 'The tool call was not executed.', is_error: true },
+      { type: 'text', text: 'Thanks' }
+    ])
+  })
+
+  it('opens an Anthropic conversation with a user turn', () => {
+    const { messages } = convertToAnthropicMessages('system', [{ role: 'assistant', content: 'Hi' }])
+    expect(messages[0]).toEqual({ role: 'user', content: [{ type: 'text', text: '(conversation continues)' }] })
+  })
+})
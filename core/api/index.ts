@@ -1,10 +1,29 @@
+import OpenAI from 'openai'
+import Anthropic from '@anthropic-ai/sdk'
+import { convertToOpenAiMessages, convertToAnthropicMessages } from './transform'
+import {
+  LocalProvider,
+  DEFAULT_OLLAMA_URL,
+  DEFAULT_LOCAL_CONTEXT_WINDOW,
+  discoverLocalModels,
+  getLocalMaxTokens,
+  getOpenAiBaseUrl
+} from './local'
+import { TokenizerService } from '../tokenizer/TokenizerService'
+import type { ToolDefinition } from '../tools/ToolRegistry'
+import type { ToolUse } from '../tools/XmlToolParser'
+
+export { discoverLocalModels } from './local'
+export type { LocalProvider } from './local'
+
 export interface ModelInfo {
   id: string
   name: string
   contextWindow: number
   maxTokens: number
   supportsImages?: boolean
-  supportsTools?: boolean
+  supportsTools?: boolean // native tool calling - without it tools are called through the XML format in the prompt
+  // USD per million tokens
   inputPrice?: number
   outputPrice?: number
 }
@@ -23,11 +42,14 @@ export interface ApiHandlerCreateMessageMetadata {
   previousResponseId?: string
   suppressPreviousResponseId?: boolean
   store?: boolean
+  tools?: ToolDefinition[] // for native tool calling
 }
 
 export interface ApiMessage {
   role: 'user' | 'assistant' | 'system'
   content: string | Array<any>
+  toolUses?: ToolUse[] // native tool calls made by an assistant turn
+  toolUseId?: string // set on the user turn carrying a native tool call's result
   timestamp?: number
 }
 
@@ -44,6 +66,8 @@ export interface ApiHandler {
   
   getModel(): { id: string; info: ModelInfo }
   countTokens(content: Array<any>): Promise<number>
+  // Loads model info that has to be fetched (e.g. whether a local model supports tools); awaited before each turn
+  init?(): Promise<void>
 }
 
 export class BaseApiHandler implements ApiHandler {
@@ -60,7 +84,7 @@ export class BaseApiHandler implements ApiHandler {
         contextWindow: 128000,
         maxTokens: 4096,
         supportsImages: false,
-        supportsTools: true
+        supportsTools: false
       }
     }
   }
@@ -80,9 +104,7 @@ export class BaseApiHandler implements ApiHandler {
   }
   
   async countTokens(content: Array<any>): Promise<number> {
-    // Simple token estimation - can be enhanced with actual tokenizers
-    const text = JSON.stringify(content)
-    return Math.ceil(text.length / 4)
+    return TokenizerService.instance.countContentTokens(content, this.model.id)
   }
 }
 
@@ -96,6 +118,9 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
       return new OpenAIHandler(configuration)
     case 'anthropic':
       return new AnthropicHandler(configuration)
+    case 'ollama':
+    case 'openai-compatible':
+      return new LocalModelHandler(configuration)
     default:
       return new BaseApiHandler(configuration)
   }
@@ -123,10 +148,22 @@ class GeminiHandler extends BaseApiHandler {
 }
 
 class OpenAIHandler extends BaseApiHandler {
+  private client: OpenAI
+  
   constructor(settings: ProviderSettings) {
     super(settings)
     this.model.info.supportsImages = true
     this.model.info.supportsTools = true
+    
+    if (!settings.apiModelId) {
+      this.model.id = this.model.info.id = 'gpt-4o'
+    }
+    
+    this.client = new OpenAI({
+      apiKey: settings.apiKey,
+      baseURL: settings.baseUrl,
+      dangerouslyAllowBrowser: true
+    })
   }
   
   async *createMessage(
@@ -134,17 +171,154 @@ class OpenAIHandler extends BaseApiHandler {
     messages: ApiMessage[],
     metadata?: ApiHandlerCreateMessageMetadata
   ): ApiStream {
-    // OpenAI implementation would go here
-    yield { type: 'text', text: 'OpenAI response simulation' }
+    // Tool call arguments arrive in fragments keyed by index
+    const toolCalls = new Map<number, { id: string; name: string; arguments: string }>()
+    const tools = this.model.info.supportsTools ? metadata?.tools : undefined
+    
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.model.id,
+        messages: convertToOpenAiMessages(systemPrompt, messages),
+        max_tokens: this.model.info.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(tools?.length ? {
+          tools: tools.map(tool => ({
+            type: 'function' as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+          }))
+        } : {})
+      })
+      
+      for await (const chunk of stream) {
+        const delta: any = chunk.choices[0]?.delta
+        
+        if (delta?.content) {
+          yield { type: 'text', text: delta.content }
+        }
+        
+        // Reasoning models served through OpenAI-compatible APIs stream their thinking separately
+        if (delta?.reasoning_content) {
+          yield { type: 'reasoning', text: delta.reasoning_content }
+        }
+        
+        for (const toolCall of delta?.tool_calls ?? []) {
+          const existing = toolCalls.get(toolCall.index) ?? { id: '', name: '', arguments: '' }
+          existing.id ||= toolCall.id ?? ''
+          existing.name += toolCall.function?.name ?? ''
+          existing.arguments += toolCall.function?.arguments ?? ''
+          toolCalls.set(toolCall.index, existing)
+        }
+        
+        if (chunk.usage) {
+          yield {
+            type: 'usage',
+            data: {
+              inputTokens: chunk.usage.prompt_tokens,
+              outputTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens
+            }
+          }
+        }
+      }
+      
+      for (const toolCall of toolCalls.values()) {
+        yield { type: 'tool_use', data: { id: toolCall.id || undefined, name: toolCall.name, args: parseToolArguments(toolCall.arguments) } }
+      }
+    } catch (error) {
+      yield { type: 'error', error: error.message }
+    }
+  }
+}
+
+// Self-hosted models behind an OpenAI-compatible API (Ollama, llama.cpp, vLLM)
+class LocalModelHandler extends OpenAIHandler {
+  private provider: LocalProvider
+  private baseUrl: string
+  private modelInfoLoaded?: Promise<void>
+  
+  constructor(settings: ProviderSettings) {
+    const baseUrl = settings.baseUrl ||
+      (typeof process !== 'undefined' ? process.env.LOCAL_MODEL_ENDPOINT : undefined) ||
+      DEFAULT_OLLAMA_URL
+    
+    // Local servers usually ignore the key, but the OpenAI client requires one
+    super({ ...settings, apiKey: settings.apiKey || 'local', baseUrl: getOpenAiBaseUrl(baseUrl) })
+    
+    this.provider = settings.apiProvider === 'ollama' ? 'ollama' : 'openai-compatible'
+    this.baseUrl = baseUrl
+    this.model.id = this.model.info.id = settings.apiModelId || ''
+    this.model.info.name = settings.apiModelId || 'Local Model'
+    this.model.info.contextWindow = DEFAULT_LOCAL_CONTEXT_WINDOW
+    this.model.info.maxTokens = getLocalMaxTokens(DEFAULT_LOCAL_CONTEXT_WINDOW)
+    this.model.info.supportsImages = false
+    this.model.info.supportsTools = false
+  }
+  
+  async *createMessage(
+    systemPrompt: string,
+    messages: ApiMessage[],
+    metadata?: ApiHandlerCreateMessageMetadata
+  ): ApiStream {
+    try {
+      await this.init()
+    } catch (error) {
+      yield { type: 'error', error: error.message }
+      return
+    }
+    
+    yield* super.createMessage(systemPrompt, messages, metadata)
+  }
+  
+  // Discovery decides supportsTools, so the prompt format is known before the first request is built
+  init(): Promise<void> {
+    if (!this.modelInfoLoaded) {
+      this.modelInfoLoaded = this.discoverModel().catch(error => {
+        // Allow a retry once the server comes up
+        this.modelInfoLoaded = undefined
+        throw error
+      })
+    }
+    return this.modelInfoLoaded
+  }
+  
+  private async discoverModel(): Promise<void> {
+    const models = await discoverLocalModels(this.baseUrl, this.provider)
+    
+    if (!this.model.id) {
+      if (models.length === 0) {
+        throw new Error(`No models are available at ${this.baseUrl}`)
+      }
+      this.model = { id: models[0].id, info: models[0] }
+      return
+    }
+    
+    // Keep the defaults if the requested model is not listed (e.g. pulled on demand)
+    const info = models.find(model => model.id === this.model.id)
+    if (info) {
+      this.model = { id: info.id, info }
+    }
   }
 }
 
 class AnthropicHandler extends BaseApiHandler {
+  private client: Anthropic
+  
   constructor(settings: ProviderSettings) {
     super(settings)
     this.model.info.supportsImages = true
     this.model.info.supportsTools = true
     this.model.info.contextWindow = 200000
+    
+    if (!settings.apiModelId) {
+      this.model.id = this.model.info.id = 'claude-3-5-sonnet-latest'
+    }
+    
+    this.client = new Anthropic({
+      apiKey: settings.apiKey,
+      baseURL: settings.baseUrl,
+      dangerouslyAllowBrowser: true
+    })
   }
   
   async *createMessage(
@@ -152,7 +326,87 @@ class AnthropicHandler extends BaseApiHandler {
     messages: ApiMessage[],
     metadata?: ApiHandlerCreateMessageMetadata
   ): ApiStream {
-    // Anthropic implementation would go here
-    yield { type: 'text', text: 'Anthropic response simulation' }
+    const { system, messages: anthropicMessages } = convertToAnthropicMessages(systemPrompt, messages)
+    const toolBlocks = new Map<number, { id: string; name: string; input: string }>()
+    let inputTokens = 0
+    let outputTokens = 0
+    
+    try {
+      const stream = await this.client.messages.create({
+        model: this.model.id,
+        max_tokens: this.model.info.maxTokens,
+        system,
+        messages: anthropicMessages,
+        stream: true,
+        ...(metadata?.tools?.length ? {
+          tools: metadata.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters as Anthropic.Tool.InputSchema
+          }))
+        } : {})
+      })
+      
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            inputTokens = event.message.usage.input_tokens
+            outputTokens = event.message.usage.output_tokens
+            break
+            
+          case 'message_delta':
+            outputTokens = event.usage.output_tokens
+            break
+            
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: '' })
+            } else if (event.content_block.type === 'text' && event.content_block.text) {
+              yield { type: 'text', text: event.content_block.text }
+            }
+            break
+            
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              yield { type: 'text', text: event.delta.text }
+            } else if (event.delta.type === 'thinking_delta') {
+              yield { type: 'reasoning', text: event.delta.thinking }
+            } else if (event.delta.type === 'input_json_delta') {
+              const block = toolBlocks.get(event.index)
+              if (block) block.input += event.delta.partial_json
+            }
+            break
+            
+          case 'content_block_stop': {
+            const block = toolBlocks.get(event.index)
+            if (block) {
+              yield { type: 'tool_use', data: { id: block.id, name: block.name, args: parseToolArguments(block.input) } }
+              toolBlocks.delete(event.index)
+            }
+            break
+          }
+        }
+      }
+      
+      yield {
+        type: 'usage',
+        data: {
+          inputTokens,
+          outputTokens,
+          totalTokens: inputTokens + outputTokens
+        }
+      }
+    } catch (error) {
+      yield { type: 'error', error: error.message }
+    }
   }
-}
\ No newline at end of file
+}
+
+function parseToolArguments(raw: string): any {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return { raw }
+  }
+}
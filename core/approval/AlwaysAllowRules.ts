@@ -0,0 +1,114 @@
+// "Always allow" approval rules, persisted per workspace in .mominai/approvals.json
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+export const APPROVALS_FILE = path.join('.mominai', 'approvals.json')
+
+export interface AlwaysAllowRule {
+  toolName: string
+  pattern: string // command prefix or path glob, '*' for any call of the tool
+  createdAt: number
+}
+
+// Chained, backgrounded, redirected or substituted commands could smuggle anything past a prefix rule like "npm run *"
+const SHELL_METACHARACTERS = /[;&|`<>\r\n]|\$\(/
+
+const COMMAND_TOOLS = ['execute_command', 'send_process_input']
+
+export class AlwaysAllowRules {
+  private rules: AlwaysAllowRule[] = []
+  private loaded?: Promise<void>
+
+  constructor(private workspacePath?: string) {}
+
+  public async getRules(): Promise<AlwaysAllowRule[]> {
+    await this.load()
+    return [...this.rules]
+  }
+
+  public async add(toolName: string, pattern: string): Promise<void> {
+    await this.load()
+    if (this.rules.some(rule => rule.toolName === toolName && rule.pattern === pattern)) return
+
+    this.rules.push({ toolName, pattern, createdAt: Date.now() })
+    await this.save()
+  }
+
+  public async remove(toolName: string, pattern: string): Promise<void> {
+    await this.load()
+    this.rules = this.rules.filter(rule => !(rule.toolName === toolName && rule.pattern === pattern))
+    await this.save()
+  }
+
+  public async findMatch(toolName: string, subject: string): Promise<AlwaysAllowRule | undefined> {
+    await this.load()
+    return this.rules.find(rule => rule.toolName === toolName && matchesRule(toolName, subject, rule.pattern))
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (!this.workspacePath) return
+        try {
+          const data = JSON.parse(await fs.readFile(path.join(this.workspacePath, APPROVALS_FILE), 'utf-8'))
+          this.rules = Array.isArray(data.alwaysAllow) ? data.alwaysAllow : []
+        } catch {
+          // No rules saved for this workspace yet
+        }
+      })()
+    }
+    return this.loaded
+  }
+
+  private async save(): Promise<void> {
+    if (!this.workspacePath) return
+
+    const filePath = path.join(this.workspacePath, APPROVALS_FILE)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify({ alwaysAllow: this.rules }, null, 2), 'utf-8')
+  }
+}
+
+// Suggest a rule that covers this call and similar ones, e.g. "npm run *" or "src/components/**".
+// A call with nothing to match against gets no suggestion, so "always allow" is never offered for it.
+export function suggestPattern(toolName: string, subject: string): string | undefined {
+  if (!subject) return undefined
+
+  // One MCP tool at a time, e.g. "github/create_issue"
+  if (toolName === 'use_mcp_tool') return subject
+
+  if (COMMAND_TOOLS.includes(toolName)) {
+    if (SHELL_METACHARACTERS.test(subject)) return subject.trim()
+    const words = subject.trim().split(/\s+/)
+    const prefixLength = ['npm', 'npx', 'yarn', 'pnpm', 'bun', 'git', 'cargo', 'go'].includes(words[0]) ? 2 : 1
+    return words.length > prefixLength ? `${words.slice(0, prefixLength).join(' ')} *` : subject.trim()
+  }
+
+  // A root-level file gets its own path, since '*' would allow the tool on every path
+  const filePath = subject.replace(/\\/g, '/')
+  const directory = path.posix.dirname(filePath)
+  return directory === '.' ? filePath : `${directory}/**`
+}
+
+function matchesRule(toolName: string, subject: string, pattern: string): boolean {
+  if (pattern === '*') return true
+
+  if (COMMAND_TOOLS.includes(toolName)) {
+    // Such commands only match a rule for exactly that command
+    if (SHELL_METACHARACTERS.test(subject)) return pattern === subject.trim()
+    return globToRegExp(pattern, false).test(subject.trim())
+  }
+
+  return globToRegExp(pattern, true).test(path.posix.normalize(subject.replace(/\\/g, '/')))
+}
+
+function globToRegExp(pattern: string, isPath: boolean): RegExp {
+  const source = pattern
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join(isPath ? '[^/]*' : '.*'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
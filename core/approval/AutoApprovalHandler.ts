@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events'
+import { AlwaysAllowRules, suggestPattern } from './AlwaysAllowRules'
 
 export interface ApprovalSettings {
   autoApprovalEnabled: boolean
@@ -9,6 +10,15 @@ export interface ApprovalSettings {
   fileOperationsRequireApproval: boolean
 }
 
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  autoApprovalEnabled: false,
+  alwaysApproveResubmit: false,
+  maxAutoApprovals: 200,
+  autoApprovalTimeWindow: 3600000,
+  dangerousCommandsRequireApproval: true,
+  fileOperationsRequireApproval: true
+}
+
 export interface ApprovalRequest {
   id: string
   type: 'command' | 'file_operation' | 'api_request' | 'tool_use'
@@ -25,18 +35,28 @@ export interface ApprovalResult {
   reason?: string
 }
 
+// response is 'yesButtonClicked', 'noButtonClicked' or 'alwaysAllowButtonClicked' (with the pattern the user accepted)
+export interface AskResponse {
+  response: string
+  pattern?: string
+}
+
+export type AskFunction = (type: string, data: any) => Promise<AskResponse>
+
 export class AutoApprovalHandler extends EventEmitter {
   private approvalHistory: ApprovalRequest[] = []
   private maxHistorySize = 1000
+  public readonly alwaysAllowRules: AlwaysAllowRules
   
-  constructor() {
+  constructor(workspacePath?: string) {
     super()
+    this.alwaysAllowRules = new AlwaysAllowRules(workspacePath)
   }
   
   public async checkAutoApprovalLimits(
     settings: ApprovalSettings,
     context: any,
-    askFunction: (type: string, data: any) => Promise<{ response: string }>
+    askFunction: AskFunction
   ): Promise<ApprovalResult> {
     
     if (!settings.autoApprovalEnabled) {
@@ -78,7 +98,7 @@ export class AutoApprovalHandler extends EventEmitter {
     description: string,
     details: any,
     settings: ApprovalSettings,
-    askFunction: (type: string, data: any) => Promise<{ response: string }>
+    askFunction: AskFunction
   ): Promise<ApprovalResult> {
     
     const request: ApprovalRequest = {
@@ -91,23 +111,46 @@ export class AutoApprovalHandler extends EventEmitter {
     
     // Check if this type of operation requires manual approval
     const requiresManualApproval = this.requiresManualApproval(type, details, settings)
+    const toolName: string = details?.toolName ?? type
+    const subjects = this.getRuleSubjects(details)
+    
+    // Rules the user saved earlier never cover dangerous operations, and every file of a patch must be covered
+    const rule = requiresManualApproval || subjects.length === 0
+      ? undefined
+      : await this.findRuleForAll(toolName, subjects)
+    if (rule) {
+      request.approved = true
+      request.autoApproved = true
+      this.addToHistory(request)
+      
+      return { shouldProceed: true, autoApproved: true, reason: `Always allowed (${rule.pattern})` }
+    }
     
     if (!settings.autoApprovalEnabled || requiresManualApproval) {
-      // Ask for manual approval
+      // Ask for manual approval - a patch touching several files gets no suggested rule, though saved rules can cover each file
+      const suggestedPattern = subjects.length === 1 ? suggestPattern(toolName, subjects[0]) : undefined
       const result = await askFunction(this.getApprovalPromptType(type), {
         description,
-        details: JSON.stringify(details, null, 2)
+        details: JSON.stringify(details, null, 2),
+        toolName,
+        suggestedPattern,
+        dangerous: requiresManualApproval
       })
       
-      request.approved = result.response === 'yesButtonClicked'
+      const alwaysAllow = result.response === 'alwaysAllowButtonClicked'
+      request.approved = result.response === 'yesButtonClicked' || alwaysAllow
       request.autoApproved = false
       
       this.addToHistory(request)
       
+      if (alwaysAllow && suggestedPattern) {
+        await this.alwaysAllowRules.add(toolName, result.pattern || suggestedPattern)
+      }
+      
       return {
         shouldProceed: request.approved || false,
         autoApproved: false,
-        reason: request.approved ? 'User approved' : 'User denied'
+        reason: alwaysAllow ? 'User approved and always allowed' : request.approved ? 'User approved' : 'User denied'
       }
     }
     
@@ -153,6 +196,25 @@ export class AutoApprovalHandler extends EventEmitter {
     return false
   }
   
+  // Multi-file patches list their files; anything else has a single subject
+  private getRuleSubjects(details: any): string[] {
+    if (Array.isArray(details?.files)) return details.files
+    const subject = this.getRuleSubject(details)
+    return subject ? [subject] : []
+  }
+  
+  private async findRuleForAll(toolName: string, subjects: string[]) {
+    const rules = await Promise.all(subjects.map(subject => this.alwaysAllowRules.findMatch(toolName, subject)))
+    return rules.every(Boolean) ? rules[0] : undefined
+  }
+  
+  private getRuleSubject(details: any): string {
+    if (details?.tool) {
+      return `${details.server ?? ''}/${details.tool}` // MCP tools
+    }
+    return String(details?.command ?? details?.path ?? '')
+  }
+  
   private isDangerousCommand(command: string): boolean {
     const dangerousPatterns = [
       /rm\s+-rf/,
@@ -176,7 +238,8 @@ export class AutoApprovalHandler extends EventEmitter {
   }
   
   private isDangerousFileOperation(details: any): boolean {
-    const { operation, path } = details
+    const { operation } = details
+    const paths: string[] = Array.isArray(details.files) ? details.files : [details.path]
     
     // Operations that modify system files
     if (operation === 'delete' || operation === 'write') {
@@ -194,7 +257,7 @@ export class AutoApprovalHandler extends EventEmitter {
         /^C:\\System32\\/i
       ]
       
-      return dangerousPaths.some(pattern => pattern.test(path))
+      return paths.some(path => dangerousPaths.some(pattern => pattern.test(path)))
     }
     
     return false
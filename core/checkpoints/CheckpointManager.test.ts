@@ -0,0 +1,101 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CheckpointManager } from './CheckpointManager'
+
+describe('CheckpointManager', () => {
+  let workspace: string
+  let manager: CheckpointManager
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'))
+    manager = new CheckpointManager(workspace, 'agent-1')
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    manager.dispose()
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(workspace, file)), { recursive: true })
+    await fs.writeFile(path.join(workspace, file), content)
+  }
+  const read = (file: string) => fs.readFile(path.join(workspace, file), 'utf-8')
+
+  it('reuses the latest checkpoint when nothing changed', async () => {
+    await write('a.txt', 'one\n')
+    const first = await manager.createCheckpoint('first')
+
+    expect(await manager.createCheckpoint('again')).toBe(first)
+    await write('a.txt', 'two\n')
+    expect(await manager.createCheckpoint('changed')).not.toBe(first)
+  })
+
+  it('restores the workspace, removing files created since the checkpoint', async () => {
+    await write('a.txt', 'one\n')
+    const checkpoint = await manager.createCheckpoint('before')
+    await write('a.txt', 'two\n')
+    await write('new/dir/b.txt', 'created\n')
+
+    await manager.restoreCheckpoint(checkpoint)
+
+    expect(await read('a.txt')).toBe('one\n')
+    await expect(fs.access(path.join(workspace, 'new'))).rejects.toThrow()
+  })
+
+  it('restores single files and diffs checkpoints', async () => {
+    await write('a.txt', 'one\n')
+    const before = await manager.createCheckpoint('before', { messageId: 'm1' })
+    await write('a.txt', 'two\n')
+    await write('b.txt', 'new\n')
+    const after = await manager.createCheckpoint('after')
+
+    const diff = await manager.compareCheckpoints(before, after)
+    expect(diff).toMatchObject({ added: ['b.txt'], modified: ['a.txt'], deleted: [] })
+    expect(diff.details.find(detail => detail.path === 'a.txt')).toMatchObject({ oldContent: 'one\n', newContent: 'two\n', additions: 1, deletions: 1 })
+
+    await manager.restoreFile(before, 'a.txt')
+    await manager.restoreFile(before, 'b.txt')
+    expect(await read('a.txt')).toBe('one\n')
+    await expect(read('b.txt')).rejects.toThrow()
+    expect((await manager.compareWithCurrent(before)).details).toEqual([])
+    await expect(manager.restoreFile(before, '../outside.txt')).rejects.toThrow('outside the workspace')
+  })
+
+  it('finds checkpoints from other agents in the same workspace', async () => {
+    await write('a.txt', 'one\n')
+    const id = await manager.createCheckpoint('from agent 1', { messageId: 'm1' })
+
+    const other = new CheckpointManager(workspace, 'agent-2')
+    try {
+      const [loaded] = await other.loadCheckpoints()
+      expect(loaded).toMatchObject({ id, description: 'from agent 1', agentId: 'agent-1', metadata: { messageId: 'm1' } })
+
+      await other.deleteCheckpoint(id)
+      expect(await new CheckpointManager(workspace, 'agent-3').loadCheckpoints()).toEqual([])
+    } finally {
+      other.dispose()
+    }
+  })
+
+  it('cleans up expired checkpoints but keeps recent ones', async () => {
+    await write('a.txt', 'old\n')
+    const now = Date.now()
+    vi.spyOn(Date, 'now').mockReturnValue(now - 8 * 24 * 60 * 60 * 1000)
+    const expired = await manager.createCheckpoint('expired')
+    vi.mocked(Date.now).mockReturnValue(now)
+    await write('a.txt', 'recent\n')
+    const recent = await manager.createCheckpoint('recent')
+
+    const completed = vi.fn()
+    manager.on('cleanup_completed', completed)
+    await manager.cleanup()
+
+    expect(completed).toHaveBeenCalledWith({ deleted: 1 })
+    expect(manager.getCheckpoints().map(checkpoint => checkpoint.id)).toEqual([recent])
+    expect(manager.getCheckpoint(expired)).toBeUndefined()
+  })
+})
@@ -1,342 +1,335 @@
 import { EventEmitter } from 'events'
 import * as fs from 'fs/promises'
 import * as path from 'path'
-import crypto from 'crypto'
+import { ShadowGit } from './ShadowGit'
+import { parseUnifiedDiff } from '../advanced/diff/UnifiedDiff'
+import type { UnifiedHunk } from '../advanced/diff/UnifiedDiff'
 
+// Checkpoints are commits in a shadow git repository (see ShadowGit), one ref per checkpoint
 export interface Checkpoint {
-  id: string
+  id: string // commit hash
   timestamp: number
   description: string
   agentId: string
   workspacePath: string
-  files: Array<{
-    path: string
-    content: string
-    hash: string
-  }>
-  metadata?: Record<string, any>
+  metadata?: Record<string, any> // e.g. the tool call and chat message that produced it
+}
+
+export interface CheckpointFileDiff {
+  path: string
+  type: 'added' | 'modified' | 'deleted'
+  oldContent?: string
+  newContent?: string
+  binary?: boolean // no contents or hunks are included for binary files
+  hunks: UnifiedHunk[] // line-level changes; lines are prefixed with ' ', '-' or '+'
+  additions: number
+  deletions: number
 }
 
 export interface CheckpointDiff {
   added: string[]
   modified: string[]
   deleted: string[]
-  details: Array<{
-    path: string
-    type: 'added' | 'modified' | 'deleted'
-    oldContent?: string
-    newContent?: string
-  }>
+  details: CheckpointFileDiff[]
 }
 
+const CURRENT_STATE = 'current'
+// The shadow repository belongs to the workspace, so every agent working in it shares these refs. Earlier
+// versions nested them under the agent's ID; those are still found and cleaned up.
+const REF_PREFIX = 'refs/checkpoints/'
+
 export class CheckpointManager extends EventEmitter {
   private workspacePath: string
   private agentId: string
-  private checkpointsDir: string
+  private git: ShadowGit
   private checkpoints: Map<string, Checkpoint> = new Map()
-  
+  // Refs pointing at each checkpoint, so ones from older layouts can be deleted too
+  private refs: Map<string, string[]> = new Map()
+  private loaded?: Promise<void>
+  // Git operations share one index, so they run one at a time
+  private queue: Promise<unknown> = Promise.resolve()
+
   constructor(workspacePath: string, agentId: string) {
     super()
     this.workspacePath = workspacePath
     this.agentId = agentId
-    this.checkpointsDir = path.join(workspacePath, '.mominai', 'checkpoints')
-    
-    this.initialize()
-  }
-  
-  private async initialize(): Promise<void> {
-    try {
-      await fs.mkdir(this.checkpointsDir, { recursive: true })
-      await this.loadExistingCheckpoints()
-    } catch (error) {
-      console.error('Failed to initialize checkpoint manager:', error)
-    }
-  }
-  
-  private async loadExistingCheckpoints(): Promise<void> {
-    try {
-      const files = await fs.readdir(this.checkpointsDir)
-      
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const checkpointPath = path.join(this.checkpointsDir, file)
-          const content = await fs.readFile(checkpointPath, 'utf-8')
-          const checkpoint: Checkpoint = JSON.parse(content)
-          
-          if (checkpoint.agentId === this.agentId) {
-            this.checkpoints.set(checkpoint.id, checkpoint)
-          }
-        }
-      }
-    } catch (error) {
-      // Directory might not exist yet
-    }
-  }
-  
-  public async createCheckpoint(description?: string): Promise<string> {
-    const checkpointId = crypto.randomUUID()
-    const timestamp = Date.now()
-    
-    try {
-      // Scan workspace for files
-      const files = await this.scanWorkspaceFiles()
-      
-      const checkpoint: Checkpoint = {
-        id: checkpointId,
-        timestamp,
-        description: description || `Checkpoint ${new Date(timestamp).toISOString()}`,
-        agentId: this.agentId,
-        workspacePath: this.workspacePath,
-        files
-      }
-      
-      // Save checkpoint to disk
-      const checkpointPath = path.join(this.checkpointsDir, `${checkpointId}.json`)
-      await fs.writeFile(checkpointPath, JSON.stringify(checkpoint, null, 2))
-      
-      // Store in memory
-      this.checkpoints.set(checkpointId, checkpoint)
-      
-      this.emit('checkpoint_created', checkpoint)
-      
-      return checkpointId
-    } catch (error) {
-      this.emit('checkpoint_error', error)
-      throw error
-    }
+    this.git = new ShadowGit(workspacePath, agentId)
   }
-  
-  private async scanWorkspaceFiles(): Promise<Array<{ path: string; content: string; hash: string }>> {
-    const files: Array<{ path: string; content: string; hash: string }> = []
-    
-    await this.scanDirectory(this.workspacePath, files)
-    
-    return files
-  }
-  
-  private async scanDirectory(dir: string, files: Array<{ path: string; content: string; hash: string }>): Promise<void> {
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true })
-      
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name)
-        
-        // Skip certain directories and files
-        if (this.shouldSkip(entry.name, fullPath)) {
-          continue
+
+  // Returns the new checkpoint's ID, or the latest checkpoint's ID when nothing changed since it
+  public async createCheckpoint(description?: string, metadata?: Record<string, any>): Promise<string> {
+    return this.enqueue(async () => {
+      const timestamp = Date.now()
+
+      try {
+        const tree = await this.git.writeWorkspaceTree()
+
+        const latest = this.getCheckpoints()[0]
+        if (latest && await this.git.getTree(latest.id) === tree) {
+          return latest.id
         }
-        
-        if (entry.isDirectory()) {
-          await this.scanDirectory(fullPath, files)
-        } else if (entry.isFile()) {
-          try {
-            const content = await fs.readFile(fullPath, 'utf-8')
-            const relativePath = path.relative(this.workspacePath, fullPath)
-            const hash = crypto.createHash('sha256').update(content).digest('hex')
-            
-            files.push({
-              path: relativePath,
-              content,
-              hash
-            })
-          } catch (error) {
-            // Skip files that can't be read (binary files, permission issues, etc.)
-          }
+
+        const checkpoint: Omit<Checkpoint, 'id'> = {
+          timestamp,
+          description: description || `Checkpoint ${new Date(timestamp).toISOString()}`,
+          agentId: this.agentId,
+          workspacePath: this.workspacePath,
+          metadata
         }
+        const id = await this.git.commitTree(tree, formatCommitMessage(checkpoint))
+        await this.git.updateRef(REF_PREFIX + id, id)
+        this.refs.set(id, [REF_PREFIX + id])
+
+        const created = { id, ...checkpoint }
+        this.checkpoints.set(id, created)
+        this.emit('checkpoint_created', created)
+
+        return id
+      } catch (error) {
+        this.emit('checkpoint_error', error)
+        throw error
       }
-    } catch (error) {
-      // Skip directories that can't be read
-    }
-  }
-  
-  private shouldSkip(name: string, fullPath: string): boolean {
-    const skipPatterns = [
-      /^\.git$/,
-      /^node_modules$/,
-      /^\.mominai$/,
-      /^dist$/,
-      /^build$/,
-      /^coverage$/,
-      /^\.next$/,
-      /^\.nuxt$/,
-      /^\.vscode$/,
-      /^\.idea$/,
-      /^\./  // Hidden files
-    ]
-    
-    return skipPatterns.some(pattern => pattern.test(name))
+    })
   }
-  
+
+  // Put the workspace back the way it was at the checkpoint, including removing files created since
   public async restoreCheckpoint(checkpointId: string): Promise<void> {
-    const checkpoint = this.checkpoints.get(checkpointId)
-    
-    if (!checkpoint) {
-      throw new Error(`Checkpoint ${checkpointId} not found`)
-    }
-    
-    try {
-      // Get current state for comparison
-      const currentFiles = await this.scanWorkspaceFiles()
-      const currentFileMap = new Map(currentFiles.map(f => [f.path, f]))
-      
-      // Restore files from checkpoint
-      for (const file of checkpoint.files) {
-        const fullPath = path.join(this.workspacePath, file.path)
-        
-        // Ensure directory exists
-        await fs.mkdir(path.dirname(fullPath), { recursive: true })
-        
-        // Write file content
-        await fs.writeFile(fullPath, file.content, 'utf-8')
+    const checkpoint = this.requireCheckpoint(checkpointId)
+
+    await this.enqueue(async () => {
+      try {
+        const currentTree = await this.git.writeWorkspaceTree()
+        const created = (await this.git.diffNames(checkpoint.id, currentTree)).filter(change => change.status === 'A')
+
+        await this.git.checkoutTree(checkpoint.id)
+        for (const change of created) {
+          await this.removeWorkspaceFile(change.path)
+        }
+
+        this.emit('checkpoint_restored', checkpoint)
+      } catch (error) {
+        this.emit('checkpoint_error', error)
+        throw error
       }
-      
-      // Remove files that weren't in the checkpoint
-      for (const [filePath] of currentFileMap) {
-        const existsInCheckpoint = checkpoint.files.some(f => f.path === filePath)
-        
-        if (!existsInCheckpoint) {
-          const fullPath = path.join(this.workspacePath, filePath)
-          try {
-            await fs.unlink(fullPath)
-          } catch (error) {
-            // File might already be deleted
-          }
+    })
+  }
+
+  // Restore one file; a file the checkpoint doesn't have is deleted
+  public async restoreFile(checkpointId: string, filePath: string): Promise<void> {
+    const checkpoint = this.requireCheckpoint(checkpointId)
+    const relativePath = this.toRelativePath(filePath)
+
+    await this.enqueue(async () => {
+      try {
+        const content = await this.git.readFile(checkpoint.id, relativePath)
+        const fullPath = path.join(this.workspacePath, relativePath)
+
+        if (content === null) {
+          await this.removeWorkspaceFile(relativePath)
+        } else {
+          await fs.mkdir(path.dirname(fullPath), { recursive: true })
+          await fs.writeFile(fullPath, content)
         }
+
+        this.emit('file_restored', { checkpoint, path: relativePath })
+      } catch (error) {
+        this.emit('checkpoint_error', error)
+        throw error
       }
-      
-      this.emit('checkpoint_restored', checkpoint)
-    } catch (error) {
-      this.emit('checkpoint_error', error)
-      throw error
-    }
+    })
   }
-  
+
   public async compareCheckpoints(checkpointId1: string, checkpointId2: string): Promise<CheckpointDiff> {
-    const checkpoint1 = this.checkpoints.get(checkpointId1)
-    const checkpoint2 = this.checkpoints.get(checkpointId2)
-    
-    if (!checkpoint1 || !checkpoint2) {
-      throw new Error('One or both checkpoints not found')
-    }
-    
-    return this.calculateDiff(checkpoint1, checkpoint2)
+    const checkpoint1 = this.requireCheckpoint(checkpointId1)
+    const checkpoint2 = this.requireCheckpoint(checkpointId2)
+
+    return this.enqueue(() => this.calculateDiff(checkpoint1.id, checkpoint2.id))
   }
-  
+
   public async compareWithCurrent(checkpointId: string): Promise<CheckpointDiff> {
-    const checkpoint = this.checkpoints.get(checkpointId)
-    
-    if (!checkpoint) {
-      throw new Error(`Checkpoint ${checkpointId} not found`)
-    }
-    
-    const currentFiles = await this.scanWorkspaceFiles()
-    const currentCheckpoint: Checkpoint = {
-      id: 'current',
-      timestamp: Date.now(),
-      description: 'Current state',
-      agentId: this.agentId,
-      workspacePath: this.workspacePath,
-      files: currentFiles
-    }
-    
-    return this.calculateDiff(checkpoint, currentCheckpoint)
+    const checkpoint = this.requireCheckpoint(checkpointId)
+
+    return this.enqueue(async () => {
+      const currentTree = await this.git.writeWorkspaceTree()
+      return this.calculateDiff(checkpoint.id, currentTree, CURRENT_STATE)
+    })
   }
-  
-  private calculateDiff(checkpoint1: Checkpoint, checkpoint2: Checkpoint): CheckpointDiff {
-    const files1 = new Map(checkpoint1.files.map(f => [f.path, f]))
-    const files2 = new Map(checkpoint2.files.map(f => [f.path, f]))
-    
+
+  // to is a commit or tree; contents of the current state are read from the workspace
+  private async calculateDiff(from: string, to: string, toLabel?: string): Promise<CheckpointDiff> {
+    const changes = await this.git.diffNames(from, to)
+    const patches = parseUnifiedDiff(await this.git.diffPatch(from, to))
+    const patchesByPath = new Map(patches.map(patch => [patch.newPath ?? patch.oldPath, patch]))
+
     const added: string[] = []
     const modified: string[] = []
     const deleted: string[] = []
     const details: CheckpointDiff['details'] = []
-    
-    // Find added and modified files
-    for (const [path, file2] of files2) {
-      const file1 = files1.get(path)
-      
-      if (!file1) {
-        added.push(path)
-        details.push({
-          path,
-          type: 'added',
-          newContent: file2.content
-        })
-      } else if (file1.hash !== file2.hash) {
-        modified.push(path)
-        details.push({
-          path,
-          type: 'modified',
-          oldContent: file1.content,
-          newContent: file2.content
-        })
+
+    for (const change of changes) {
+      const type = change.status === 'A' ? 'added' : change.status === 'D' ? 'deleted' : 'modified'
+      const patch = patchesByPath.get(change.path)
+      const hunks = patch?.hunks ?? []
+      const binary = patch?.isBinary ?? false
+
+      const detail: CheckpointFileDiff = {
+        path: change.path,
+        type,
+        hunks,
+        additions: countLines(hunks, '+'),
+        deletions: countLines(hunks, '-')
       }
-    }
-    
-    // Find deleted files
-    for (const [path, file1] of files1) {
-      if (!files2.has(path)) {
-        deleted.push(path)
-        details.push({
-          path,
-          type: 'deleted',
-          oldContent: file1.content
-        })
+
+      if (binary) {
+        detail.binary = true
+      } else {
+        if (type !== 'added') {
+          detail.oldContent = (await this.git.readFile(from, change.path))?.toString('utf-8')
+        }
+        if (type !== 'deleted') {
+          detail.newContent = toLabel === CURRENT_STATE
+            ? await fs.readFile(path.join(this.workspacePath, change.path), 'utf-8').catch(() => undefined)
+            : (await this.git.readFile(to, change.path))?.toString('utf-8')
+        }
       }
+
+      ;({ added, modified, deleted })[type].push(change.path)
+      details.push(detail)
     }
-    
+
     return { added, modified, deleted, details }
   }
-  
+
   public getCheckpoints(): Checkpoint[] {
     return Array.from(this.checkpoints.values()).sort((a, b) => b.timestamp - a.timestamp)
   }
-  
+
   public getCheckpoint(checkpointId: string): Checkpoint | undefined {
     return this.checkpoints.get(checkpointId)
   }
-  
-  public async deleteCheckpoint(checkpointId: string): Promise<void> {
-    const checkpoint = this.checkpoints.get(checkpointId)
-    
-    if (!checkpoint) {
-      throw new Error(`Checkpoint ${checkpointId} not found`)
-    }
-    
-    try {
-      // Delete from disk
-      const checkpointPath = path.join(this.checkpointsDir, `${checkpointId}.json`)
-      await fs.unlink(checkpointPath)
-      
-      // Remove from memory
-      this.checkpoints.delete(checkpointId)
-      
-      this.emit('checkpoint_deleted', checkpoint)
-    } catch (error) {
-      this.emit('checkpoint_error', error)
-      throw error
+
+  // Checkpoints left in the workspace's shadow repository by earlier runs
+  public async loadCheckpoints(): Promise<Checkpoint[]> {
+    if (!this.loaded) {
+      this.loaded = this.enqueue(async () => {
+        for (const { ref, commit, message } of await this.git.listRefs(REF_PREFIX)) {
+          const checkpoint = parseCommitMessage(commit, message, this.workspacePath)
+          if (!checkpoint) continue
+          this.checkpoints.set(checkpoint.id, checkpoint)
+          this.refs.set(commit, [...(this.refs.get(commit) ?? []), ref])
+        }
+      })
     }
+    await this.loaded
+    return this.getCheckpoints()
   }
-  
+
+  public async deleteCheckpoint(checkpointId: string): Promise<void> {
+    const checkpoint = this.requireCheckpoint(checkpointId)
+
+    await this.enqueue(async () => {
+      try {
+        for (const ref of this.refs.get(checkpoint.id) ?? [REF_PREFIX + checkpoint.id]) {
+          await this.git.deleteRef(ref)
+        }
+        this.checkpoints.delete(checkpointId)
+        this.refs.delete(checkpointId)
+
+        this.emit('checkpoint_deleted', checkpoint)
+      } catch (error) {
+        this.emit('checkpoint_error', error)
+        throw error
+      }
+    })
+  }
+
+  // Drops old checkpoints from every run in the workspace and prunes whatever content only they were using, once
+  // it is old enough that no other agent can still be using it (see ShadowGit.prune)
   public async cleanup(maxAge: number = 7 * 24 * 60 * 60 * 1000): Promise<void> {
+    await this.loadCheckpoints()
     const now = Date.now()
     const checkpointsToDelete: string[] = []
-    
+
     for (const [id, checkpoint] of this.checkpoints) {
       if (now - checkpoint.timestamp > maxAge) {
         checkpointsToDelete.push(id)
       }
     }
-    
+
     for (const id of checkpointsToDelete) {
       await this.deleteCheckpoint(id)
     }
-    
+
+    if (checkpointsToDelete.length > 0) {
+      await this.enqueue(() => this.git.prune())
+    }
+
     this.emit('cleanup_completed', { deleted: checkpointsToDelete.length })
   }
-  
+
   public dispose(): void {
     this.removeAllListeners()
     this.checkpoints.clear()
+    this.refs.clear()
+    // Checkpoints stay in the shadow repository; only this agent's staging index goes
+    this.enqueue(() => this.git.removeIndex()).catch(() => {})
+  }
+
+  private requireCheckpoint(checkpointId: string): Checkpoint {
+    const checkpoint = this.checkpoints.get(checkpointId)
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${checkpointId} not found`)
+    }
+    return checkpoint
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation)
+    this.queue = result.catch(() => {})
+    return result
+  }
+
+  private toRelativePath(filePath: string): string {
+    const fullPath = path.resolve(this.workspacePath, filePath)
+    const relativePath = path.relative(this.workspacePath, fullPath)
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(`${filePath} is outside the workspace`)
+    }
+    return relativePath.split(path.sep).join('/')
   }
-}
\ No newline at end of file
+
+  // Removes the file and any directories left empty by it
+  private async removeWorkspaceFile(relativePath: string): Promise<void> {
+    await fs.rm(path.join(this.workspacePath, relativePath), { force: true })
+
+    let dir = path.dirname(relativePath)
+    while (dir !== '.' && dir !== '') {
+      try {
+        await fs.rmdir(path.join(this.workspacePath, dir))
+      } catch {
+        break // Not empty
+      }
+      dir = path.dirname(dir)
+    }
+  }
+}
+
+// The first line is the description; the rest holds the fields git doesn't keep
+function formatCommitMessage(checkpoint: Omit<Checkpoint, 'id'>): string {
+  const { description, timestamp, agentId, metadata } = checkpoint
+  return `${description.split('\n')[0]}\n\n${JSON.stringify({ description, timestamp, agentId, metadata })}\n`
+}
+
+function parseCommitMessage(id: string, message: string, workspacePath: string): Checkpoint | undefined {
+  const body = message.slice(message.indexOf('\n\n') + 2).trim()
+  try {
+    const { description, timestamp, agentId, metadata } = JSON.parse(body)
+    return { id, description, timestamp, agentId, workspacePath, metadata }
+  } catch {
+    return undefined
+  }
+}
+
+function countLines(hunks: UnifiedHunk[], prefix: '+' | '-'): number {
+  return hunks.reduce((total, hunk) => total + hunk.lines.filter(line => line.startsWith(prefix)).length, 0)
+}
@@ -0,0 +1,81 @@
+import { execFileSync } from 'child_process'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { SHADOW_GIT_DIR, ShadowGit } from './ShadowGit'
+
+describe('ShadowGit', () => {
+  let workspace: string
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'shadow-git-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(workspace, file)), { recursive: true })
+    await fs.writeFile(path.join(workspace, file), content)
+  }
+
+  it('snapshots the workspace without touching the user\'s repository or excluded folders', async () => {
+    execFileSync('git', ['init', '--quiet', workspace])
+    await write('src/a.ts', 'a')
+    await write('node_modules/pkg/index.js', 'ignored')
+    const git = new ShadowGit(workspace, 'agent')
+
+    const commit = await git.commitTree(await git.writeWorkspaceTree(), 'first')
+
+    expect((await git.readFile(commit, 'src/a.ts'))?.toString()).toBe('a')
+    expect(await git.readFile(commit, 'node_modules/pkg/index.js')).toBeNull()
+    expect(execFileSync('git', ['status', '--porcelain'], { cwd: workspace, encoding: 'utf-8' })).not.toContain('.mominai')
+    expect(await fs.readFile(path.join(workspace, SHADOW_GIT_DIR, '..', '.gitignore'), 'utf-8')).toBe('*\n')
+  })
+
+  it('lists refs with their messages and diffs commits', async () => {
+    await write('a.txt', 'one\n')
+    const git = new ShadowGit(workspace, 'agent')
+    const first = await git.commitTree(await git.writeWorkspaceTree(), 'first\n\nbody')
+    await write('a.txt', 'two\n')
+    await write('b.txt', 'new\n')
+    const second = await git.commitTree(await git.writeWorkspaceTree(), 'second')
+    await git.updateRef('refs/checkpoints/one', first)
+    await git.updateRef('refs/checkpoints/two', second)
+
+    expect(await git.listRefs('refs/checkpoints/')).toEqual([
+      { ref: 'refs/checkpoints/one', commit: first, message: 'first\n\nbody' },
+      { ref: 'refs/checkpoints/two', commit: second, message: 'second' }
+    ])
+    expect(await git.diffNames(first, second)).toEqual([{ status: 'M', path: 'a.txt' }, { status: 'A', path: 'b.txt' }])
+    expect(await git.diffPatch(first, second, ['a.txt'])).toContain('-one\n+two')
+
+    await git.deleteRef('refs/checkpoints/one')
+    expect((await git.listRefs('refs/checkpoints/')).map(entry => entry.ref)).toEqual(['refs/checkpoints/two'])
+  })
+
+  it('keeps recently written objects when pruning, even without a ref', async () => {
+    await write('a.txt', 'unreferenced\n')
+    const git = new ShadowGit(workspace, 'agent')
+    const commit = await git.commitTree(await git.writeWorkspaceTree(), 'not referenced yet')
+
+    await git.prune()
+
+    expect((await git.readFile(commit, 'a.txt'))?.toString()).toBe('unreferenced\n')
+  })
+
+  it('gives every index its own staging area in the shared object store', async () => {
+    await write('a.txt', 'shared\n')
+    const first = new ShadowGit(workspace, 'first')
+    const second = new ShadowGit(workspace, 'second')
+
+    const tree = await first.writeWorkspaceTree()
+    expect(await second.writeWorkspaceTree()).toBe(tree)
+
+    await first.removeIndex()
+    await expect(fs.access(path.join(first.gitDir, 'index-first'))).rejects.toThrow()
+    await expect(fs.access(path.join(second.gitDir, 'index-second'))).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,197 @@
+// Shadow git repository for checkpoints. It has its own git dir under .mominai and uses the workspace as its
+// work tree, so the user's .git, index and HEAD are never read or written. Only plumbing commands are used and
+// each caller stages into its own index file, so several agents can share the object store.
+import { execFile } from 'child_process'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+export const SHADOW_GIT_DIR = path.join('.mominai', 'checkpoints', 'shadow.git')
+
+// Never snapshotted, on top of whatever the workspace's .gitignore files exclude
+const EXCLUDE_PATTERNS = [
+  '.git/',
+  '.mominai/',
+  'node_modules/',
+  'dist/',
+  'build/',
+  'coverage/',
+  '.next/',
+  '.nuxt/',
+  '.DS_Store'
+]
+
+// Unreferenced objects younger than this are kept: another agent sharing the store may have written them and
+// not yet pointed a ref at them, or still have them staged in its index
+const PRUNE_GRACE = '2.weeks.ago'
+
+const GIT_TIMEOUT_MS = 120000
+const GIT_MAX_BUFFER = 256 * 1024 * 1024
+
+export class ShadowGitError extends Error {
+  constructor(message: string, public args: string[]) {
+    super(message)
+    this.name = 'ShadowGitError'
+  }
+}
+
+export interface TreeChange {
+  status: 'A' | 'M' | 'D' | 'T'
+  path: string
+}
+
+export class ShadowGit {
+  public readonly gitDir: string
+  private indexFile: string
+  private initialized?: Promise<void>
+
+  constructor(private workspacePath: string, indexName: string) {
+    this.gitDir = path.join(workspacePath, SHADOW_GIT_DIR)
+    this.indexFile = path.join(this.gitDir, `index-${indexName}`)
+  }
+
+  // Stage the whole workspace into this instance's index and return the tree it describes
+  public async writeWorkspaceTree(): Promise<string> {
+    await this.git(['add', '--all', '--ignore-errors', '--', '.'])
+    return (await this.git(['write-tree'])).trim()
+  }
+
+  // Checkpoint commits have no parents - the object store dedupes their content and unused ones can be pruned
+  public async commitTree(tree: string, message: string): Promise<string> {
+    return (await this.git(['commit-tree', tree, '-F', '-'], message)).trim()
+  }
+
+  public async updateRef(ref: string, commit: string): Promise<void> {
+    await this.git(['update-ref', ref, commit])
+  }
+
+  public async deleteRef(ref: string): Promise<void> {
+    await this.git(['update-ref', '-d', ref])
+  }
+
+  public async listRefs(prefix: string): Promise<Array<{ ref: string; commit: string; message: string }>> {
+    const output = await this.git(['for-each-ref', '--format=%(refname)%00%(objectname)%00%(contents)%1e', prefix])
+    return output
+      .split('\x1e')
+      .map(entry => entry.replace(/^\n/, ''))
+      .filter(Boolean)
+      .map(entry => {
+        const [ref, commit] = entry.split('\0', 2)
+        return { ref, commit, message: entry.slice(ref.length + commit.length + 2) }
+      })
+  }
+
+  public async getTree(commit: string): Promise<string> {
+    return (await this.git(['rev-parse', `${commit}^{tree}`])).trim()
+  }
+
+  public async diffNames(from: string, to: string): Promise<TreeChange[]> {
+    const fields = (await this.git(['diff-tree', '-r', '-z', '--no-renames', '--name-status', from, to])).split('\0')
+    const changes: TreeChange[] = []
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      changes.push({ status: fields[i] as TreeChange['status'], path: fields[i + 1] })
+    }
+    return changes
+  }
+
+  // Unified diff between two trees
+  public async diffPatch(from: string, to: string, paths: string[] = []): Promise<string> {
+    return this.git(['diff-tree', '-r', '-p', '--no-renames', '--no-color', '--no-ext-diff', from, to, '--', ...paths])
+  }
+
+  // File content as stored in a commit or tree, or null if the file is not in it
+  public async readFile(treeish: string, filePath: string): Promise<Buffer | null> {
+    try {
+      return await this.gitBuffer(['cat-file', 'blob', `${treeish}:${filePath}`])
+    } catch {
+      return null
+    }
+  }
+
+  // Write every file of the commit into the workspace. Files the commit doesn't have are left alone.
+  public async checkoutTree(commit: string): Promise<void> {
+    await this.git(['read-tree', commit])
+    await this.git(['checkout-index', '--all', '--force'])
+  }
+
+  public async prune(): Promise<void> {
+    await this.git(['gc', `--prune=${PRUNE_GRACE}`, '--quiet'])
+  }
+
+  public async removeIndex(): Promise<void> {
+    await fs.rm(this.indexFile, { force: true })
+  }
+
+  private ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = (async () => {
+        try {
+          await fs.access(path.join(this.gitDir, 'HEAD'))
+        } catch {
+          await fs.mkdir(this.gitDir, { recursive: true })
+          await runGit(['init', '--bare', '--quiet', this.gitDir], this.workspacePath, process.env)
+        }
+        await fs.mkdir(path.join(this.gitDir, 'info'), { recursive: true })
+        await fs.writeFile(path.join(this.gitDir, 'info', 'exclude'), EXCLUDE_PATTERNS.join('\n') + '\n', 'utf-8')
+        // Keeps the shadow repository out of the user's own git status
+        await fs.writeFile(path.join(path.dirname(this.gitDir), '.gitignore'), '*\n', 'utf-8')
+      })().catch(error => {
+        this.initialized = undefined
+        throw error
+      })
+    }
+    return this.initialized
+  }
+
+  private async git(args: string[], input?: string): Promise<string> {
+    return (await this.gitBuffer(args, input)).toString('utf-8')
+  }
+
+  private async gitBuffer(args: string[], input?: string): Promise<Buffer> {
+    await this.ensureInitialized()
+    return runGit(this.withRepo(args), this.workspacePath, this.getEnv(), input)
+  }
+
+  private withRepo(args: string[]): string[] {
+    return [
+      `--git-dir=${this.gitDir}`,
+      `--work-tree=${this.workspacePath}`,
+      '-c', 'core.autocrlf=false',
+      '-c', 'core.quotepath=false',
+      '-c', 'core.safecrlf=false',
+      ...args
+    ]
+  }
+
+  // GIT_* variables from the user's shell (GIT_DIR, GIT_INDEX_FILE...) would point git at their repository
+  private getEnv(): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {}
+    for (const [key, value] of Object.entries(process.env)) {
+      if (!key.startsWith('GIT_')) env[key] = value
+    }
+    return {
+      ...env,
+      GIT_INDEX_FILE: this.indexFile,
+      GIT_AUTHOR_NAME: 'MominAI',
+      GIT_AUTHOR_EMAIL: 'checkpoints@mominai.local',
+      GIT_COMMITTER_NAME: 'MominAI',
+      GIT_COMMITTER_EMAIL: 'checkpoints@mominai.local'
+    }
+  }
+}
+
+function runGit(args: string[], cwd: string, env: NodeJS.ProcessEnv, input?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('git', args, { cwd, env, encoding: 'buffer', maxBuffer: GIT_MAX_BUFFER, timeout: GIT_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error) {
+        const message = stderr.toString('utf-8').trim() || error.message
+        const command = args.find(arg => !arg.startsWith('-') && !arg.includes('=')) ?? 'git'
+        reject(new ShadowGitError(`git ${command} failed: ${message}`, args))
+        return
+      }
+      resolve(stdout)
+    })
+    if (input !== undefined) {
+      child.stdin?.end(input)
+    }
+  })
+}
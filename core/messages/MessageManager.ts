@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events'
 import crypto from 'crypto'
+import { TokenizerService } from '../tokenizer/TokenizerService'
 
 export interface Message {
   id: string
@@ -108,10 +109,8 @@ export class MessageManager extends EventEmitter {
       }))
   }
   
-  public getTokenCount(): number {
-    // Simple token estimation - can be enhanced with actual tokenizers
-    const totalText = this.messages.map(m => m.content).join(' ')
-    return Math.ceil(totalText.length / 4)
+  public getTokenCount(modelId?: string): number {
+    return TokenizerService.instance.countMessageTokens(this.messages, modelId)
   }
   
   public exportMessages(): string {
@@ -137,7 +136,7 @@ export class MessageManager extends EventEmitter {
     }
   }
   
-  public getMessageStats(): {
+  public getMessageStats(modelId?: string): {
     total: number
     byType: Record<string, number>
     totalTokens: number
@@ -155,7 +154,7 @@ export class MessageManager extends EventEmitter {
     return {
       total: this.messages.length,
       byType,
-      totalTokens: this.getTokenCount(),
+      totalTokens: this.getTokenCount(modelId),
       timespan
     }
   }
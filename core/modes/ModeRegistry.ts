@@ -0,0 +1,155 @@
+// Built-in modes plus the workspace's custom modes from .mominai/modes.json
+//
+// { "customModes": [{ "slug": "docs", "name": "Docs Writer", "roleDefinition": "You are a technical writer...",
+//   "groups": ["read", ["edit", { "fileRegex": "^docs/.*\\.md$", "description": "Docs only" }]] }] }
+//
+// A custom mode with a built-in slug replaces the built-in one.
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { DEFAULT_MODES, TOOL_GROUPS } from './modes'
+import type { ModeConfig, ToolGroup, ToolGroupEntry } from './modes'
+
+export const MODES_FILE = path.join('.mominai', 'modes.json')
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+export class ModeRegistry {
+  private customModes: ModeConfig[] = []
+  private errors: string[] = []
+  private fileMtime = -1
+
+  constructor(private workspacePath?: string) {}
+
+  public async getModes(): Promise<ModeConfig[]> {
+    await this.load()
+    const customSlugs = new Set(this.customModes.map(mode => mode.slug))
+    return [...DEFAULT_MODES.filter(mode => !customSlugs.has(mode.slug)), ...this.customModes]
+  }
+
+  public async getMode(slug: string): Promise<ModeConfig | undefined> {
+    return (await this.getModes()).find(mode => mode.slug === slug)
+  }
+
+  // Problems found in modes.json the last time it was read - bad entries are skipped
+  public async getErrors(): Promise<string[]> {
+    await this.load()
+    return [...this.errors]
+  }
+
+  // Re-read the file whenever it changes so edits take effect on the next turn
+  private async load(): Promise<void> {
+    if (!this.workspacePath) return
+    const filePath = path.join(this.workspacePath, MODES_FILE)
+
+    let mtime = 0
+    try {
+      mtime = (await fs.stat(filePath)).mtimeMs
+    } catch {
+      // No custom modes
+    }
+
+    if (mtime === this.fileMtime) return
+    this.fileMtime = mtime
+    this.customModes = []
+    this.errors = []
+    if (!mtime) return
+
+    let data: any
+    try {
+      const raw = await fs.readFile(filePath, 'utf-8')
+      data = raw.trim() ? JSON.parse(raw) : {}
+    } catch (error) {
+      this.errors.push(`${MODES_FILE}: invalid JSON - ${error.message}`)
+      return
+    }
+
+    const entries = data.customModes ?? []
+    if (!Array.isArray(entries)) {
+      this.errors.push(`${MODES_FILE}: "customModes" must be an array`)
+      return
+    }
+
+    const seen = new Set<string>()
+    for (const entry of entries) {
+      const result = parseModeEntry(entry)
+      if (typeof result === 'string') {
+        this.errors.push(`${MODES_FILE}: ${result}`)
+      } else if (seen.has(result.slug)) {
+        this.errors.push(`${MODES_FILE}: mode "${result.slug}" is defined more than once`)
+      } else {
+        seen.add(result.slug)
+        this.customModes.push(result)
+      }
+    }
+  }
+}
+
+function parseModeEntry(entry: any): ModeConfig | string {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return 'every mode must be an object'
+  }
+
+  const label = typeof entry.slug === 'string' ? `mode "${entry.slug}"` : 'a mode'
+  const problems: string[] = []
+
+  if (typeof entry.slug !== 'string' || !SLUG_PATTERN.test(entry.slug)) {
+    problems.push('"slug" must be lowercase letters, digits and dashes')
+  }
+  if (typeof entry.name !== 'string' || !entry.name.trim()) problems.push('"name" is required')
+  if (typeof entry.roleDefinition !== 'string' || !entry.roleDefinition.trim()) problems.push('"roleDefinition" is required')
+  if (entry.customInstructions !== undefined && typeof entry.customInstructions !== 'string') {
+    problems.push('"customInstructions" must be a string')
+  }
+
+  const groups: ToolGroupEntry[] = []
+  if (!Array.isArray(entry.groups)) {
+    problems.push(`"groups" must be an array of ${Object.keys(TOOL_GROUPS).join(', ')}`)
+  } else {
+    for (const group of entry.groups) {
+      const { entry: groupEntry, error } = parseGroupEntry(group)
+      if (groupEntry) {
+        groups.push(groupEntry)
+      } else {
+        problems.push(error!)
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    return `${label}: ${problems.join('; ')}`
+  }
+
+  return {
+    slug: entry.slug,
+    name: entry.name.trim(),
+    roleDefinition: entry.roleDefinition.trim(),
+    customInstructions: entry.customInstructions?.trim() || undefined,
+    groups,
+    source: 'project'
+  }
+}
+
+function parseGroupEntry(group: any): { entry?: ToolGroupEntry; error?: string } {
+  if (typeof group === 'string') {
+    return isToolGroup(group) ? { entry: group } : { error: `unknown tool group "${group}"` }
+  }
+
+  if (!Array.isArray(group) || group[0] !== 'edit' || !group[1] || typeof group[1] !== 'object') {
+    return { error: 'only the edit group takes options, written as ["edit", { "fileRegex": "..." }]' }
+  }
+
+  const { fileRegex, description } = group[1]
+  if (typeof fileRegex !== 'string') return { error: '"fileRegex" must be a string' }
+  try {
+    new RegExp(fileRegex)
+  } catch (error) {
+    return { error: `invalid fileRegex "${fileRegex}": ${error.message}` }
+  }
+  if (description !== undefined && typeof description !== 'string') return { error: '"description" must be a string' }
+
+  return { entry: ['edit', { fileRegex, description }] }
+}
+
+function isToolGroup(value: string): value is ToolGroup {
+  return Object.prototype.hasOwnProperty.call(TOOL_GROUPS, value)
+}
@@ -0,0 +1,99 @@
+// Agent modes - each mode has its own role, instructions and set of tools
+import type { ToolName } from '../tools'
+
+export type ToolGroup = 'read' | 'edit' | 'command' | 'browser' | 'mcp'
+
+export interface EditRestriction {
+  fileRegex: string // matched against workspace-relative paths with forward slashes
+  description?: string // shown to the model, e.g. "Markdown files only"
+}
+
+// A group on its own, or the edit group limited to some files
+export type ToolGroupEntry = ToolGroup | ['edit', EditRestriction]
+
+export interface ModeConfig {
+  slug: string
+  name: string
+  roleDefinition: string // replaces the opening line of the system prompt
+  customInstructions?: string
+  groups: ToolGroupEntry[]
+  source?: 'builtin' | 'project'
+}
+
+export const TOOL_GROUPS: Record<ToolGroup, ToolName[]> = {
+  read: ['read_file', 'list_files', 'search_files', 'codebase_search'],
+  edit: ['write_file', 'apply_diff', 'generate_image'],
+  command: ['execute_command', 'read_process_output', 'send_process_input', 'kill_process'],
+  browser: ['browser_action'],
+  mcp: ['use_mcp_tool']
+}
+
+// Every mode can talk to the user, delegate and change mode
+export const ALWAYS_AVAILABLE_TOOLS: ToolName[] = ['ask_followup', 'attempt_completion', 'new_task', 'switch_mode']
+
+export const DEFAULT_MODE_SLUG = 'code'
+
+export const DEFAULT_MODES: ModeConfig[] = [
+  {
+    slug: 'architect',
+    name: 'Architect',
+    roleDefinition: 'You are MominAI, an experienced software architect who investigates a codebase and plans changes before any code is written.',
+    customInstructions: 'Gather context with the read tools, ask clarifying questions where the request is ambiguous, and write the plan as a markdown file. ' +
+      'Once the user agrees with the plan, use switch_mode to hand over to code mode for the implementation.',
+    groups: ['read', ['edit', { fileRegex: '\\.md$', description: 'Markdown files only' }], 'browser', 'mcp'],
+    source: 'builtin'
+  },
+  {
+    slug: 'code',
+    name: 'Code',
+    roleDefinition: 'You are MominAI, a highly skilled software engineer working inside the user\'s workspace.',
+    groups: ['read', 'edit', 'command', 'browser', 'mcp'],
+    source: 'builtin'
+  },
+  {
+    slug: 'debug',
+    name: 'Debug',
+    roleDefinition: 'You are MominAI, an expert at tracking down the root cause of bugs and fixing them.',
+    customInstructions: 'Reproduce the problem first, list the likely causes and confirm the real one with logs or a failing command before you change anything. ' +
+      'Keep fixes minimal and verify them by re-running what failed.',
+    groups: ['read', 'edit', 'command', 'browser', 'mcp'],
+    source: 'builtin'
+  },
+  {
+    slug: 'ask',
+    name: 'Ask',
+    roleDefinition: 'You are MominAI, a knowledgeable technical assistant who answers questions about code and software development.',
+    customInstructions: 'Answer from the code in the workspace where you can, and quote the relevant parts. Do not change any files - ' +
+      'if the user wants changes made, suggest switching to code mode.',
+    groups: ['read', 'browser', 'mcp'],
+    source: 'builtin'
+  }
+]
+
+export function getGroupName(entry: ToolGroupEntry): ToolGroup {
+  return typeof entry === 'string' ? entry : entry[0]
+}
+
+export function getAllowedTools(mode: ModeConfig): string[] {
+  const tools = new Set<string>(ALWAYS_AVAILABLE_TOOLS)
+  for (const entry of mode.groups) {
+    for (const tool of TOOL_GROUPS[getGroupName(entry)]) tools.add(tool)
+  }
+  return Array.from(tools)
+}
+
+export function isToolAllowed(mode: ModeConfig, toolName: string): boolean {
+  return getAllowedTools(mode).includes(toolName)
+}
+
+export function getEditRestriction(mode: ModeConfig): EditRestriction | undefined {
+  const entry = mode.groups.find(group => getGroupName(group) === 'edit')
+  return Array.isArray(entry) ? entry[1] : undefined
+}
+
+// True when the mode may write to the file (paths are workspace-relative)
+export function canEditFile(mode: ModeConfig, filePath: string): boolean {
+  const restriction = getEditRestriction(mode)
+  if (!restriction) return isToolAllowed(mode, 'write_file')
+  return new RegExp(restriction.fileRegex).test(filePath.replace(/\\/g, '/').replace(/^\.\//, ''))
+}
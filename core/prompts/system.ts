@@ -0,0 +1,116 @@
+// System prompt for the agent loop - tools are invoked with XML-style tags
+import type { McpServer } from '../advanced/mcp/McpHub'
+import { DEFAULT_MODES, DEFAULT_MODE_SLUG, getAllowedTools, getEditRestriction } from '../modes/modes'
+import type { ModeConfig } from '../modes/modes'
+import { getToolDefinitions } from '../tools/ToolRegistry'
+import type { ToolDefinition } from '../tools/ToolRegistry'
+
+// Worked examples for the XML format - descriptions and parameters come from the tool registry
+const XML_EXAMPLES: Partial<Record<string, string>> = {
+  browser_action: `<browser_action>
+<action>navigate</action>
+<url>index.html</url>
+</browser_action>`,
+  use_mcp_tool: `<use_mcp_tool>
+<server_name>weather</server_name>
+<tool_name>get_forecast</tool_name>
+<arguments>{"city": "Helsinki", "days": 3}</arguments>
+</use_mcp_tool>`,
+  new_task: `<new_task>
+<mode>code</mode>
+<message>Add input validation to the signup form in src/components/SignupForm.tsx. Emails must be valid and passwords at least 12 characters.</message>
+<todos>
+- [ ] Validate the email field
+- [ ] Validate the password field
+- [ ] Show inline error messages
+</todos>
+</new_task>`,
+  switch_mode: `<switch_mode>
+<mode_slug>code</mode_slug>
+<reason>The plan is approved and ready to implement</reason>
+</switch_mode>`
+}
+
+// nativeTools: the provider gets the tool schemas directly, so the prompt leaves out the XML format
+export function getSystemPrompt(
+  workspacePath: string,
+  mcpServers: McpServer[] = [],
+  mode: ModeConfig = DEFAULT_MODES.find(builtin => builtin.slug === DEFAULT_MODE_SLUG)!,
+  modes: ModeConfig[] = DEFAULT_MODES,
+  nativeTools = false
+): string {
+  const allowedTools = getAllowedTools(mode)
+  const toolUse = nativeTools
+    ? `# Tool Use
+
+Call tools through the function calling interface - the available tools and their parameters are provided with each request.`
+    : `# Tool Use Formatting
+
+Tool calls are written as XML-style tags. The tool name is the outer tag and each parameter is a nested tag:
+
+<read_file>
+<path>src/index.ts</path>
+</read_file>
+
+Only the tools below are recognised. To put text containing a parameter's own closing tag into it, wrap the value in <![CDATA[ ... ]]>.
+
+# Tools
+
+${getToolDefinitions(allowedTools).map(formatXmlTool).join('\n\n')}`
+
+  return `${mode.roleDefinition}
+
+You accomplish tasks step by step by calling tools. Use exactly one tool per message and wait for its result before continuing. The result of each tool call is sent back to you in the next message.
+
+${toolUse}
+
+# Rules
+
+- The workspace directory is: ${workspacePath}
+- Every message you send must contain a tool call. If you have nothing left to do, call attempt_completion.
+- Do not assume a tool call succeeded - check its result first.
+${getModesSection(mode, modes)}${allowedTools.includes('use_mcp_tool') ? getMcpServersSection(mcpServers) : ''}`
+}
+
+function formatXmlTool(tool: ToolDefinition): string {
+  const required = tool.parameters.required ?? []
+  const parameters = Object.entries(tool.parameters.properties).map(([name, schema]) => {
+    const values = schema.enum ? ` - one of ${schema.enum.join(', ')}` : ''
+    const json = schema.type === 'object' ? ' (as JSON)' : ''
+    return `- ${name} (${required.includes(name) ? 'required' : 'optional'}) - ${schema.description}${json}${values}`
+  })
+
+  const example = XML_EXAMPLES[tool.name]
+  return [
+    `## ${tool.name}`,
+    tool.description,
+    parameters.length > 0 ? `Parameters:\n${parameters.join('\n')}` : 'Parameters: none',
+    example ? `Example:\n${example}` : ''
+  ].filter(Boolean).join('\n')
+}
+
+function getModesSection(mode: ModeConfig, modes: ModeConfig[]): string {
+  const restriction = getEditRestriction(mode)
+  const lines = [`You are in ${mode.name} mode (${mode.slug}). Only this mode's tools can be called - use switch_mode if you need others.`]
+  if (restriction) {
+    lines.push(`In this mode you may only edit files matching ${restriction.fileRegex}${restriction.description ? ` (${restriction.description})` : ''}.`)
+  }
+  lines.push('', 'Available modes:', ...modes.map(other => `- ${other.slug}: ${other.name}${other.slug === mode.slug ? ' (current)' : ''}`))
+
+  const instructions = mode.customInstructions ? `\n# Mode Instructions\n\n${mode.customInstructions}\n` : ''
+  return `\n# Modes\n\n${lines.join('\n')}\n${instructions}`
+}
+
+function getMcpServersSection(mcpServers: McpServer[]): string {
+  const connected = mcpServers.filter(server => server.status === 'connected' && server.tools.length > 0)
+  if (connected.length === 0) return ''
+
+  const servers = connected.map(server => {
+    const tools = server.tools
+      .map(tool => `- ${tool.name}: ${tool.description || 'No description'}\n  Input schema: ${JSON.stringify(tool.inputSchema)}`)
+      .join('\n')
+    return `## ${server.name}\n\n${tools}`
+  })
+
+  return `\n# MCP Servers\n\nThese servers are connected. Use their tools with use_mcp_tool.\n\n${servers.join('\n\n')}\n`
+}
@@ -1,4 +1,6 @@
 import { EventEmitter } from 'events'
+import { XmlToolParser } from '../tools/XmlToolParser'
+import type { ToolUse } from '../tools/XmlToolParser'
 
 export interface StreamChunk {
   type: 'text' | 'reasoning' | 'usage' | 'error' | 'tool_use'
@@ -10,7 +12,7 @@ export interface StreamChunk {
 export interface StreamResponse {
   content: string
   reasoning?: string
-  toolUses?: Array<{ name: string; args: any }>
+  toolUses?: ToolUse[]
   usage?: {
     inputTokens: number
     outputTokens: number
@@ -22,22 +24,29 @@ export class StreamProcessor extends EventEmitter {
   private agent: any
   private currentContent = ''
   private currentReasoning = ''
-  private toolUses: Array<{ name: string; args: any }> = []
+  private toolUses: ToolUse[] = []
   private usage?: any
+  private xmlParser?: XmlToolParser
   
   constructor(agent: any) {
     super()
     this.agent = agent
   }
   
-  public async processStream(stream: AsyncIterable<StreamChunk>): Promise<StreamResponse | null> {
+  // Pass xmlTools when the provider has no native tool calling - tool calls are then read out of the text as it streams
+  public async processStream(stream: AsyncIterable<StreamChunk>, options: { xmlTools?: boolean } = {}): Promise<StreamResponse | null> {
     this.reset()
+    this.xmlParser = options.xmlTools ? new XmlToolParser() : undefined
     
     try {
       for await (const chunk of stream) {
         await this.processChunk(chunk)
       }
       
+      if (this.xmlParser) {
+        this.xmlParser.end().forEach(toolUse => this.addToolUse(toolUse))
+      }
+      
       return {
         content: this.currentContent,
         reasoning: this.currentReasoning,
@@ -56,6 +65,7 @@ export class StreamProcessor extends EventEmitter {
         if (chunk.text) {
           this.currentContent += chunk.text
           this.emit('text_chunk', chunk.text)
+          this.xmlParser?.push(chunk.text).forEach(toolUse => this.addToolUse(toolUse))
         }
         break
         
@@ -73,8 +83,7 @@ export class StreamProcessor extends EventEmitter {
         
       case 'tool_use':
         if (chunk.data) {
-          this.toolUses.push(chunk.data)
-          this.emit('tool_use', chunk.data)
+          this.addToolUse(chunk.data)
         }
         break
         
@@ -84,6 +93,11 @@ export class StreamProcessor extends EventEmitter {
     }
   }
   
+  private addToolUse(toolUse: ToolUse): void {
+    this.toolUses.push(toolUse)
+    this.emit('tool_use', toolUse)
+  }
+  
   private reset(): void {
     this.currentContent = ''
     this.currentReasoning = ''
@@ -99,7 +113,7 @@ export class StreamProcessor extends EventEmitter {
     return this.currentReasoning
   }
   
-  public getToolUses(): Array<{ name: string; args: any }> {
+  public getToolUses(): ToolUse[] {
     return [...this.toolUses]
   }
   
@@ -0,0 +1,94 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { OutputBuffer, TerminalManager } from './TerminalManager'
+import type { ProcessInfo } from './TerminalManager'
+
+describe('TerminalManager', () => {
+  let workspace: string
+  let manager: TerminalManager
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'terminal-manager-'))
+    manager = new TerminalManager(workspace)
+  })
+
+  afterEach(async () => {
+    manager.dispose()
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  it('runs commands in the workspace and hands out each chunk of output once', async () => {
+    const { id } = manager.start('pwd; echo oops >&2; exit 3')
+    const info = await manager.waitForExit(id, 5000)
+
+    expect(info).toMatchObject({ status: 'exited', exitCode: 3 })
+    const { output } = manager.readOutput(id)
+    expect(output).toContain(await fs.realpath(workspace))
+    expect(output).toContain('oops')
+    expect(manager.readOutput(id).output).toBe('')
+    expect(manager.getFullOutput(id).output).toBe(output)
+  })
+
+  it('returns after the timeout while the process keeps running, and accepts input', async () => {
+    const { id } = manager.start('read line; echo "got $line"')
+
+    expect((await manager.waitForExit(id, 50)).status).toBe('running')
+    manager.sendInput(id, 'hello\n')
+
+    expect((await manager.waitForExit(id, 5000)).exitCode).toBe(0)
+    expect(manager.readOutput(id).output).toContain('got hello')
+    expect(() => manager.sendInput(id, 'again\n')).toThrow('is not accepting input')
+  })
+
+  it('kills the whole process group', async () => {
+    const { id } = manager.start('sleep 30 & sleep 30; wait')
+    manager.kill(id)
+
+    const info = await manager.waitForExit(id, 5000)
+    expect(info).toMatchObject({ status: 'killed', signal: 'SIGTERM' })
+    expect(manager.list().filter(process => process.status === 'running')).toEqual([])
+  })
+
+  it('emits exit once for a process that fails to start', async () => {
+    const exits: ProcessInfo[] = []
+    manager.on('exit', info => exits.push(info))
+
+    const { id } = manager.start('echo hi', { cwd: path.join(workspace, 'missing') })
+    await manager.waitForExit(id, 5000)
+    await new Promise(resolve => setTimeout(resolve, 100))
+
+    expect(exits).toHaveLength(1)
+    expect(manager.readOutput(id).output).toContain('Failed to start process')
+  })
+
+  it('forgets the oldest finished processes but never running ones', async () => {
+    const running = manager.start('sleep 30')
+    const ids: number[] = []
+    for (let index = 0; index < 21; index++) {
+      const { id } = manager.start('exit 0')
+      await manager.waitForExit(id, 5000)
+      ids.push(id)
+    }
+    await new Promise(resolve => setImmediate(resolve))
+
+    expect(manager.list()).toHaveLength(21)
+    expect(() => manager.readOutput(ids[0])).toThrow(`Process ${ids[0]} finished a while ago`)
+    expect(manager.readOutput(ids[1]).info.status).toBe('exited')
+    expect(manager.readOutput(running.id).info.status).toBe('running')
+    expect(() => manager.readOutput(999)).toThrow('No process with ID 999. Running processes: 1')
+  })
+})
+
+describe('OutputBuffer', () => {
+  it('keeps the start and the end of long output', () => {
+    const buffer = new OutputBuffer(5, 5)
+    buffer.append('12345')
+    buffer.append('abcdefghij')
+
+    expect(buffer.toString()).toBe('12345\n\n[... 5 characters truncated ...]\n\nfghij')
+    buffer.clear()
+    expect(buffer.isEmpty).toBe(true)
+  })
+})
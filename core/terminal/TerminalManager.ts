@@ -0,0 +1,322 @@
+// Managed shell processes - commands keep running in the background and are polled by ID
+import { EventEmitter } from 'events'
+import { spawn } from 'child_process'
+import type { ChildProcess } from 'child_process'
+
+export type ProcessStream = 'stdout' | 'stderr'
+export type ProcessStatus = 'running' | 'exited' | 'killed'
+
+export interface ProcessInfo {
+  id: number
+  command: string
+  cwd: string
+  pid?: number
+  status: ProcessStatus
+  exitCode: number | null
+  signal: string | null
+  startedAt: number
+  endedAt?: number
+}
+
+export interface ProcessOutput {
+  info: ProcessInfo
+  output: string
+}
+
+export interface TerminalManagerEvents {
+  'output': (processId: number, stream: ProcessStream, data: string) => void
+  'exit': (info: ProcessInfo) => void
+}
+
+// Unread output handed to the model - long logs keep their start (the command banner) and their end (the latest state)
+const UNREAD_HEAD_CHARS = 2_000
+const UNREAD_TAIL_CHARS = 8_000
+
+// Full history kept for the UI
+const HISTORY_HEAD_CHARS = 10_000
+const HISTORY_TAIL_CHARS = 40_000
+
+const KILL_GRACE_MS = 3000
+
+// Finished processes stay readable until this many newer ones have finished
+const MAX_FINISHED_PROCESSES = 20
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b\][^\x07]*(\x07|\x1b\\)/g
+
+export class OutputBuffer {
+  private head = ''
+  private tail = ''
+  private droppedChars = 0
+
+  constructor(private headLimit: number, private tailLimit: number) {}
+
+  public append(text: string): void {
+    if (this.head.length < this.headLimit) {
+      const room = this.headLimit - this.head.length
+      this.head += text.slice(0, room)
+      text = text.slice(room)
+    }
+    if (!text) return
+
+    this.tail += text
+    if (this.tail.length > this.tailLimit) {
+      this.droppedChars += this.tail.length - this.tailLimit
+      this.tail = this.tail.slice(-this.tailLimit)
+    }
+  }
+
+  public get isEmpty(): boolean {
+    return !this.head && !this.tail
+  }
+
+  public clear(): void {
+    this.head = ''
+    this.tail = ''
+    this.droppedChars = 0
+  }
+
+  public toString(): string {
+    if (!this.droppedChars) return this.head + this.tail
+    return `${this.head}\n\n[... ${this.droppedChars} characters truncated ...]\n\n${this.tail}`
+  }
+}
+
+class TerminalProcess {
+  public readonly info: ProcessInfo
+  public readonly exited: Promise<ProcessInfo>
+  private child: ChildProcess
+  private unread = new OutputBuffer(UNREAD_HEAD_CHARS, UNREAD_TAIL_CHARS)
+  private history = new OutputBuffer(HISTORY_HEAD_CHARS, HISTORY_TAIL_CHARS)
+  private killTimer?: ReturnType<typeof setTimeout>
+
+  constructor(id: number, command: string, cwd: string, env: NodeJS.ProcessEnv, private manager: TerminalManager) {
+    this.info = {
+      id,
+      command,
+      cwd,
+      status: 'running',
+      exitCode: null,
+      signal: null,
+      startedAt: Date.now()
+    }
+
+    // A separate process group lets kill() take down everything the shell started (npm -> node -> vite)
+    this.child = spawn(command, {
+      cwd,
+      env: { ...process.env, ...env, FORCE_COLOR: '0' },
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['pipe', 'pipe', 'pipe']
+    })
+    this.info.pid = this.child.pid
+
+    this.child.stdout?.setEncoding('utf-8')
+    this.child.stderr?.setEncoding('utf-8')
+    this.child.stdout?.on('data', (data: string) => this.handleOutput('stdout', data))
+    this.child.stderr?.on('data', (data: string) => this.handleOutput('stderr', data))
+    // Writes after the process has gone away surface here rather than as an unhandled error
+    this.child.stdin?.on('error', () => {})
+
+    this.exited = new Promise(resolve => {
+      // A process that fails to start can report both 'error' and 'close'
+      let finished = false
+      const finish = (code: number | null, signal: string | null) => {
+        if (finished) return
+        finished = true
+        if (this.info.status === 'running') {
+          this.info.status = 'exited'
+        }
+        this.info.exitCode = code
+        this.info.signal = signal
+        this.info.endedAt = Date.now()
+        clearTimeout(this.killTimer)
+        this.manager.emit('exit', { ...this.info })
+        resolve(this.info)
+      }
+
+      this.child.once('close', finish)
+      this.child.once('error', (error: Error) => {
+        this.handleOutput('stderr', `Failed to start process: ${error.message}\n`)
+        finish(null, null)
+      })
+    })
+  }
+
+  public get isRunning(): boolean {
+    return this.info.status === 'running'
+  }
+
+  public readUnread(): string {
+    const output = this.unread.toString()
+    this.unread.clear()
+    return output
+  }
+
+  public getHistory(): string {
+    return this.history.toString()
+  }
+
+  public write(input: string): void {
+    if (!this.isRunning || !this.child.stdin?.writable) {
+      throw new Error(`Process ${this.info.id} is not accepting input`)
+    }
+    this.child.stdin.write(input)
+  }
+
+  public kill(signal: NodeJS.Signals = 'SIGTERM'): void {
+    if (!this.isRunning) return
+    this.info.status = 'killed'
+    this.signalTree(signal)
+
+    // Escalate if the process ignores the polite signal
+    if (signal !== 'SIGKILL') {
+      this.killTimer = setTimeout(() => this.signalTree('SIGKILL'), KILL_GRACE_MS)
+      this.killTimer.unref?.()
+    }
+  }
+
+  private signalTree(signal: NodeJS.Signals): void {
+    const pid = this.child.pid
+    if (!pid) return
+
+    try {
+      if (process.platform === 'win32') {
+        spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' })
+      } else {
+        process.kill(-pid, signal)
+      }
+    } catch {
+      // Already gone
+    }
+  }
+
+  private handleOutput(stream: ProcessStream, data: string): void {
+    const text = data.replace(ANSI_PATTERN, '')
+    this.unread.append(text)
+    this.history.append(text)
+    this.manager.emit('output', this.info.id, stream, text)
+  }
+}
+
+// Background processes live in their own process groups, so they would outlive us otherwise.
+// One exit hook covers every manager, however many agents and subtasks create them.
+const liveManagers = new Set<TerminalManager>()
+let exitHookInstalled = false
+
+const killLiveProcesses = () => liveManagers.forEach(live => live.killAll('SIGKILL'))
+
+// Node skips 'exit' when a signal ends it, so signals get their own hook. Adding a listener stops the default
+// exit, so the signal is raised again unless someone else handles it.
+function onTerminatingSignal(signal: NodeJS.Signals): void {
+  killLiveProcesses()
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal)
+  }
+}
+
+function trackManager(manager: TerminalManager): void {
+  liveManagers.add(manager)
+  if (!exitHookInstalled) {
+    exitHookInstalled = true
+    process.once('exit', killLiveProcesses)
+    for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+      process.once(signal, onTerminatingSignal)
+    }
+  }
+}
+
+// Emits: 'output' (processId, stream, data), 'exit' (info: ProcessInfo)
+export class TerminalManager extends EventEmitter {
+  private processes = new Map<number, TerminalProcess>()
+  private nextId = 1
+
+  constructor(private workspacePath: string) {
+    super()
+    trackManager(this)
+  }
+
+  public start(command: string, options: { cwd?: string; env?: NodeJS.ProcessEnv } = {}): ProcessInfo {
+    const id = this.nextId++
+    const terminalProcess = new TerminalProcess(id, command, options.cwd ?? this.workspacePath, options.env ?? {}, this)
+    this.processes.set(id, terminalProcess)
+    terminalProcess.exited.then(() => this.pruneFinished())
+    return terminalProcess.info
+  }
+
+  // Resolve when the process exits or after timeoutMs, whichever comes first - the process keeps running either way
+  public async waitForExit(processId: number, timeoutMs: number): Promise<ProcessInfo> {
+    const terminalProcess = this.get(processId)
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const timeout = new Promise<ProcessInfo>(resolve => {
+      timer = setTimeout(() => resolve(terminalProcess.info), timeoutMs)
+    })
+
+    try {
+      return await Promise.race([terminalProcess.exited, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  // Output produced since the last read
+  public readOutput(processId: number): ProcessOutput {
+    const terminalProcess = this.get(processId)
+    return { info: { ...terminalProcess.info }, output: terminalProcess.readUnread() }
+  }
+
+  public getFullOutput(processId: number): ProcessOutput {
+    const terminalProcess = this.get(processId)
+    return { info: { ...terminalProcess.info }, output: terminalProcess.getHistory() }
+  }
+
+  public sendInput(processId: number, input: string): void {
+    this.get(processId).write(input)
+  }
+
+  public kill(processId: number, signal?: NodeJS.Signals): ProcessInfo {
+    const terminalProcess = this.get(processId)
+    terminalProcess.kill(signal)
+    return { ...terminalProcess.info }
+  }
+
+  public list(): ProcessInfo[] {
+    return Array.from(this.processes.values()).map(terminalProcess => ({ ...terminalProcess.info }))
+  }
+
+  public killAll(signal: NodeJS.Signals = 'SIGTERM'): void {
+    for (const terminalProcess of this.processes.values()) {
+      terminalProcess.kill(signal)
+    }
+  }
+
+  public dispose(): void {
+    this.killAll('SIGKILL')
+    liveManagers.delete(this)
+    this.removeAllListeners()
+    this.processes.clear()
+  }
+
+  private pruneFinished(): void {
+    const finished = Array.from(this.processes.values())
+      .filter(terminalProcess => !terminalProcess.isRunning)
+      .sort((a, b) => a.info.endedAt! - b.info.endedAt!)
+
+    for (const terminalProcess of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_PROCESSES))) {
+      this.processes.delete(terminalProcess.info.id)
+    }
+  }
+
+  private get(processId: number): TerminalProcess {
+    const terminalProcess = this.processes.get(processId)
+    if (!terminalProcess) {
+      const running = this.list().filter(info => info.status === 'running').map(info => info.id)
+      const forgotten = Number.isInteger(processId) && processId > 0 && processId < this.nextId
+      throw new Error(
+        (forgotten ? `Process ${processId} finished a while ago and its output is no longer kept. ` : `No process with ID ${processId}. `) +
+        (running.length ? `Running processes: ${running.join(', ')}` : 'No processes are running.')
+      )
+    }
+    return terminalProcess
+  }
+}
@@ -0,0 +1,48 @@
+import { countTokens as countO200kTokens } from 'gpt-tokenizer/encoding/o200k_base'
+import { countTokens as countCl100kTokens } from 'gpt-tokenizer/encoding/cl100k_base'
+import { describe, expect, it } from 'vitest'
+import { TokenizerService } from './TokenizerService'
+
+// Long and varied enough for o200k and cl100k to disagree
+const TEXT = 'export function greet(name: string) {\n  return `Hello, ${name}! Привет, 世界`\n}\n'
+
+describe('TokenizerService', () => {
+  const tokenizer = new TokenizerService()
+  const o200k = countO200kTokens(TEXT)
+  const cl100k = countCl100kTokens(TEXT)
+
+  it('picks the encoding that matches the model', () => {
+    expect(o200k).not.toBe(cl100k)
+
+    expect(tokenizer.countTokens(TEXT, 'gpt-4o-mini')).toBe(o200k)
+    expect(tokenizer.countTokens(TEXT, 'gpt-5')).toBe(o200k)
+    expect(tokenizer.countTokens(TEXT, 'o3-mini')).toBe(o200k)
+    expect(tokenizer.countTokens(TEXT, 'gpt-4-turbo')).toBe(cl100k)
+    expect(tokenizer.countTokens(TEXT, 'gpt-3.5-turbo')).toBe(cl100k)
+    expect(tokenizer.countTokens(TEXT, 'claude-sonnet-4')).toBe(Math.ceil(cl100k * 1.15))
+    expect(tokenizer.countTokens(TEXT, 'gemini-2.5-pro')).toBe(Math.ceil(o200k * 1.05))
+    expect(tokenizer.countTokens(TEXT, 'llama3.1:8b')).toBe(cl100k)
+    expect(tokenizer.countTokens(TEXT)).toBe(cl100k)
+  })
+
+  it('counts special-token lookalikes as plain text', () => {
+    expect(tokenizer.countTokens('<|endoftext|>', 'gpt-4o')).toBeGreaterThan(1)
+    expect(tokenizer.countTokens('', 'gpt-4o')).toBe(0)
+  })
+
+  it('counts content blocks, with a flat cost per image', () => {
+    const text = tokenizer.countTokens(TEXT, 'gpt-4o')
+
+    expect(tokenizer.countContentTokens([
+      { type: 'text', text: TEXT },
+      { type: 'image', source: { type: 'base64', data: 'A'.repeat(100000) } },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+    ], 'gpt-4o')).toBe(text + 2000)
+    expect(tokenizer.countContentTokens([TEXT, TEXT], 'gpt-4o')).toBe(2 * text)
+  })
+
+  it('adds the framing overhead of each message', () => {
+    const text = tokenizer.countTokens(TEXT, 'gpt-4o')
+    expect(tokenizer.countMessageTokens([{ content: TEXT }, { content: [{ type: 'text', text: TEXT }] }], 'gpt-4o')).toBe(2 * text + 8)
+  })
+})
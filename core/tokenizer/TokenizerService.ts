@@ -0,0 +1,80 @@
+// Shared token counting - BPE encoders for OpenAI-style models, calibrated heuristics elsewhere
+import { countTokens as countO200kTokens } from 'gpt-tokenizer/encoding/o200k_base'
+import { countTokens as countCl100kTokens } from 'gpt-tokenizer/encoding/cl100k_base'
+
+export type TokenEncoder = (text: string) => number
+
+// Treat special-token lookalikes (e.g. "<|endoftext|>" inside a file) as plain text
+const ENCODE_OPTIONS = { disallowedSpecial: new Set<string>() }
+
+// Per-message framing overhead (role markers), as in OpenAI's chat format
+const TOKENS_PER_MESSAGE = 4
+
+// Flat cost for an image block - roughly a high-detail tile on most providers
+const TOKENS_PER_IMAGE = 1000
+
+const o200k: TokenEncoder = text => countO200kTokens(text, ENCODE_OPTIONS)
+const cl100k: TokenEncoder = text => countCl100kTokens(text, ENCODE_OPTIONS)
+
+// Providers without a public tokenizer are approximated by scaling a known BPE
+const scaled = (encoder: TokenEncoder, factor: number): TokenEncoder =>
+  text => Math.ceil(encoder(text) * factor)
+
+const ENCODER_RULES: Array<{ pattern: RegExp; encoder: TokenEncoder }> = [
+  { pattern: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt-4o|o1|o3|o4)/i, encoder: o200k },
+  { pattern: /^(gpt-4|gpt-3\.5|text-embedding)/i, encoder: cl100k },
+  // Claude's tokenizer splits code noticeably finer than cl100k
+  { pattern: /claude/i, encoder: scaled(cl100k, 1.15) },
+  { pattern: /gemini|gemma/i, encoder: scaled(o200k, 1.05) }
+]
+
+export class TokenizerService {
+  private static _instance: TokenizerService
+  private encoderCache = new Map<string, TokenEncoder>()
+
+  static get instance(): TokenizerService {
+    if (!TokenizerService._instance) {
+      TokenizerService._instance = new TokenizerService()
+    }
+    return TokenizerService._instance
+  }
+
+  getEncoder(modelId?: string): TokenEncoder {
+    const key = modelId || ''
+    let encoder = this.encoderCache.get(key)
+
+    if (!encoder) {
+      // Unknown and local models (Llama, Qwen, Mistral...) are closest to cl100k
+      encoder = ENCODER_RULES.find(rule => rule.pattern.test(key))?.encoder ?? cl100k
+      this.encoderCache.set(key, encoder)
+    }
+
+    return encoder
+  }
+
+  countTokens(text: string, modelId?: string): number {
+    if (!text) return 0
+    return this.getEncoder(modelId)(text)
+  }
+
+  // Accepts plain strings or provider content blocks ({ type: 'text' | 'image', ... })
+  countContentTokens(content: string | Array<any>, modelId?: string): number {
+    if (typeof content === 'string') {
+      return this.countTokens(content, modelId)
+    }
+
+    return content.reduce((total, block) => {
+      if (typeof block === 'string') return total + this.countTokens(block, modelId)
+      if (block?.type === 'image' || block?.type === 'image_url') return total + TOKENS_PER_IMAGE
+      if (typeof block?.text === 'string') return total + this.countTokens(block.text, modelId)
+      return total + this.countTokens(JSON.stringify(block), modelId)
+    }, 0)
+  }
+
+  countMessageTokens(messages: Array<{ content: string | Array<any> }>, modelId?: string): number {
+    return messages.reduce(
+      (total, message) => total + TOKENS_PER_MESSAGE + this.countContentTokens(message.content, modelId),
+      0
+    )
+  }
+}
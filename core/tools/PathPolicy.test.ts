@@ -0,0 +1,103 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { IGNORE_FILE_NAME, PathPolicy, PathPolicyError } from './PathPolicy'
+
+describe('PathPolicy', () => {
+  let root: string
+  let workspace: string
+  let outside: string
+  let policy: PathPolicy
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'path-policy-')))
+    workspace = path.join(root, 'workspace')
+    outside = path.join(root, 'outside')
+    await fs.mkdir(path.join(workspace, 'src'), { recursive: true })
+    await fs.mkdir(outside)
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret')
+    policy = new PathPolicy(workspace)
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  const denied = (filePath: string, access: 'read' | 'write' = 'read') =>
+    expect(policy.resolve(filePath, access)).rejects.toBeInstanceOf(PathPolicyError)
+
+  it('resolves relative and absolute paths inside the workspace, including ones that do not exist yet', async () => {
+    expect(await policy.resolve('src/App.tsx', 'write')).toBe(path.join(workspace, 'src', 'App.tsx'))
+    expect(await policy.resolve('./src/../index.html', 'read')).toBe(path.join(workspace, 'index.html'))
+    expect(await policy.resolve(path.join(workspace, 'new', 'dir', 'file.ts'), 'write')).toBe(path.join(workspace, 'new', 'dir', 'file.ts'))
+    expect(await policy.resolve('.', 'read')).toBe(workspace)
+  })
+
+  it('rejects paths that leave the workspace', async () => {
+    await denied('../outside/secret.txt')
+    await denied('src/../../outside/secret.txt', 'write')
+    await denied(path.join(outside, 'secret.txt'))
+    await denied('/etc/passwd')
+    await denied(`${workspace}-sibling/file.txt`)
+  })
+
+  it('rejects empty paths and paths with NUL bytes', async () => {
+    await denied('')
+    await denied('src/a.ts\0.png')
+  })
+
+  it('follows symlinks to where they really point', async () => {
+    await fs.symlink(outside, path.join(workspace, 'linked-dir'))
+    await fs.symlink(path.join(outside, 'secret.txt'), path.join(workspace, 'linked-file'))
+    await fs.symlink(path.join(outside, 'created-by-write.txt'), path.join(workspace, 'dangling'))
+    await fs.symlink(path.join(workspace, 'src'), path.join(workspace, 'src-alias'))
+
+    await denied('linked-dir/secret.txt')
+    await denied('linked-file')
+    await denied('dangling', 'write')
+    expect(await policy.resolve('src-alias/App.tsx', 'write')).toBe(path.join(workspace, 'src-alias', 'App.tsx'))
+  })
+
+  it('keeps the agent out of .mominaiignore\'d files and directories', async () => {
+    await fs.mkdir(path.join(workspace, 'build'))
+    await fs.writeFile(path.join(workspace, IGNORE_FILE_NAME), '.env\nbuild/\n*.pem\n')
+
+    await denied('.env')
+    await denied('certs/server.pem', 'write')
+    await denied('build')
+    await denied('build/bundle.js')
+    expect(await policy.resolve('src/env.ts', 'read')).toBe(path.join(workspace, 'src', 'env.ts'))
+    expect(await policy.isIgnored(path.join(workspace, 'build'), true)).toBe(true)
+    expect(await policy.isIgnored(path.join(workspace, 'src'), true)).toBe(false)
+  })
+
+  it('checks ignored paths under their symlinked name and their real name', async () => {
+    await fs.mkdir(path.join(workspace, 'private'))
+    await fs.symlink(path.join(workspace, 'private'), path.join(workspace, 'public'))
+    await fs.writeFile(path.join(workspace, IGNORE_FILE_NAME), 'private/\n')
+
+    await denied('public/notes.txt')
+  })
+
+  it('picks up changes to the ignore file', async () => {
+    const ignoreFile = path.join(workspace, IGNORE_FILE_NAME)
+    await fs.writeFile(ignoreFile, 'notes.txt\n')
+    await denied('notes.txt')
+
+    await fs.writeFile(ignoreFile, '# nothing ignored\n')
+    await fs.utimes(ignoreFile, new Date(), new Date(Date.now() + 5000))
+    expect(await policy.resolve('notes.txt', 'read')).toBe(path.join(workspace, 'notes.txt'))
+  })
+
+  it('lets the agent read but not write the files that configure it, whatever their case', async () => {
+    for (const file of [IGNORE_FILE_NAME, '.mominai/approvals.json', '.mominai/mcp.json', '.mominai/modes.json']) {
+      expect(await policy.resolve(file, 'read')).toBe(path.join(workspace, file))
+      await denied(file, 'write')
+    }
+    await denied('.MOMINAIIGNORE', 'write')
+    await denied('.Mominai/MCP.json', 'write')
+    await denied('src/../.mominaiignore', 'write')
+    expect(await policy.resolve('.mominai/notes.md', 'write')).toBe(path.join(workspace, '.mominai', 'notes.md'))
+  })
+})
@@ -0,0 +1,144 @@
+// Workspace path policy - keeps file tools inside the workspace and away from .mominaiignore'd paths
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import ignore from 'ignore'
+import type { Ignore } from 'ignore'
+
+export const IGNORE_FILE_NAME = '.mominaiignore'
+
+// Files that widen what the agent may do - only the user gets to edit them. Compared in lower case, since
+// .MOMINAIIGNORE is the same file on case-insensitive filesystems.
+const PROTECTED_FILES = [IGNORE_FILE_NAME, '.mominai/approvals.json', '.mominai/mcp.json', '.mominai/modes.json']
+
+export type PathAccess = 'read' | 'write'
+
+export class PathPolicyError extends Error {
+  constructor(message: string, public filePath: string) {
+    super(message)
+    this.name = 'PathPolicyError'
+  }
+}
+
+export class PathPolicy {
+  private workspacePath: string
+  private realWorkspacePath?: string
+  private ignorer: Ignore = ignore()
+  private ignoreFileMtime = -1
+
+  constructor(workspacePath: string) {
+    this.workspacePath = path.resolve(workspacePath)
+  }
+
+  // Resolve a tool-supplied path, throwing PathPolicyError if the tool may not touch it
+  public async resolve(filePath: string, access: PathAccess): Promise<string> {
+    if (!filePath || filePath.includes('\0')) {
+      throw new PathPolicyError(`Invalid path: "${filePath ?? ''}"`, filePath)
+    }
+
+    const fullPath = path.resolve(this.workspacePath, filePath)
+    if (!isInside(this.workspacePath, fullPath)) {
+      throw new PathPolicyError(`Access denied: ${filePath} is outside the workspace`, filePath)
+    }
+
+    // Symlinks inside the workspace may point anywhere, so check where the path really lands
+    const workspaceRoot = await this.getRealWorkspacePath()
+    const realPath = await realpathAllowMissing(fullPath)
+    if (!isInside(workspaceRoot, realPath)) {
+      throw new PathPolicyError(`Access denied: ${filePath} resolves to ${realPath}, outside the workspace`, filePath)
+    }
+
+    await this.loadIgnoreFile()
+
+    const relativePath = toPosix(path.relative(workspaceRoot, realPath))
+    if (access === 'write' && PROTECTED_FILES.includes(relativePath.toLowerCase())) {
+      throw new PathPolicyError(`Access denied: ${relativePath} can only be changed by the user`, filePath)
+    }
+
+    // Directory patterns such as "build/" only match with the trailing slash
+    const suffix = await fs.stat(realPath).then(stats => stats.isDirectory() ? '/' : '', () => '')
+    const candidates = [relativePath, toPosix(path.relative(this.workspacePath, fullPath))]
+    if (candidates.some(candidate => candidate && this.isIgnoredRelative(candidate + suffix))) {
+      throw new PathPolicyError(`Access denied: ${filePath} is excluded by ${IGNORE_FILE_NAME}`, filePath)
+    }
+
+    return fullPath
+  }
+
+  // For directory walks - entries are already inside the workspace, only the ignore rules apply
+  public async isIgnored(fullPath: string, isDirectory = false): Promise<boolean> {
+    await this.loadIgnoreFile()
+    const relativePath = toPosix(path.relative(this.workspacePath, fullPath))
+    return this.isIgnoredRelative(isDirectory ? `${relativePath}/` : relativePath)
+  }
+
+  private isIgnoredRelative(relativePath: string): boolean {
+    if (!relativePath || relativePath === '/' || relativePath.startsWith('..')) return false
+    return this.ignorer.ignores(relativePath)
+  }
+
+  private async getRealWorkspacePath(): Promise<string> {
+    if (!this.realWorkspacePath) {
+      this.realWorkspacePath = await realpathAllowMissing(this.workspacePath)
+    }
+    return this.realWorkspacePath
+  }
+
+  // Re-read the ignore file whenever it changes so edits take effect without a restart
+  private async loadIgnoreFile(): Promise<void> {
+    const ignoreFilePath = path.join(this.workspacePath, IGNORE_FILE_NAME)
+
+    let mtime = 0
+    try {
+      mtime = (await fs.stat(ignoreFilePath)).mtimeMs
+    } catch {
+      // No ignore file
+    }
+
+    if (mtime === this.ignoreFileMtime) return
+    this.ignoreFileMtime = mtime
+
+    const ignorer = ignore()
+    if (mtime) {
+      ignorer.add(await fs.readFile(ignoreFilePath, 'utf-8'))
+    }
+    this.ignorer = ignorer
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/')
+}
+
+const MAX_SYMLINK_HOPS = 40
+
+// realpath for paths that may not exist yet (e.g. a file about to be written)
+async function realpathAllowMissing(fullPath: string): Promise<string> {
+  const missing: string[] = []
+  let current = fullPath
+  let hops = 0
+
+  while (true) {
+    try {
+      return path.join(await fs.realpath(current), ...missing)
+    } catch (error) {
+      const parent = path.dirname(current)
+      if (error.code !== 'ENOENT' || parent === current) throw error
+
+      // A dangling symlink would be followed by a write, so resolve its target rather than its name
+      const stats = await fs.lstat(current).catch(() => null)
+      if (stats?.isSymbolicLink()) {
+        if (++hops > MAX_SYMLINK_HOPS) throw new Error(`Too many symlinks resolving ${fullPath}`)
+        current = path.resolve(parent, await fs.readlink(current))
+        continue
+      }
+
+      missing.unshift(path.basename(current))
+      current = parent
+    }
+  }
+}
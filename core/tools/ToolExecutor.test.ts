@@ -0,0 +1,87 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ToolExecutor } from './ToolExecutor'
+
+describe('ToolExecutor apply_diff', () => {
+  let workspace: string
+  let executor: ToolExecutor
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-executor-'))
+    executor = new ToolExecutor(workspace, undefined)
+    executor.setAskFunction(async () => ({ response: 'yesButtonClicked' }))
+  })
+
+  afterEach(async () => {
+    executor.dispose()
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  const read = (file: string) => fs.readFile(path.join(workspace, file), 'utf-8')
+
+  it('renames a file from a git patch without hunks', async () => {
+    await fs.mkdir(path.join(workspace, 'src'))
+    await fs.writeFile(path.join(workspace, 'src', 'old.ts'), 'export const a = 1\n')
+
+    const result = await executor.executeTool('apply_diff', {
+      diff: 'diff --git a/src/old.ts b/src/new.ts\nsimilarity index 100%\nrename from src/old.ts\nrename to src/new.ts\n'
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.content).toContain('Renamed src/old.ts -> src/new.ts')
+    expect(await read('src/new.ts')).toBe('export const a = 1\n')
+    await expect(read('src/old.ts')).rejects.toThrow()
+  })
+
+  it('changes no file when one part of the patch is rejected', async () => {
+    await fs.writeFile(path.join(workspace, 'a.txt'), 'one\n')
+    await fs.writeFile(path.join(workspace, 'b.txt'), 'two\n')
+
+    const result = await executor.executeTool('apply_diff', {
+      diff: '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n--- a/b.txt\n+++ b/b.txt\n@@ -1 +1 @@\n-missing\n+TWO\n'
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.content).toContain('# Could not find the context for hunk 1')
+    expect(await read('a.txt')).toBe('one\n')
+  })
+
+  it('applies SEARCH/REPLACE blocks to several files', async () => {
+    await fs.writeFile(path.join(workspace, 'a.txt'), 'one\ntwo\n')
+
+    const result = await executor.executeTool('apply_diff', {
+      path: 'a.txt',
+      diff: '<<<<<<< SEARCH\ntwo\n=======\nTWO\n>>>>>>> REPLACE\n*** File: docs/new.md\n<<<<<<< SEARCH\n=======\n# New\n>>>>>>> REPLACE\n'
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.content).toContain('Patched a.txt (1 block)')
+    expect(result.content).toContain('Created docs/new.md (1 block)')
+    expect(await read('a.txt')).toBe('one\nTWO\n')
+    expect(await read('docs/new.md')).toBe('# New')
+  })
+
+  it('changes no file when a SEARCH block does not match', async () => {
+    await fs.writeFile(path.join(workspace, 'a.txt'), 'one\n')
+    await fs.writeFile(path.join(workspace, 'b.txt'), 'two\n')
+
+    const result = await executor.executeTool('apply_diff', {
+      diff: '*** File: a.txt\n<<<<<<< SEARCH\none\n=======\nONE\n>>>>>>> REPLACE\n' +
+        '*** File: b.txt\n<<<<<<< SEARCH\nsomething else entirely\n=======\nTWO\n>>>>>>> REPLACE\n'
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.content).toContain('# b.txt, block 2: No match found')
+    expect(result.content).toContain('Closest match at line 1')
+    expect(await read('a.txt')).toBe('one\n')
+  })
+
+  it('explains what it accepts when the diff is not a patch', async () => {
+    const result = await executor.executeTool('apply_diff', { path: 'a.txt', diff: 'make it better' })
+    expect(result.success).toBe(false)
+    expect(result.content).toContain('unified diff')
+    expect(result.content).toContain('SEARCH')
+  })
+})
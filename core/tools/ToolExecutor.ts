@@ -1,97 +1,133 @@
 import { EventEmitter } from 'events'
 import * as fs from 'fs/promises'
 import * as path from 'path'
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import { applyHunks, formatRejects, isUnifiedDiff, parseUnifiedDiff } from '../advanced/diff/UnifiedDiff'
+import type { FilePatch, HunkResult } from '../advanced/diff/UnifiedDiff'
+import { MultiFileSearchReplaceDiffStrategy, isSearchReplaceDiff } from '../advanced/diff/MultiFileSearchReplace'
+import type { DiffBlock, DiffBlockResult } from '../advanced/diff/MultiFileSearchReplace'
+import { PathPolicy } from './PathPolicy'
+import { TerminalManager } from '../terminal/TerminalManager'
+import type { ProcessInfo, ProcessStream } from '../terminal/TerminalManager'
+import { AutoApprovalHandler, DEFAULT_APPROVAL_SETTINGS } from '../approval/AutoApprovalHandler'
+import type { ApprovalRequest, ApprovalSettings, AskFunction } from '../approval/AutoApprovalHandler'
+import { McpHub } from '../advanced/mcp/McpHub'
+import { BrowserSession, BrowserActionError } from '../advanced/browser/BrowserSession'
+import type { BrowserActionResult } from '../advanced/browser/BrowserSession'
+import { StaticFileServer } from '../advanced/browser/StaticFileServer'
+import { parseTodos } from '../advanced/subtasks/SubtaskManager'
+import { ALWAYS_AVAILABLE_TOOLS, TOOL_GROUPS, canEditFile, getEditRestriction, isToolAllowed } from '../modes/modes'
+import type { ModeConfig } from '../modes/modes'
+import type { ToolUse } from './XmlToolParser'
 
-const execAsync = promisify(exec)
+// How long execute_command waits before leaving a command running in the background
+const COMMAND_WAIT_MS = 30000
+const BACKGROUND_STARTUP_MS = 3000
+
+// Tools that only talk to the user don't need approval
+const UNGATED_TOOLS = ['ask_followup', 'attempt_completion']
+
+const EDIT_TOOLS = ['write_file', 'apply_diff']
 
 export interface ToolResult {
   toolName: string
+  toolUseId?: string // the native tool call this answers
   content: string
   success: boolean
   error?: string
+  images?: string[] // data URLs sent to the model alongside content
 }
 
 export interface ToolExecutorEvents {
   'tool_use': (toolName: string, args: any) => void
   'tool_result': (result: ToolResult) => void
+  'process_output': (processId: number, stream: ProcessStream, data: string) => void
+  'process_exit': (info: ProcessInfo) => void
 }
 
 export class ToolExecutor extends EventEmitter {
   private workspacePath: string
   private agent: any
+  private pathPolicy: PathPolicy
+  public readonly terminalManager: TerminalManager
+  public readonly approvalHandler: AutoApprovalHandler
+  public readonly browserSession = new BrowserSession()
+  private staticFileServer: StaticFileServer
+  private approvalSettings: ApprovalSettings = { ...DEFAULT_APPROVAL_SETTINGS }
+  private askFunction?: AskFunction
+  private mode?: ModeConfig
+  private searchReplace = new MultiFileSearchReplaceDiffStrategy()
   
   constructor(workspacePath: string, agent: any) {
     super()
     this.workspacePath = workspacePath
     this.agent = agent
+    this.pathPolicy = new PathPolicy(workspacePath)
+    this.terminalManager = new TerminalManager(workspacePath)
+    this.approvalHandler = new AutoApprovalHandler(workspacePath)
+    this.staticFileServer = new StaticFileServer(this.pathPolicy)
+    
+    this.terminalManager.on('output', (processId: number, stream: ProcessStream, data: string) => {
+      this.emit('process_output', processId, stream, data)
+    })
+    this.terminalManager.on('exit', (info: ProcessInfo) => this.emit('process_exit', info))
   }
   
-  public async executeTools(content: string): Promise<ToolResult[]> {
+  // Tool uses come from native tool calls or from XmlToolParser
+  public async executeTools(toolUses: ToolUse[]): Promise<ToolResult[]> {
     const results: ToolResult[] = []
     
-    // Parse tool uses from content
-    const toolUses = this.parseToolUses(content)
-    
     for (const toolUse of toolUses) {
+      let result: ToolResult
       try {
   this.emit('tool_use', toolUse.name, toolUse.args)
         
-        const result = await this.executeTool(toolUse.name, toolUse.args)
-        results.push(result)
+        if (toolUse.partial) {
+          throw new Error('the tool call was cut off before all its parameters were closed - send it again in full')
+        }
         
-  this.emit('tool_result', result)
+        // Route through the agent so its overrides (repetition detection, telemetry) apply
+        result = this.agent
+          ? await this.agent.executeTool(toolUse.name, toolUse.args)
+          : await this.executeTool(toolUse.name, toolUse.args)
       } catch (error) {
-        const errorResult: ToolResult = {
+        result = {
           toolName: toolUse.name,
           content: `Error executing ${toolUse.name}: ${error.message}`,
           success: false,
           error: error.message
         }
-        results.push(errorResult)
-  this.emit('tool_result', errorResult)
       }
+      
+      result = { ...result, toolUseId: toolUse.id }
+      results.push(result)
+  this.emit('tool_result', result)
     }
     
     return results
   }
   
-  private parseToolUses(content: string): Array<{ name: string; args: any }> {
-    const toolUses: Array<{ name: string; args: any }> = []
-    
-    // Parse XML-style tool tags
-    const toolRegex = /<(\w+)>(.*?)<\/\1>/gs
-    let match
-    
-    while ((match = toolRegex.exec(content)) !== null) {
-      const toolName = match[1]
-      const toolContent = match[2].trim()
-      
-      // Parse arguments from tool content
-      const args = this.parseToolArgs(toolContent)
-      
-      toolUses.push({ name: toolName, args })
-    }
-    
-    return toolUses
+  public setAskFunction(askFunction: AskFunction | undefined): void {
+    this.askFunction = askFunction
   }
   
-  private parseToolArgs(content: string): any {
-    const args: any = {}
-    
-    // Parse nested XML tags for arguments
-    const argRegex = /<(\w+)>(.*?)<\/\1>/gs
-    let match
+  public setApprovalSettings(settings: Partial<ApprovalSettings>): void {
+    this.approvalSettings = { ...this.approvalSettings, ...settings }
+  }
+  
+  // Without a mode every tool is available
+  public setMode(mode: ModeConfig | undefined): void {
+    this.mode = mode
+  }
+  
+  public async executeTool(toolName: string, args: any): Promise<ToolResult> {
+    const blocked = this.checkMode(toolName, args)
+    if (blocked) return blocked
     
-    while ((match = argRegex.exec(content)) !== null) {
-      args[match[1]] = match[2].trim()
+    if (!UNGATED_TOOLS.includes(toolName)) {
+      const denied = await this.checkApproval(toolName, args)
+      if (denied) return denied
     }
     
-    return args
-  }
-  
-  private async executeTool(toolName: string, args: any): Promise<ToolResult> {
     switch (toolName) {
       case 'read_file':
         return this.readFile(args.path)
@@ -100,7 +136,16 @@ export class ToolExecutor extends EventEmitter {
         return this.writeFile(args.path, args.content)
       
       case 'execute_command':
-        return this.executeCommand(args.command)
+        return this.executeCommand(args.command, args.background === true || args.background === 'true')
+      
+      case 'read_process_output':
+        return this.readProcessOutput(Number(args.process_id))
+      
+      case 'send_process_input':
+        return this.sendProcessInput(Number(args.process_id), args.input ?? '')
+      
+      case 'kill_process':
+        return this.killProcess(Number(args.process_id))
       
       case 'list_files':
         return this.listFiles(args.path || '.')
@@ -111,6 +156,18 @@ export class ToolExecutor extends EventEmitter {
       case 'apply_diff':
         return this.applyDiff(args.path, args.diff)
       
+      case 'browser_action':
+        return this.browserAction(args)
+      
+      case 'use_mcp_tool':
+        return this.useMcpTool(args.server_name, args.tool_name, args.arguments)
+      
+      case 'new_task':
+        return this.newTask(args.mode, args.message, args.todos)
+      
+      case 'switch_mode':
+        return this.switchMode(args.mode_slug, args.reason)
+      
       case 'ask_followup':
         return this.askFollowup(args.question)
       
@@ -122,9 +179,141 @@ export class ToolExecutor extends EventEmitter {
     }
   }
   
+  // Refuses tools outside the current mode's groups and edits outside its file restriction
+  private checkMode(toolName: string, args: any): ToolResult | undefined {
+    const mode = this.mode
+    if (!mode) return undefined
+    
+    const knownTools: string[] = [...ALWAYS_AVAILABLE_TOOLS, ...Object.values(TOOL_GROUPS).flat()]
+    if (knownTools.includes(toolName) && !isToolAllowed(mode, toolName)) {
+      const error = `${toolName} is not available in ${mode.name} mode`
+      return {
+        toolName,
+        content: `${error}. Use switch_mode to move to a mode that allows it, or carry on with the tools this mode has.`,
+        success: false,
+        error
+      }
+    }
+    
+    const restriction = getEditRestriction(mode)
+    if (restriction && EDIT_TOOLS.includes(toolName)) {
+      const blockedFiles = this.getEditedFiles(toolName, args).filter(filePath => !canEditFile(mode, filePath))
+      if (blockedFiles.length > 0) {
+        const allowed = restriction.description ? `${restriction.description} (${restriction.fileRegex})` : restriction.fileRegex
+        const error = `${mode.name} mode can only edit files matching ${allowed}`
+        return {
+          toolName,
+          content: `${error}, so ${blockedFiles.join(', ')} cannot be changed. Use switch_mode to move to a mode that can edit it.`,
+          success: false,
+          error
+        }
+      }
+    }
+    
+    return undefined
+  }
+  
+  // Workspace-relative paths a write_file or apply_diff call would touch. Headers in a diff override its path,
+  // so the diff is parsed the same way applyDiff parses it.
+  private getEditedFiles(toolName: string, args: any): string[] {
+    const files: Array<string | null> = toolName === 'write_file'
+      ? [args.path]
+      : args.diff && isSearchReplaceDiff(args.diff)
+        ? this.safeParseBlocks(args.diff, args.path).map(block => block.targetPath)
+        : safeParseDiff(args.diff, args.path).flatMap(patch => [patch.oldPath, patch.newPath])
+    
+    return files
+      .filter((filePath): filePath is string => Boolean(filePath))
+      .map(filePath => path.relative(this.workspacePath, path.resolve(this.workspacePath, filePath)).split(path.sep).join('/'))
+  }
+  
+  // Returns a failed result when the call may not run, undefined when it may
+  private async checkApproval(toolName: string, args: any): Promise<ToolResult | undefined> {
+    // Without a UI there is nobody to ask, so anything needing approval is refused
+    const ask: AskFunction = this.askFunction ?? (async () => ({ response: 'noButtonClicked' }))
+    const { type, description, details } = this.describeToolCall(toolName, args)
+    
+    // Tools listed under alwaysAllow in mcp.json skip approval
+    if (toolName === 'use_mcp_tool' && McpHub.getInstance().isToolAlwaysAllowed(args.server_name || undefined, args.tool_name)) {
+      return undefined
+    }
+    
+    const limits = await this.approvalHandler.checkAutoApprovalLimits(this.approvalSettings, details, ask)
+    const approval = limits.shouldProceed
+      ? await this.approvalHandler.requestApproval(type, description, details, this.approvalSettings, ask)
+      : limits
+    
+    if (approval.shouldProceed) return undefined
+    
+    const hint = this.askFunction ? '' : ' No approval handler is configured - enable auto approval to run it.'
+    return {
+      toolName,
+      content: `The user denied this operation: ${description}.${hint} Do not retry it unchanged - ask the user how to proceed or take a different approach.`,
+      success: false,
+      error: approval.reason || 'Denied by user'
+    }
+  }
+  
+  private describeToolCall(toolName: string, args: any): {
+    type: ApprovalRequest['type']
+    description: string
+    details: any
+  } {
+    switch (toolName) {
+      case 'execute_command':
+        return { type: 'command', description: `Run command: ${args.command}`, details: { toolName, command: args.command } }
+      
+      case 'send_process_input':
+        return {
+          type: 'command',
+          description: `Send input to process ${args.process_id}: ${args.input}`,
+          details: { toolName, processId: args.process_id, command: args.input }
+        }
+      
+      case 'write_file':
+        return { type: 'file_operation', description: `Write ${args.path}`, details: { toolName, operation: 'write', path: args.path } }
+      
+      case 'apply_diff': {
+        // Headers in the diff decide what gets written, so rules are checked against every patched file
+        const files = Array.from(new Set(safeParseDiff(args.diff, args.path)
+          .flatMap(patch => [patch.oldPath, patch.newPath])
+          .filter((filePath): filePath is string => Boolean(filePath))))
+        return {
+          type: 'file_operation',
+          description: `Apply diff to ${files.join(', ') || 'files'}`,
+          details: { toolName, operation: 'write', path: files.length === 1 ? files[0] : '', files, diff: args.diff }
+        }
+      }
+      
+      case 'use_mcp_tool':
+        return {
+          type: 'tool_use',
+          description: `Use MCP tool ${args.server_name ? `${args.server_name}/` : ''}${args.tool_name}`,
+          details: { toolName, server: args.server_name, tool: args.tool_name, arguments: args.arguments }
+        }
+      
+      case 'new_task':
+        return {
+          type: 'tool_use',
+          description: `Start a ${args.mode ? `${args.mode} ` : ''}subtask: ${String(args.message ?? '').split('\n')[0]}`,
+          details: { toolName, mode: args.mode, message: args.message }
+        }
+      
+      case 'switch_mode':
+        return {
+          type: 'tool_use',
+          description: `Switch to ${args.mode_slug} mode${args.reason ? `: ${args.reason}` : ''}`,
+          details: { toolName, mode: args.mode_slug, reason: args.reason }
+        }
+      
+      default:
+        return { type: 'tool_use', description: `Use ${toolName}`, details: { toolName, ...args } }
+    }
+  }
+  
   private async readFile(filePath: string): Promise<ToolResult> {
     try {
-      const fullPath = path.resolve(this.workspacePath, filePath)
+      const fullPath = await this.pathPolicy.resolve(filePath, 'read')
       const content = await fs.readFile(fullPath, 'utf-8')
       
       return {
@@ -144,7 +333,7 @@ export class ToolExecutor extends EventEmitter {
   
   private async writeFile(filePath: string, content: string): Promise<ToolResult> {
     try {
-      const fullPath = path.resolve(this.workspacePath, filePath)
+      const fullPath = await this.pathPolicy.resolve(filePath, 'write')
       
       // Ensure directory exists
       await fs.mkdir(path.dirname(fullPath), { recursive: true })
@@ -166,19 +355,28 @@ export class ToolExecutor extends EventEmitter {
     }
   }
   
-  private async executeCommand(command: string): Promise<ToolResult> {
+  private async executeCommand(command: string, background = false): Promise<ToolResult> {
     try {
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: this.workspacePath,
-        timeout: 30000 // 30 second timeout
-      })
+      const { id } = this.terminalManager.start(command)
       
-      const output = stdout + (stderr ? `\nSTDERR:\n${stderr}` : '')
+      // Dev servers and watchers never exit, so stop waiting and hand back a process ID instead
+      const info = await this.terminalManager.waitForExit(id, background ? BACKGROUND_STARTUP_MS : COMMAND_WAIT_MS)
+      const { output } = this.terminalManager.readOutput(id)
       
+      if (info.status === 'running') {
+        return {
+          toolName: 'execute_command',
+          content: `Command: ${command}\n\nStill running as process ${id}. Use read_process_output to check on it, send_process_input to answer prompts and kill_process to stop it.\n\nOutput so far:\n${output}`,
+          success: true
+        }
+      }
+      
+      const exitCode = info.exitCode ?? info.signal
       return {
         toolName: 'execute_command',
-        content: `Command: ${command}\n\nOutput:\n${output}`,
-        success: true
+        content: `Command: ${command}\nExit code: ${exitCode}\n\nOutput:\n${output}`,
+        success: info.exitCode === 0,
+        error: info.exitCode === 0 ? undefined : `Command exited with ${exitCode}`
       }
     } catch (error) {
       return {
@@ -190,12 +388,83 @@ export class ToolExecutor extends EventEmitter {
     }
   }
   
+  private async readProcessOutput(processId: number): Promise<ToolResult> {
+    try {
+      const { info, output } = this.terminalManager.readOutput(processId)
+      const status = info.status === 'running' ? 'running' : `${info.status} (exit code ${info.exitCode ?? info.signal})`
+      
+      return {
+        toolName: 'read_process_output',
+        content: `Process ${processId} (${info.command}) is ${status}.\n\nNew output:\n${output || '(none)'}`,
+        success: true
+      }
+    } catch (error) {
+      return {
+        toolName: 'read_process_output',
+        content: `Error reading output of process ${processId}: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
+  }
+  
+  private async sendProcessInput(processId: number, input: string): Promise<ToolResult> {
+    try {
+      this.terminalManager.sendInput(processId, input.endsWith('\n') ? input : `${input}\n`)
+      
+      // Give the process a moment to react so the reply includes its response
+      await this.terminalManager.waitForExit(processId, 1000)
+      const { output } = this.terminalManager.readOutput(processId)
+      
+      return {
+        toolName: 'send_process_input',
+        content: `Sent input to process ${processId}.\n\nNew output:\n${output || '(none)'}`,
+        success: true
+      }
+    } catch (error) {
+      return {
+        toolName: 'send_process_input',
+        content: `Error sending input to process ${processId}: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
+  }
+  
+  private async killProcess(processId: number): Promise<ToolResult> {
+    try {
+      this.terminalManager.kill(processId)
+      const info = await this.terminalManager.waitForExit(processId, 5000)
+      const { output } = this.terminalManager.readOutput(processId)
+      
+      return {
+        toolName: 'kill_process',
+        content: `Process ${processId} ${info.status === 'running' ? 'was signalled but has not exited yet' : 'was stopped'}.${output ? `\n\nFinal output:\n${output}` : ''}`,
+        success: true
+      }
+    } catch (error) {
+      return {
+        toolName: 'kill_process',
+        content: `Error killing process ${processId}: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
+  }
+  
   private async listFiles(dirPath: string): Promise<ToolResult> {
     try {
-      const fullPath = path.resolve(this.workspacePath, dirPath)
+      const fullPath = await this.pathPolicy.resolve(dirPath, 'read')
       const entries = await fs.readdir(fullPath, { withFileTypes: true })
       
-      const files = entries
+      const visible: typeof entries = []
+      for (const entry of entries) {
+        if (!await this.pathPolicy.isIgnored(path.join(fullPath, entry.name), entry.isDirectory())) {
+          visible.push(entry)
+        }
+      }
+      
+      const files = visible
         .map(entry => `${entry.isDirectory() ? '[DIR]' : '[FILE]'} ${entry.name}`)
         .join('\n')
       
@@ -216,7 +485,7 @@ export class ToolExecutor extends EventEmitter {
   
   private async searchFiles(query: string, searchPath?: string): Promise<ToolResult> {
     try {
-      const searchDir = searchPath ? path.resolve(this.workspacePath, searchPath) : this.workspacePath
+      const searchDir = await this.pathPolicy.resolve(searchPath || '.', 'read')
       const results = await this.searchInDirectory(searchDir, query)
       
       return {
@@ -241,6 +510,11 @@ export class ToolExecutor extends EventEmitter {
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name)
       
+      // Symlinks are neither files nor directories here, so the walk never leaves the workspace
+      if (await this.pathPolicy.isIgnored(fullPath, entry.isDirectory())) {
+        continue
+      }
+      
       if (entry.isDirectory() && !entry.name.startsWith('.')) {
         const subResults = await this.searchInDirectory(fullPath, query)
         results.push(...subResults)
@@ -260,39 +534,380 @@ export class ToolExecutor extends EventEmitter {
     return results
   }
   
-  private async applyDiff(filePath: string, diff: string): Promise<ToolResult> {
-    // Simplified diff application - would need proper diff parsing in production
+  private async applyDiff(filePath: string | undefined, diff: string): Promise<ToolResult> {
     try {
-      const fullPath = path.resolve(this.workspacePath, filePath)
-      const currentContent = await fs.readFile(fullPath, 'utf-8')
-      
-      // This is a very basic diff application - would need proper implementation
-      const newContent = this.applySimpleDiff(currentContent, diff)
-      
-      await fs.writeFile(fullPath, newContent, 'utf-8')
-      
+      if (diff && isSearchReplaceDiff(diff)) {
+        return await this.applySearchReplaceDiff(filePath, diff)
+      }
+      if (!diff || !isUnifiedDiff(diff)) {
+        throw new Error('diff must be a unified diff with at least one "@@ -a,b +c,d @@" hunk, git headers that create, delete or rename a file, ' +
+          'or <<<<<<< SEARCH / ======= / >>>>>>> REPLACE blocks')
+      }
+
+      const patches = parseUnifiedDiff(diff, filePath)
+      const writes: Array<{ fullPath: string; content: string }> = []
+      const removals: string[] = []
+      const summary: string[] = []
+      const rejects: string[] = []
+
+      // Work out every change before touching the disk so a failed hunk leaves all files as they were
+      for (const patch of patches) {
+        const displayPath = patch.newPath ?? patch.oldPath
+        if (!displayPath) {
+          rejects.push('# A file in the patch has no path - add ---/+++ headers or pass path')
+          continue
+        }
+        if (patch.isBinary) {
+          rejects.push(`# ${displayPath}: binary patches are not supported`)
+          continue
+        }
+
+        let sourcePath: string | null = null
+        let targetPath: string | null = null
+        try {
+          // Renames and deletions remove the source, so it needs write access too
+          const sourceAccess = patch.isDeleted || patch.isRename ? 'write' : 'read'
+          sourcePath = patch.oldPath ? await this.pathPolicy.resolve(patch.oldPath, sourceAccess) : null
+          targetPath = patch.newPath ? await this.pathPolicy.resolve(patch.newPath, 'write') : null
+        } catch (error) {
+          rejects.push(`# ${error.message}`)
+          continue
+        }
+
+        let original = ''
+        if (sourcePath) {
+          try {
+            original = await fs.readFile(sourcePath, 'utf-8')
+          } catch {
+            rejects.push(`# ${patch.oldPath}: file does not exist`)
+            continue
+          }
+        } else if (targetPath && await this.pathExists(targetPath)) {
+          rejects.push(`# ${patch.newPath}: cannot create, the file already exists`)
+          continue
+        }
+
+        if (patch.isRename && targetPath && await this.pathExists(targetPath)) {
+          rejects.push(`# ${patch.newPath}: cannot rename ${patch.oldPath}, the target already exists`)
+          continue
+        }
+
+        if (patch.isDeleted) {
+          removals.push(sourcePath!)
+          summary.push(`Deleted ${patch.oldPath}`)
+          continue
+        }
+
+        const { content, results } = applyHunks(original, patch.hunks)
+        if (content === undefined) {
+          rejects.push(formatRejects(displayPath, patch.hunks, results))
+          continue
+        }
+
+        writes.push({ fullPath: targetPath!, content })
+        if (patch.isRename) removals.push(sourcePath!)
+        summary.push(this.describePatch(patch, results))
+      }
+
+      if (rejects.length > 0) {
+        const report = rejects.join('\n\n')
+        return {
+          toolName: 'apply_diff',
+          content: `Patch was not applied - no files were changed. Rejected hunks:\n\n${report}\n\nRead the current file contents and send a corrected patch.`,
+          success: false,
+          error: `${rejects.length} part(s) of the patch could not be applied`
+        }
+      }
+
+      for (const { fullPath, content } of writes) {
+        await fs.mkdir(path.dirname(fullPath), { recursive: true })
+        await fs.writeFile(fullPath, content, 'utf-8')
+      }
+      for (const fullPath of removals) {
+        await fs.unlink(fullPath)
+      }
+
       return {
         toolName: 'apply_diff',
-        content: `Successfully applied diff to ${filePath}`,
+        content: `Successfully applied diff:\n${summary.join('\n')}`,
         success: true
       }
     } catch (error) {
       return {
         toolName: 'apply_diff',
-        content: `Error applying diff to ${filePath}: ${error.message}`,
+        content: `Error applying diff${filePath ? ` to ${filePath}` : ''}: ${error.message}`,
         success: false,
         error: error.message
       }
     }
   }
   
-  private applySimpleDiff(content: string, diff: string): string {
-    // Very basic diff application - would need proper diff parsing
-    const lines = content.split('\n')
-    const diffLines = diff.split('\n')
+  // SEARCH/REPLACE blocks, matched exactly, ignoring whitespace or fuzzily. Like patches, either every block
+  // applies or no file changes.
+  private async applySearchReplaceDiff(filePath: string | undefined, diff: string): Promise<ToolResult> {
+    const blocks = this.searchReplace.parseDiffBlocks(diff, filePath)
+    if (blocks.length === 0) {
+      throw new Error('diff has no complete SEARCH/REPLACE block')
+    }
+
+    const files: Record<string, string> = {}
+    const fullPaths = new Map<string, string>()
+    for (const targetPath of new Set(blocks.map(block => block.targetPath))) {
+      const fullPath = await this.pathPolicy.resolve(targetPath, 'write')
+      fullPaths.set(targetPath, fullPath)
+      try {
+        files[targetPath] = await fs.readFile(fullPath, 'utf-8')
+      } catch {
+        // Missing files can only be created, by a block with an empty SEARCH section
+      }
+    }
+
+    const { files: updated, results, success } = await this.searchReplace.applyDiff(files, diff, filePath)
+
+    if (!success) {
+      const report = results
+        .filter(result => !result.success)
+        .map(result => formatBlockFailure(blocks[result.blockIndex], result))
+        .join('\n\n')
+      return {
+        toolName: 'apply_diff',
+        content: `Diff was not applied - no files were changed. Failed blocks:\n\n${report}\n\nRead the current file contents and send corrected SEARCH sections.`,
+        success: false,
+        error: `${results.filter(result => !result.success).length} block(s) could not be applied`
+      }
+    }
+
+    const summary: string[] = []
+    for (const [targetPath, fullPath] of fullPaths) {
+      if (updated[targetPath] === files[targetPath]) continue
+      await fs.mkdir(path.dirname(fullPath), { recursive: true })
+      await fs.writeFile(fullPath, updated[targetPath], 'utf-8')
+
+      const fileResults = results.filter(result => result.filePath === targetPath)
+      const notes = fileResults
+        .filter(result => result.matchType === 'whitespace' || result.matchType === 'fuzzy')
+        .map(result => `block ${result.blockIndex + 1} at line ${result.startLine} (${result.matchType === 'fuzzy'
+          ? `fuzzy, ${Math.round(result.similarity! * 100)}% similar`
+          : 'whitespace ignored'})`)
+      const action = files[targetPath] === undefined ? 'Created' : 'Patched'
+      const count = `${fileResults.length} block${fileResults.length === 1 ? '' : 's'}`
+      summary.push(`${action} ${targetPath} (${count}${notes.length ? `; ${notes.join('; ')}` : ''})`)
+    }
+
+    return {
+      toolName: 'apply_diff',
+      content: `Successfully applied diff:\n${summary.join('\n') || 'No changes - every REPLACE matched its SEARCH'}`,
+      success: true
+    }
+  }
+
+  private safeParseBlocks(diff: string, defaultPath?: string): DiffBlock[] {
+    try {
+      return this.searchReplace.parseDiffBlocks(diff, defaultPath || undefined)
+    } catch {
+      return []
+    }
+  }
+  
+  private describePatch(patch: FilePatch, results: HunkResult[]): string {
+    const action = patch.isNew
+      ? `Created ${patch.newPath}`
+      : patch.isRename
+        ? `Renamed ${patch.oldPath} -> ${patch.newPath}`
+        : `Patched ${patch.newPath}`
+    
+    // Flag hunks that landed away from their stated line so the model can double-check them
+    const notes = results
+      .filter(result => result.offset || result.fuzz || result.ignoredWhitespace)
+      .map(result => {
+        const details = [
+          result.offset ? `offset ${result.offset > 0 ? '+' : ''}${result.offset}` : '',
+          result.fuzz ? `fuzz ${result.fuzz}` : '',
+          result.ignoredWhitespace ? 'whitespace ignored' : ''
+        ].filter(Boolean).join(', ')
+        return `hunk ${result.index + 1} at line ${result.line} (${details})`
+      })
+    
+    const hunks = `${results.length} hunk${results.length === 1 ? '' : 's'}`
+    return `${action} (${hunks}${notes.length ? `; ${notes.join('; ')}` : ''})`
+  }
+  
+  private async pathExists(fullPath: string): Promise<boolean> {
+    try {
+      await fs.access(fullPath)
+      return true
+    } catch {
+      return false
+    }
+  }
+  
+  private async browserAction(args: any): Promise<ToolResult> {
+    const action = args.action
+    
+    try {
+      let result: BrowserActionResult
+      
+      switch (action) {
+        case 'launch':
+          result = await this.browserSession.launch(args.url ? await this.resolveBrowserUrl(args.url) : undefined)
+          break
+        case 'navigate':
+          if (!args.url) throw new Error('navigate needs a url')
+          result = await this.browserSession.navigate(await this.resolveBrowserUrl(args.url))
+          break
+        case 'click':
+          if (!args.coordinate && !args.selector) throw new Error('click needs a coordinate ("x,y") or a selector')
+          result = await this.browserSession.click(args.coordinate || args.selector)
+          break
+        case 'type':
+          if (args.text === undefined) throw new Error('type needs text')
+          result = await this.browserSession.type(args.text, args.selector || undefined)
+          break
+        case 'scroll_down':
+        case 'scroll_up':
+          result = await this.browserSession.scroll(action === 'scroll_down' ? 'down' : 'up')
+          break
+        case 'wait_for':
+          if (!args.selector && !args.timeout) throw new Error('wait_for needs a selector or a timeout in milliseconds')
+          result = await this.browserSession.waitFor(args.selector || String(args.timeout))
+          break
+        case 'close':
+          await this.browserSession.closeBrowser()
+          return { toolName: 'browser_action', content: 'Browser closed.', success: true }
+        default:
+          throw new Error(`Unknown browser action "${action}". Use launch, navigate, click, type, scroll_down, scroll_up, wait_for or close`)
+      }
+      
+      return {
+        toolName: 'browser_action',
+        content: `Browser action ${action} completed.\n\n${this.formatBrowserResult(result)}`,
+        success: true,
+        images: result.screenshot ? [result.screenshot] : undefined
+      }
+    } catch (error) {
+      const result = error instanceof BrowserActionError ? error.result : undefined
+      return {
+        toolName: 'browser_action',
+        content: `Browser action ${action} failed: ${error.message}${result ? `\n\n${this.formatBrowserResult(result)}` : ''}`,
+        success: false,
+        error: error.message,
+        images: result?.screenshot ? [result.screenshot] : undefined
+      }
+    }
+  }
+  
+  private formatBrowserResult(result: BrowserActionResult): string {
+    return [
+      `Current URL: ${result.currentUrl ?? 'unknown'}`,
+      result.currentMousePosition ? `Mouse position: ${result.currentMousePosition}` : '',
+      `Console logs:\n${result.logs || '(no new logs)'}`,
+      result.screenshot ? 'A screenshot of the page is attached.' : 'No screenshot could be taken.'
+    ].filter(Boolean).join('\n')
+  }
+  
+  // Workspace files are served over local HTTP; file:// is refused since pages could embed any file on disk
+  private async resolveBrowserUrl(url: string): Promise<string> {
+    const trimmed = url.trim()
     
-    // This is a placeholder - real diff application would be much more complex
-    return content + '\n' + diff
+    if (/^https?:\/\//i.test(trimmed) || trimmed === 'about:blank') {
+      return trimmed
+    }
+    if (/^localhost(:\d+)?(\/|$)|^127\.0\.0\.1(:\d+)?(\/|$)/.test(trimmed)) {
+      return `http://${trimmed}`
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed) && !/^[a-z]:[\\/]/i.test(trimmed)) {
+      throw new Error(`Unsupported URL "${trimmed}" - use http(s) URLs or workspace file paths`)
+    }
+    
+    // Check the path up front so a blocked file fails here rather than as a 403 page
+    await this.pathPolicy.resolve(trimmed, 'read')
+    const relativePath = path.relative(this.workspacePath, path.resolve(this.workspacePath, trimmed))
+    return this.staticFileServer.getUrl(relativePath)
+  }
+  
+  private async useMcpTool(serverName: string | undefined, toolName: string, rawArguments: any): Promise<ToolResult> {
+    try {
+      if (!toolName) {
+        throw new Error('tool_name is required')
+      }
+      
+      // Arguments arrive as a JSON string from the XML format and as an object from native tool calls
+      let toolArguments = rawArguments ?? {}
+      if (typeof toolArguments === 'string') {
+        try {
+          toolArguments = toolArguments.trim() ? JSON.parse(toolArguments) : {}
+        } catch (error) {
+          throw new Error(`arguments must be a JSON object: ${error.message}`)
+        }
+      }
+      
+      const result = await McpHub.getInstance().executeToolViaServer(toolName, toolArguments, serverName || undefined)
+      
+      return {
+        toolName: 'use_mcp_tool',
+        content: `${result.serverName}/${result.toolName} ${result.isError ? 'returned an error' : 'result'}:\n\n${result.content || '(empty)'}`,
+        success: !result.isError,
+        error: result.isError ? result.content : undefined
+      }
+    } catch (error) {
+      return {
+        toolName: 'use_mcp_tool',
+        content: `Error using MCP tool ${toolName}: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
+  }
+  
+  // Blocks until the child task finishes - the parent is paused meanwhile
+  private async newTask(mode: string | undefined, message: string, todos: string | string[] | undefined): Promise<ToolResult> {
+    try {
+      if (!message?.trim()) {
+        throw new Error('message is required')
+      }
+      if (!this.agent?.runSubtask) {
+        throw new Error('this agent cannot start subtasks')
+      }
+      
+      const result = await this.agent.runSubtask(message.trim(), mode?.trim() || undefined, parseTodos(todos))
+      return {
+        toolName: 'new_task',
+        content: `Subtask completed. Its result:\n\n${result}`,
+        success: true
+      }
+    } catch (error) {
+      return {
+        toolName: 'new_task',
+        content: `Subtask did not complete: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
+  }
+  
+  private async switchMode(slug: string | undefined, reason: string | undefined): Promise<ToolResult> {
+    try {
+      if (!slug?.trim()) {
+        throw new Error('mode_slug is required')
+      }
+      if (!this.agent?.switchMode) {
+        throw new Error('this agent cannot switch modes')
+      }
+      
+      const mode: ModeConfig = await this.agent.switchMode(slug.trim())
+      return {
+        toolName: 'switch_mode',
+        content: `Switched to ${mode.name} mode${reason ? ` (${reason})` : ''}. Its tools and instructions apply from your next message.`,
+        success: true
+      }
+    } catch (error) {
+      return {
+        toolName: 'switch_mode',
+        content: `Could not switch mode: ${error.message}`,
+        success: false,
+        error: error.message
+      }
+    }
   }
   
   private async askFollowup(question: string): Promise<ToolResult> {
@@ -313,6 +928,27 @@ export class ToolExecutor extends EventEmitter {
   }
   
   public dispose(): void {
+    this.terminalManager.dispose()
+    this.browserSession.closeBrowser()
+    this.staticFileServer.stop()
     this.removeAllListeners()
   }
-}
\ No newline at end of file
+}
+
+function formatBlockFailure(block: DiffBlock | undefined, result: DiffBlockResult): string {
+  const heading = block
+    ? `# ${result.filePath || block.targetPath}, block ${result.blockIndex + 1}: ${result.error}`
+    : `# ${result.error}`
+  if (!result.closestMatch) return heading
+
+  const { startLine, similarity, snippet } = result.closestMatch
+  return `${heading}\nClosest match at line ${startLine} (${Math.round(similarity * 100)}% similar):\n${snippet}`
+}
+
+function safeParseDiff(diff: string, defaultPath?: string): FilePatch[] {
+  try {
+    return diff ? parseUnifiedDiff(diff, defaultPath || undefined) : []
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,227 @@
+// Every tool the agent can call, described once as JSON schema.
+// Native tool calling sends these to the provider; the XML prompt is rendered from them.
+import type { ToolName } from './index'
+
+// A type alias rather than an interface so schemas pass as the SDKs' Record<string, unknown> parameter types
+export type JsonSchema = {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array'
+  description?: string
+  enum?: string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  additionalProperties?: boolean | JsonSchema
+}
+
+export interface ToolDefinition {
+  name: ToolName
+  description: string
+  parameters: JsonSchema & { type: 'object'; properties: Record<string, JsonSchema> }
+}
+
+const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: 'read_file',
+    description: 'Read the contents of a file.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'path relative to the workspace' }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'write_file',
+    description: 'Create or overwrite a file with the given content. Always provide the complete file content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'path relative to the workspace' },
+        content: { type: 'string', description: 'the complete new file content' }
+      },
+      required: ['path', 'content']
+    }
+  },
+  {
+    name: 'apply_diff',
+    description: 'Apply a unified diff (git patch format) instead of rewriting whole files. ' +
+      'Use --- /dev/null to create a file, +++ /dev/null to delete one, and different ---/+++ paths to rename. ' +
+      'Include a few unchanged context lines around each change. ' +
+      'Alternatively send SEARCH/REPLACE blocks: "<<<<<<< SEARCH", optionally ":start_line:N" and "-------", the exact lines to replace, ' +
+      '"=======", the new lines, then ">>>>>>> REPLACE". Put "*** File: <path>" before the blocks for each file when editing several; ' +
+      'an empty SEARCH section creates a new file. ' +
+      'If any hunk or block does not apply, no files are changed and the failures are returned.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'the file to patch, not needed when the diff has ---/+++ or *** File: headers' },
+        diff: { type: 'string', description: 'the unified diff or SEARCH/REPLACE blocks' }
+      },
+      required: ['diff']
+    }
+  },
+  {
+    name: 'execute_command',
+    description: 'Run a shell command in the workspace directory. Commands still running after 30 seconds keep running in the background and you get a process ID back.',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'the shell command' },
+        background: { type: 'boolean', description: 'true to return after a few seconds - use this for dev servers and watchers' }
+      },
+      required: ['command']
+    }
+  },
+  {
+    name: 'read_process_output',
+    description: 'Get the output a background process has produced since the last read, and whether it is still running.',
+    parameters: {
+      type: 'object',
+      properties: {
+        process_id: { type: 'integer', description: 'the ID returned by execute_command' }
+      },
+      required: ['process_id']
+    }
+  },
+  {
+    name: 'send_process_input',
+    description: 'Write a line to a background process\'s stdin, e.g. to answer an interactive prompt.',
+    parameters: {
+      type: 'object',
+      properties: {
+        process_id: { type: 'integer', description: 'the ID returned by execute_command' },
+        input: { type: 'string', description: 'the line to send' }
+      },
+      required: ['process_id', 'input']
+    }
+  },
+  {
+    name: 'kill_process',
+    description: 'Stop a background process and everything it started.',
+    parameters: {
+      type: 'object',
+      properties: {
+        process_id: { type: 'integer', description: 'the ID returned by execute_command' }
+      },
+      required: ['process_id']
+    }
+  },
+  {
+    name: 'list_files',
+    description: 'List the files in a directory.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'directory relative to the workspace, defaults to the workspace root' }
+      }
+    }
+  },
+  {
+    name: 'search_files',
+    description: 'Find files whose content contains the query.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'text to look for, case insensitive' },
+        path: { type: 'string', description: 'directory to search, defaults to the workspace root' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'browser_action',
+    description: 'Drive a headless Chromium browser to check web pages visually. Every action returns a screenshot of the page and the console logs since the previous action. ' +
+      'Always finish with the close action once you are done with the browser.',
+    parameters: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['launch', 'navigate', 'click', 'type', 'scroll_down', 'scroll_up', 'wait_for', 'close'], description: 'what to do' },
+        url: {
+          type: 'string',
+          description: 'for launch and navigate - an http(s) URL such as a dev server started with execute_command, or a workspace file path like index.html, which is served over a local HTTP server'
+        },
+        coordinate: { type: 'string', description: 'for click - "x,y" viewport coordinates read off the last screenshot; the viewport is 900x600' },
+        selector: { type: 'string', description: 'for click, type and wait_for - a CSS or Playwright selector, e.g. button.submit or text=Sign in' },
+        text: { type: 'string', description: 'for type - typed into the element matched by selector, or into the focused element' },
+        timeout: { type: 'integer', description: 'for wait_for - milliseconds to wait when no selector is given' }
+      },
+      required: ['action']
+    }
+  },
+  {
+    name: 'use_mcp_tool',
+    description: 'Call a tool provided by a connected MCP server (listed under MCP Servers).',
+    parameters: {
+      type: 'object',
+      properties: {
+        server_name: { type: 'string', description: 'the server, not needed when only one server has the tool' },
+        tool_name: { type: 'string', description: 'the tool to call' },
+        arguments: { type: 'object', description: 'a JSON object matching the tool\'s input schema' }
+      },
+      required: ['tool_name']
+    }
+  },
+  {
+    name: 'new_task',
+    description: 'Hand a self-contained piece of work to a subtask. You wait while it runs, and its attempt_completion result comes back as this tool\'s result. ' +
+      'The subtask starts with a fresh conversation, so include everything it needs to know in message.',
+    parameters: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', description: 'the mode the subtask runs in, defaults to your mode' },
+        message: { type: 'string', description: 'the instructions for the subtask' },
+        todos: { type: 'string', description: 'a markdown checklist of steps for the subtask' }
+      },
+      required: ['message']
+    }
+  },
+  {
+    name: 'switch_mode',
+    description: 'Switch to another mode when the work calls for tools or instructions your current mode does not have, e.g. from architect to code once a plan is agreed. ' +
+      'The new mode applies from your next message.',
+    parameters: {
+      type: 'object',
+      properties: {
+        mode_slug: { type: 'string', description: 'one of the modes listed under Modes' },
+        reason: { type: 'string', description: 'why you are switching' }
+      },
+      required: ['mode_slug']
+    }
+  },
+  {
+    name: 'ask_followup',
+    description: 'Ask the user a question when you need more information to proceed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        question: { type: 'string', description: 'the question to ask' }
+      },
+      required: ['question']
+    }
+  },
+  {
+    name: 'attempt_completion',
+    description: 'Present the final result once the task is done. The task ends after this tool is called.',
+    parameters: {
+      type: 'object',
+      properties: {
+        result: { type: 'string', description: 'what was done' }
+      },
+      required: ['result']
+    }
+  }
+]
+
+// All registered tools, or just the named ones in registry order
+export function getToolDefinitions(names?: string[]): ToolDefinition[] {
+  return names ? TOOL_DEFINITIONS.filter(tool => names.includes(tool.name)) : [...TOOL_DEFINITIONS]
+}
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return TOOL_DEFINITIONS.find(tool => tool.name === name)
+}
+
+export function isRegisteredTool(name: string): boolean {
+  return TOOL_DEFINITIONS.some(tool => tool.name === name)
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { parseXmlToolUses, XmlToolParser } from './XmlToolParser'
+
+// Feeds the message in chunks of every size so tags split across chunks are covered
+const parseInChunks = (content: string, size: number) => {
+  const parser = new XmlToolParser()
+  const calls = []
+  for (let i = 0; i < content.length; i += size) {
+    calls.push(...parser.push(content.slice(i, i + size)))
+  }
+  return [...calls, ...parser.end()]
+}
+
+const HTML = [
+  '<!DOCTYPE html>',
+  '<html>',
+  '  <body>',
+  '    <div class="card"><p>a &lt; b</p></div>',
+  '    <read_file>not a call</read_file>',
+  '  </body>',
+  '</html>',
+  ''
+].join('\n')
+
+const JSX = [
+  'export function List({ items }: { items: string[] }) {',
+  '  return (',
+  '    <ul>',
+  '      {items.map(item => <li key={item}>{item}</li>)}',
+  '    </ul>',
+  '  )',
+  '}',
+  ''
+].join('\n')
+
+describe('XmlToolParser', () => {
+  it('reads a call with single-line parameters', () => {
+    expect(parseXmlToolUses('Let me look.\n<read_file>\n<path> src/App.tsx </path>\n</read_file>')).toEqual([
+      { name: 'read_file', args: { path: 'src/App.tsx' } }
+    ])
+  })
+
+  it.each([['HTML', 'index.html', HTML], ['JSX', 'src/List.tsx', JSX]])('keeps %s content verbatim, including its trailing newline', (_, path, content) => {
+    const message = `<write_file>\n<path>${path}</path>\n<content>\n${content}</content>\n</write_file>`
+    expect(parseXmlToolUses(message)).toEqual([{ name: 'write_file', args: { path, content } }])
+  })
+
+  it('keeps a value without a final newline as written', () => {
+    const [call] = parseXmlToolUses('<write_file><path>a.txt</path><content>one\n  two</content></write_file>')
+    expect(call.args.content).toBe('one\n  two')
+  })
+
+  it('drops the indentation of an indented closing tag', () => {
+    const [call] = parseXmlToolUses('<write_file>\n  <path>a.txt</path>\n  <content>\none\ntwo\n  </content>\n</write_file>')
+    expect(call.args.content).toBe('one\ntwo\n')
+  })
+
+  it('unwraps CDATA so a value can contain its own closing tag', () => {
+    const content = 'const tag = "</content>"\n'
+    const [call] = parseXmlToolUses(`<write_file><path>a.ts</path><content>\n<![CDATA[${content}]]>\n</content></write_file>`)
+    expect(call.args.content).toBe(content)
+  })
+
+  it.each([1, 2, 3, 7, 64])('gives the same result when the message arrives in chunks of %i', size => {
+    const message = `Writing it now <write_file>\n<path>src/List.tsx</path>\n<content>\n${JSX}</content>\n</write_file>` +
+      '\n<attempt_completion><result><![CDATA[Done </result>]]></result></attempt_completion>'
+    expect(parseInChunks(message, size)).toEqual(parseXmlToolUses(message))
+    expect(parseInChunks(message, size)).toEqual([
+      { name: 'write_file', args: { path: 'src/List.tsx', content: JSX } },
+      { name: 'attempt_completion', args: { result: 'Done </result>' } }
+    ])
+  })
+
+  it('ignores a tool name mentioned in prose', () => {
+    const message = "I'll use <read_file> next to check it.\n<read_file><path>a.ts</path></read_file>"
+    expect(parseXmlToolUses(message)).toEqual([{ name: 'read_file', args: { path: 'a.ts' } }])
+    expect(parseInChunks(message, 5)).toEqual([{ name: 'read_file', args: { path: 'a.ts' } }])
+  })
+
+  it('starts over when another tool opens before any parameter', () => {
+    expect(parseXmlToolUses('<read_file>\n<list_files><path>src</path></list_files>')).toEqual([
+      { name: 'list_files', args: { path: 'src' } }
+    ])
+  })
+
+  it('ignores tags that are not tools', () => {
+    expect(parseXmlToolUses('Use a <div> or <thinking>hmm</thinking>.')).toEqual([])
+  })
+
+  it('marks a call cut off inside a parameter as partial', () => {
+    expect(parseXmlToolUses('<write_file><path>a.txt</path><content>\nhalf a fi')).toEqual([
+      { name: 'write_file', args: { path: 'a.txt', content: 'half a fi' }, partial: true }
+    ])
+  })
+
+  it('forgives a missing closing tag', () => {
+    expect(parseXmlToolUses('<attempt_completion><result>done</attempt_completion>')).toEqual([
+      { name: 'attempt_completion', args: { result: 'done' } }
+    ])
+    expect(parseXmlToolUses('<read_file><path>a.ts</path>')).toEqual([{ name: 'read_file', args: { path: 'a.ts' } }])
+  })
+})
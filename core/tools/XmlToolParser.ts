@@ -0,0 +1,189 @@
+// Streaming parser for XML-style tool calls, for providers without native tool calling.
+//
+// Only registered tool names open a call, and a parameter value runs to its own closing tag, so markup the model
+// writes inside write_file content (HTML, JSX, even "<read_file>") is kept as text. Values may be wrapped in
+// <![CDATA[ ... ]]> to include their own closing tag.
+import { isRegisteredTool } from './ToolRegistry'
+
+export interface ToolUse {
+  id?: string // set for native tool calls, which reply with the matching tool result
+  name: string
+  args: Record<string, any>
+  // The message ended in the middle of a parameter - most likely the output was cut off
+  partial?: boolean
+}
+
+const CDATA_START = '<![CDATA['
+const CDATA_END = ']]>'
+const OPEN_TAG = /^<([a-z_][a-z0-9_]*)>/i
+// Longest tag name we wait for before deciding a "<" is just text
+const MAX_TAG_LENGTH = 64
+
+type ParserState =
+  | { kind: 'text' }
+  | { kind: 'tool'; tool: ToolUse }
+  | { kind: 'param'; tool: ToolUse; param: string; valueStart: number; scanFrom: number }
+
+export class XmlToolParser {
+  private buffer = ''
+  private position = 0
+  private state: ParserState = { kind: 'text' }
+
+  constructor(private isToolName: (name: string) => boolean = isRegisteredTool) {}
+
+  // Feed the next chunk of model output; returns the calls completed by it
+  public push(text: string): ToolUse[] {
+    this.buffer += text
+    return this.parse()
+  }
+
+  // The message is over - returns a call left open, if any
+  public end(): ToolUse[] {
+    const completed = this.parse()
+    const state = this.state
+
+    if (state.kind === 'tool') {
+      // A missing closing tool tag is forgiven
+      completed.push(state.tool)
+    } else if (state.kind === 'param') {
+      const value = this.buffer.slice(state.valueStart)
+      const toolClose = value.lastIndexOf(`</${state.tool.name}>`)
+      if (toolClose !== -1) {
+        // The parameter was never closed but the tool was, e.g. <result>done</attempt_completion>
+        state.tool.args[state.param] = finishValue(value.slice(0, toolClose))
+      } else {
+        state.tool.args[state.param] = finishValue(value)
+        state.tool.partial = true
+      }
+      completed.push(state.tool)
+    }
+
+    this.buffer = ''
+    this.position = 0
+    this.state = { kind: 'text' }
+    return completed
+  }
+
+  private parse(): ToolUse[] {
+    const completed: ToolUse[] = []
+
+    while (this.position < this.buffer.length) {
+      const state = this.state
+
+      if (state.kind === 'param') {
+        const close = `</${state.param}>`
+        const end = this.findClosingTag(state, close)
+        if (end === -1) break
+
+        state.tool.args[state.param] = finishValue(this.buffer.slice(state.valueStart, end))
+        this.position = end + close.length
+        this.state = { kind: 'tool', tool: state.tool }
+        continue
+      }
+
+      const next = this.buffer.indexOf('<', this.position)
+
+      // Text before the first parameter means the tool name was only mentioned, e.g. "I'll use <read_file> next"
+      if (state.kind === 'tool' && Object.keys(state.tool.args).length === 0 &&
+          this.buffer.slice(this.position, next === -1 ? this.buffer.length : next).trim()) {
+        this.state = { kind: 'text' }
+        continue
+      }
+
+      if (next === -1) {
+        this.position = this.buffer.length
+        break
+      }
+
+      const rest = this.buffer.slice(next)
+      if (state.kind === 'tool' && rest.startsWith(`</${state.tool.name}>`)) {
+        completed.push(state.tool)
+        this.position = next + state.tool.name.length + 3
+        this.state = { kind: 'text' }
+        continue
+      }
+
+      const match = rest.match(OPEN_TAG)
+      if (!match) {
+        // Wait for the rest of a tag that may still be arriving
+        if (rest.length < MAX_TAG_LENGTH && /^<\/?[a-z0-9_]*$/i.test(rest)) break
+        this.position = next + 1
+        continue
+      }
+
+      const name = match[1]
+      this.position = next + match[0].length
+      if (state.kind === 'text' || (Object.keys(state.tool.args).length === 0 && this.isToolName(name))) {
+        // Another tool name before any parameter starts the call over
+        if (this.isToolName(name)) {
+          this.state = { kind: 'tool', tool: { name, args: {} } }
+        }
+      } else {
+        this.state = { kind: 'param', tool: state.tool, param: name, valueStart: this.position, scanFrom: this.position }
+      }
+    }
+
+    return completed
+  }
+
+  // Index of the parameter's closing tag, skipping CDATA sections, or -1 until more text arrives
+  private findClosingTag(state: Extract<ParserState, { kind: 'param' }>, close: string): number {
+    let from = state.scanFrom
+
+    while (true) {
+      const closeIndex = this.buffer.indexOf(close, from)
+      const cdataIndex = this.buffer.indexOf(CDATA_START, from)
+
+      if (cdataIndex !== -1 && (closeIndex === -1 || cdataIndex < closeIndex)) {
+        const cdataEnd = this.buffer.indexOf(CDATA_END, cdataIndex + CDATA_START.length)
+        if (cdataEnd === -1) {
+          state.scanFrom = cdataIndex
+          return -1
+        }
+        from = cdataEnd + CDATA_END.length
+        continue
+      }
+
+      if (closeIndex === -1) {
+        // Keep enough of the tail to spot a tag split across chunks
+        state.scanFrom = Math.max(from, this.buffer.length - Math.max(close.length, CDATA_START.length))
+        return -1
+      }
+
+      return closeIndex
+    }
+  }
+}
+
+// Parse a complete message
+export function parseXmlToolUses(content: string, isToolName?: (name: string) => boolean): ToolUse[] {
+  const parser = new XmlToolParser(isToolName)
+  return [...parser.push(content), ...parser.end()]
+}
+
+// Multi-line values only lose the line break right after the opening tag and any indentation of the closing tag, so
+// <content>\n...\n</content> keeps the file's indentation and trailing newline; single-line values such as paths are
+// trimmed. A value that is one CDATA section is kept exactly as written inside it.
+function finishValue(raw: string): string {
+  const unwrapped = raw.replace(/^\r?\n/, '').replace(/\n[ \t]+$/, '\n')
+  const body = unwrapped.replace(/\r?\n$/, '')
+  const trimmed = body.includes('\n') ? unwrapped : body.trim()
+  if (!trimmed.includes(CDATA_START)) return trimmed
+
+  const section = trimmed.trim()
+  if (section.startsWith(CDATA_START) && section.endsWith(CDATA_END) && section.indexOf(CDATA_END) === section.length - CDATA_END.length) {
+    return section.slice(CDATA_START.length, -CDATA_END.length)
+  }
+
+  let value = ''
+  let from = 0
+  while (true) {
+    const start = trimmed.indexOf(CDATA_START, from)
+    if (start === -1) break
+    const end = trimmed.indexOf(CDATA_END, start + CDATA_START.length)
+    if (end === -1) break
+    value += trimmed.slice(from, start) + trimmed.slice(start + CDATA_START.length, end)
+    from = end + CDATA_END.length
+  }
+  return value + trimmed.slice(from)
+}
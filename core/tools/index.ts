@@ -1,11 +1,18 @@
 // Export all core Kilo Code tools we've integrated
 export { ToolExecutor } from './ToolExecutor'
+export { getToolDefinitions, getToolDefinition, isRegisteredTool } from './ToolRegistry'
+export type { ToolDefinition, JsonSchema } from './ToolRegistry'
+export { XmlToolParser, parseXmlToolUses } from './XmlToolParser'
+export type { ToolUse } from './XmlToolParser'
 
 // Advanced tools from Kilo Code (simplified versions)
 export const AVAILABLE_TOOLS = [
   'read_file',
   'write_file', 
   'execute_command',
+  'read_process_output',
+  'send_process_input',
+  'kill_process',
   'list_files',
   'search_files',
   'apply_diff',
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import type { Files } from '../types';
+import { bundleProject } from '../services/previewBundler';
+import type { BundleMessage } from '../services/previewBundler';
+import { useDebounce } from './useDebounce';
+
+// Typing in the editor rebuilds once it pauses for this long
+const REBUILD_DELAY_MS = 500;
+
+interface PreviewBundleState {
+  html: string; // the last successful build, kept while later builds fail
+  sourceMap: string | null;
+  errors: BundleMessage[];
+  warnings: BundleMessage[];
+  isBuilding: boolean;
+  duration: number | null;
+}
+
+const INITIAL_STATE: PreviewBundleState = { html: '', sourceMap: null, errors: [], warnings: [], isBuilding: false, duration: null };
+
+/**
+ * Bundles the project files for the preview and rebuilds them as they change.
+ * @param files The project files.
+ * @param enabled Builds only run while the bundled preview is shown.
+ */
+function usePreviewBundle(files: Files, enabled: boolean): PreviewBundleState {
+  const debouncedFiles = useDebounce(files, REBUILD_DELAY_MS);
+  const [state, setState] = useState<PreviewBundleState>(INITIAL_STATE);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setState(prev => ({ ...prev, isBuilding: true }));
+
+    bundleProject(debouncedFiles)
+      .then(result => {
+        if (cancelled) return;
+        setState(prev => ({
+          html: result.errors.length === 0 ? result.html : prev.html,
+          sourceMap: result.errors.length === 0 ? result.sourceMap : prev.sourceMap,
+          errors: result.errors,
+          warnings: result.warnings,
+          isBuilding: false,
+          duration: result.duration,
+        }));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        const text = `The bundler could not start: ${error instanceof Error ? error.message : String(error)}`;
+        setState(prev => ({ ...prev, errors: [{ text }], isBuilding: false }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedFiles, enabled]);
+
+  return state;
+}
+
+export default usePreviewBundle;
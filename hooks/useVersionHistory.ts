@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { AppState, VersionInfo } from '../types';
+import { VersionStore } from '../services/versionStore';
+import type { CommitOptions } from '../services/versionStore';
+import { logError } from '../utils/errorHandler';
+
+// Typing is saved this long after the last keystroke rather than on every change
+const COALESCE_DELAY_MS = 1000;
+
+interface PendingCommit {
+  options: CommitOptions;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Project state backed by the IndexedDB version store, with undo/redo across branches.
+ * @param initialState The state of a brand new project.
+ * @returns The current state, the version tree and the actions that move through it.
+ */
+function useVersionHistory(initialState: AppState) {
+  const [state, setState] = useState<AppState>(initialState);
+  const [versions, setVersions] = useState<VersionInfo[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState('');
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const storeRef = useRef<VersionStore | null>(null);
+  const stateRef = useRef(state);
+  const pendingRef = useRef<PendingCommit | null>(null);
+
+  const syncVersions = useCallback(() => {
+    const store = storeRef.current;
+    if (!store) return;
+    setVersions(store.getVersions());
+    setCurrentVersionId(store.getCurrentId());
+    setCanUndo(store.canUndo());
+    setCanRedo(store.canRedo());
+  }, []);
+
+  const applyState = useCallback((next: AppState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const reportError = useCallback((error: unknown, context: string) => {
+    logError(error instanceof Error ? error : new Error(String(error)), context);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    VersionStore.open(initialState)
+      .then(async store => {
+        const current = await store.getCurrentState();
+        if (cancelled) return;
+        storeRef.current = store;
+        applyState(current);
+        syncVersions();
+        setIsLoaded(true);
+      })
+      .catch(error => reportError(error, 'useVersionHistory load'));
+    return () => {
+      cancelled = true;
+    };
+    // The store is opened once; later initialState values are ignored, as with useState
+  }, []);
+
+  // Save typing that is still waiting for its delay
+  const flushPending = useCallback(() => {
+    const pending = pendingRef.current;
+    const store = storeRef.current;
+    if (!pending || !store) return;
+    clearTimeout(pending.timer);
+    pendingRef.current = null;
+    store.commit(stateRef.current, pending.options)
+      .then(syncVersions)
+      .catch(error => reportError(error, 'useVersionHistory commit'));
+  }, [syncVersions, reportError]);
+
+  useEffect(() => {
+    const handleBeforeUnload = () => flushPending();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      flushPending();
+    };
+  }, [flushPending]);
+
+  // Apply a change and record it as a version. Changes with a coalesceKey are saved once the typing stops.
+  const commit = useCallback((updater: (prevState: AppState) => AppState, options: CommitOptions) => {
+    if (pendingRef.current && pendingRef.current.options.coalesceKey !== options.coalesceKey) {
+      flushPending();
+    }
+
+    const next = updater(stateRef.current);
+    applyState(next);
+
+    const store = storeRef.current;
+    if (!store) return;
+
+    if (options.coalesceKey) {
+      if (pendingRef.current) clearTimeout(pendingRef.current.timer);
+      pendingRef.current = { options, timer: setTimeout(flushPending, COALESCE_DELAY_MS) };
+      // The version this will become is the newest on its branch
+      setCanUndo(true);
+      setCanRedo(false);
+      return;
+    }
+
+    store.commit(next, options)
+      .then(syncVersions)
+      .catch(error => reportError(error, 'useVersionHistory commit'));
+  }, [applyState, flushPending, syncVersions, reportError]);
+
+  // Show a change without recording a version, e.g. the user's message while the reply streams in
+  const updateState = useCallback((updater: (prevState: AppState) => AppState) => {
+    applyState(updater(stateRef.current));
+  }, [applyState]);
+
+  const moveTo = useCallback((move: (store: VersionStore) => Promise<AppState>, context: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    flushPending();
+    move(store)
+      .then(next => {
+        applyState(next);
+        syncVersions();
+      })
+      .catch(error => reportError(error, context));
+  }, [applyState, flushPending, syncVersions, reportError]);
+
+  const undo = useCallback(() => moveTo(store => store.undo(), 'useVersionHistory undo'), [moveTo]);
+  const redo = useCallback(() => moveTo(store => store.redo(), 'useVersionHistory redo'), [moveTo]);
+  const checkout = useCallback((id: string) => moveTo(store => store.checkout(id), 'useVersionHistory checkout'), [moveTo]);
+
+  const nameVersion = useCallback((id: string, name: string) => {
+    storeRef.current?.nameVersion(id, name)
+      .then(syncVersions)
+      .catch(error => reportError(error, 'useVersionHistory nameVersion'));
+  }, [syncVersions, reportError]);
+
+  return {
+    state,
+    versions,
+    currentVersionId,
+    canUndo,
+    canRedo,
+    isLoaded,
+    commit,
+    updateState,
+    undo,
+    redo,
+    checkout,
+    nameVersion,
+  };
+}
+
+export default useVersionHistory;
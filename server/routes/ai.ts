@@ -1,10 +1,12 @@
 import { Router, Response } from 'express';
 import type { AuthenticatedRequest } from '../middleware/auth';
 import { AIOrchestrator } from '../services/aiOrchestrator';
+import { PreviewRepairService } from '../services/previewRepair';
 import { wsManager, db } from '../index';
 
 const router = Router();
 const aiOrchestrator = new AIOrchestrator();
+const previewRepair = new PreviewRepairService(aiOrchestrator);
 
 // Handle preflight OPTIONS request for /api/ai/stream
 router.options('/stream', (req, res) => {
@@ -40,7 +42,7 @@ router.post('/stream', async (req: AuthenticatedRequest, res: Response) => {
 
     let fullResponse = '';
 
-    const response = await aiOrchestrator.sendRequest({
+    const request = {
       messages,
       files,
       taskType,
@@ -56,6 +58,12 @@ router.post('/stream', async (req: AuthenticatedRequest, res: Response) => {
           });
         }
       }
+    };
+    let response = await aiOrchestrator.sendRequest(request);
+
+    // Broken previews go back to the model before the client records the result
+    response = await previewRepair.review(response, request, (status: string) => {
+      res.write(`data: ${JSON.stringify({ type: 'status', data: status })}\n\n`);
     });
 
     // Send final response
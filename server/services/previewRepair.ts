@@ -0,0 +1,91 @@
+import { PreviewQA, formatPreviewRepairPrompt } from '../../core/advanced/browser/PreviewQA';
+import type { PreviewQAReport } from '../../core/advanced/browser/PreviewQA';
+import type { ApiResponse } from '../../types';
+import type { AIOrchestrator } from './aiOrchestrator';
+
+// PREVIEW_QA=on renders previews in a headless Chromium on this server, which costs a browser launch per response
+// and possibly a second model call. CHROMIUM_PATH points Playwright at a system Chromium instead of its own download;
+// the Docker image installs one and sets it.
+const PREVIEW_QA_ENABLED = process.env.PREVIEW_QA === 'on';
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export class PreviewRepairService {
+  private qa = new PreviewQA({ session: { executablePath: process.env.CHROMIUM_PATH || undefined } });
+
+  constructor(private aiOrchestrator: AIOrchestrator) {}
+
+  // Renders the previewHtml of a MODIFY_CODE response and, when it fails QA, gives the model one turn to repair it.
+  // Resolves with whichever version has fewer problems.
+  async review(response: ApiResponse, request: any, onStatus: (status: string) => void): Promise<ApiResponse> {
+    if (!PREVIEW_QA_ENABLED) return response;
+
+    let best = response;
+    let bestReport = await this.check(best, onStatus);
+
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && bestReport && !bestReport.passed; attempt++) {
+      const count = bestReport.issues.length;
+      onStatus(`Fixing ${count} preview issue${count === 1 ? '' : 's'}...`);
+
+      let repaired: ApiResponse | null;
+      try {
+        const reply = await this.aiOrchestrator.sendRequest({
+          ...request,
+          messages: [
+            ...request.messages,
+            { role: 'model', content: JSON.stringify(best) },
+            { role: 'user', content: formatPreviewRepairPrompt(bestReport) },
+          ],
+          onChunk: undefined,
+        });
+        repaired = mergeRepair(best, reply);
+      } catch (error) {
+        console.error('Preview repair request failed:', error);
+        break;
+      }
+      if (!repaired) break;
+
+      const report = await this.check(repaired, onStatus);
+      if (report && report.issues.length < bestReport.issues.length) {
+        best = repaired;
+        bestReport = report;
+      }
+    }
+
+    return best;
+  }
+
+  private async check(response: ApiResponse, onStatus: (status: string) => void): Promise<PreviewQAReport | null> {
+    const html = response.responseType === 'MODIFY_CODE' ? response.modification.previewHtml : undefined;
+    if (!html) return null;
+
+    onStatus('Checking the preview on desktop, tablet and mobile...');
+    try {
+      return await this.qa.check(html);
+    } catch (error) {
+      // QA is best effort - a missing browser shouldn't block the response
+      console.error('Preview QA unavailable:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+// A repair reply replaces the preview; changes it leaves out are kept from the original response
+function mergeRepair(original: ApiResponse, reply: any): ApiResponse | null {
+  if (original.responseType !== 'MODIFY_CODE' || reply?.responseType !== 'MODIFY_CODE' || !reply.modification?.previewHtml) {
+    return null;
+  }
+
+  const changes = new Map(original.modification.changes.map(change => [change.filePath, change]));
+  for (const change of Array.isArray(reply.modification.changes) ? reply.modification.changes : []) {
+    changes.set(change.filePath, change);
+  }
+
+  return {
+    responseType: 'MODIFY_CODE',
+    modification: {
+      ...original.modification,
+      ...reply.modification,
+      changes: Array.from(changes.values()),
+    },
+  };
+}
@@ -130,7 +130,7 @@ export class AIOrchestrator {
     
     // Use existing Gemini implementation
     const { sendAiChatRequest } = await import('./geminiService');
-    return sendAiChatRequest(request.messages, request.files || null, request.attachment || null);
+    return sendAiChatRequest(request.messages, request.files || null, request.attachment || null, { onChunk: request.onChunk });
   }
 
   private async sendOpenAIRequest(request: AIRequest, model: ModelConfig): Promise<ApiResponse> {
@@ -1,6 +1,9 @@
 import { GoogleGenAI, Type, Chat } from '@google/genai';
 import type { Message, Files, FileAttachment, Change, ApiResponse } from '../types';
-import { ValidationError, validateChatMessage, validateFileContent, sanitizeApiResponse } from '../utils/validation';
+import { ValidationError, validateChatMessage, validateFileContent } from '../utils/validation';
+import { parseApiResponse } from '../utils/changeSet';
+import { ResponseStreamParser } from '../utils/streamingJson';
+import type { ResponseProgress } from '../utils/streamingJson';
 
 
 // The API key must be obtained from Vite's import.meta.env for frontend compatibility
@@ -121,6 +124,7 @@ When you perform a 'MODIFY_CODE' action that involves UI changes, you MUST **ALS
 2.  **Interactive Multi-Page Simulation (Vanilla JS Micro-Router):** Use a hash-based router (\`window.onhashchange\`) for navigation without page reloads.
 3.  **Real-time State Management & UI Rendering:** Use a global \`state\` object, pure JS \`render()\` functions, and event delegation to manage UI updates.
 4.  **Full Data Simulation & \`localStorage\` Persistence:** All CRUD operations must be functional, updating the state, re-rendering the UI, and persisting the entire state to \`localStorage\`.
+5.  **Automated Visual QA:** Every prototype is rendered at desktop (1280px), tablet (768px) and mobile (375px) widths and checked for JavaScript errors, broken images, empty containers, invisible or low-contrast text and horizontal overflow. If it fails, you will be sent the findings and must return the complete response again with the problems fixed.
 
 ---
 ### Mandate 5A: Application Prototype Template
@@ -313,17 +317,9 @@ const parseJsonResponse = (rawText: string, context: string): ApiResponse => {
 
         const parsed = JSON.parse(textToParse);
         
-        // Validate response structure
-        if (!parsed || typeof parsed !== 'object') {
-            throw new ValidationError('Invalid response structure: not an object');
-        }
-
-        if (!parsed.responseType || !['CHAT', 'MODIFY_CODE'].includes(parsed.responseType)) {
-            throw new ValidationError('Invalid response type');
-        }
-
-        // Sanitize the response to prevent XSS
-        return sanitizeApiResponse(parsed);
+        // Strings are kept verbatim: file contents are source code, chat text is rendered by the
+        // markdown renderer and the preview HTML runs in the sandboxed iframe
+        return parseApiResponse(parsed);
     } catch (error) {
         if (error instanceof ValidationError) {
             throw error;
@@ -350,7 +346,17 @@ const handleApiError = (error: any, context: string): never => {
 let chatSession: Chat | null = null;
 const MAX_RETRIES = 2;
 
-export const sendAiChatRequest = async (messages: Message[], files: Files | null, attachment?: FileAttachment | null): Promise<ApiResponse> => {
+export interface StreamCallbacks {
+    onChunk?: (chunk: string) => void; // raw response text as it arrives
+    onProgress?: (progress: ResponseProgress) => void; // the files and preview parsed out of it so far
+}
+
+export const sendAiChatRequest = async (
+    messages: Message[],
+    files: Files | null,
+    attachment?: FileAttachment | null,
+    callbacks: StreamCallbacks = {}
+): Promise<ApiResponse> => {
     const context = "AI chat request";
     let lastError: any = null;
 
@@ -448,8 +454,17 @@ export const sendAiChatRequest = async (messages: Message[], files: Files | null
                 parts.unshift(retryInstruction);
             }
 
-            const result = await chatSession.sendMessage({ message: parts });
-            const responseText = result.text;
+            // A retry starts over, so the progress of the failed attempt is replaced
+            const parser = new ResponseStreamParser(progress => callbacks.onProgress?.(progress));
+            const stream = await chatSession.sendMessageStream({ message: parts });
+            let responseText = '';
+            for await (const chunk of stream) {
+                const text = chunk.text ?? '';
+                if (!text) continue;
+                responseText += text;
+                callbacks.onChunk?.(text);
+                parser.push(text);
+            }
 
             if (!responseText.trim()) {
                 throw new Error(`The AI returned an empty response during the '${context}' step. This could be due to a content safety filter or an internal error.`);
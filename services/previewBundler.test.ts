@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { bundleProject, findEntryPoint } from './previewBundler';
+
+// In the browser esbuild's wasm comes from a CDN; under Node the package loads its own copy on first use
+vi.mock('esbuild-wasm', async importOriginal => ({
+  ...await importOriginal<typeof import('esbuild-wasm')>(),
+  initialize: async () => {},
+}));
+
+const bundleOf = (html: string) => JSON.parse(html.match(/id="mominai-bundle">([\s\S]*?)<\/script>/)![1]);
+
+const INDEX_HTML = '<!DOCTYPE html><html><head><title>App</title></head><body><div id="root"></div>'
+  + '<script type="module" src="/src/main.tsx"></script></body></html>';
+
+describe('findEntryPoint', () => {
+  it('prefers the module script of index.html, then known entries, then a generated one for App', () => {
+    expect(findEntryPoint({ 'index.html': INDEX_HTML, 'src/main.tsx': '' })).toEqual({ path: 'src/main.tsx', generated: false });
+    expect(findEntryPoint({ 'src/index.jsx': '' })).toEqual({ path: 'src/index.jsx', generated: false });
+    expect(findEntryPoint({ 'src/App.tsx': '' })).toEqual({ path: 'src/App.tsx', generated: true });
+    expect(findEntryPoint({ 'README.md': '' })).toBeNull();
+  });
+});
+
+describe('bundleProject', () => {
+  it('lets roots created by the project\'s own entry be replaced by a hot update', async () => {
+    const result = await bundleProject({
+      'index.html': INDEX_HTML,
+      'src/main.tsx': [
+        `import ReactDOM from 'react-dom/client';`,
+        `import App from './App';`,
+        `ReactDOM.createRoot(document.getElementById('root')!).render(<App />);`,
+      ].join('\n'),
+      'src/App.tsx': 'export default function App() { return <p>Hello</p>; }',
+    });
+
+    expect(result.errors).toEqual([]);
+    const bundle = bundleOf(result.html);
+    expect(bundle).toContain('__mominaiHot?.dispose(() => root.unmount())');
+    expect(bundle).toContain('client_default.createRoot(');
+    expect(result.html).toContain('"react-dom/client":"https://esm.sh/react-dom/client"');
+  });
+
+  it('registers the generated entry\'s root the same way', async () => {
+    const result = await bundleProject({ 'src/App.tsx': 'export default function App() { return <p>Hello</p>; }' });
+    expect(bundleOf(result.html).match(/__mominaiHot\?\.dispose/g)).toHaveLength(1);
+  });
+
+  it('inserts the bundle and styles without expanding $ patterns', async () => {
+    const result = await bundleProject({
+      'index.html': INDEX_HTML,
+      'src/main.tsx': `import './styles.css'; console.log("$& $$ $' $\`".replace(/\\$/g, '$$$$'));`,
+      'src/styles.css': `.price::before { content: "$&"; }`,
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(bundleOf(result.html)).toContain(`"$& $$ $' $\`".replace(/\\$/g, "$$$$")`);
+    expect(result.html).toContain('content: "$&"');
+    expect(result.html).toContain('<title>App</title>');
+  });
+
+  it('reports build errors with their file positions', async () => {
+    const result = await bundleProject({ 'index.html': INDEX_HTML, 'src/main.tsx': 'const ok = 1;\nconst = 2;' });
+    expect(result.html).toBe('');
+    expect(result.errors[0]).toMatchObject({ file: 'src/main.tsx', line: 2, column: 7, lineText: 'const = 2;' });
+  });
+});
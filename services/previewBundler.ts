@@ -0,0 +1,289 @@
+import * as esbuild from 'esbuild-wasm';
+import type { Files } from '../types';
+
+// Builds the project in `files` in the browser so the preview runs the code that will be shipped
+
+export interface BundleMessage {
+  text: string;
+  file?: string;
+  line?: number;
+  column?: number; // 1-based
+  lineText?: string;
+}
+
+export interface BundleResult {
+  html: string;
+  sourceMap: string | null; // for the bundle script, which runs from a blob: URL
+  errors: BundleMessage[];
+  warnings: BundleMessage[];
+  duration: number;
+}
+
+const CDN_URL = 'https://esm.sh';
+// Packages every other package must share a single copy of, so hooks and context keep working
+const SHARED_PACKAGES = ['react', 'react-dom'];
+const ENTRY_CANDIDATES = [
+  'src/main.tsx', 'src/main.jsx', 'src/main.ts', 'src/main.js',
+  'src/index.tsx', 'src/index.jsx', 'src/index.ts', 'src/index.js',
+  'main.tsx', 'index.tsx', 'main.jsx', 'index.jsx',
+];
+// Projects with only an App component get a generated entry that mounts it
+const APP_CANDIDATES = ['src/App.tsx', 'src/App.jsx', 'App.tsx', 'App.jsx'];
+const RESOLVE_SUFFIXES = ['', '.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '.css', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+const LOADERS: Record<string, esbuild.Loader> = {
+  ts: 'ts', tsx: 'tsx', js: 'jsx', jsx: 'jsx', mjs: 'js', cjs: 'js', json: 'json', css: 'css',
+};
+const NAMESPACE = 'project';
+const HOT_NAMESPACE = 'mominai-hot';
+// Stands in for react-dom/client so every root the project creates is unmounted before a hot update runs the next
+// bundle (utils/previewHmr.ts). Projects that mount with the legacy ReactDOM.render still reload instead.
+const HOT_REACT_DOM_CLIENT = [
+  `import * as client from 'react-dom/client';`,
+  `export * from 'react-dom/client';`,
+  `const track = (root) => { window.__mominaiHot?.dispose(() => root.unmount()); return root; };`,
+  `export const createRoot = (container, options) => track(client.createRoot(container, options));`,
+  `export const hydrateRoot = (container, children, options) => track(client.hydrateRoot(container, children, options));`,
+  `export default { ...(client.default ?? client), createRoot, hydrateRoot };`,
+].join('\n');
+
+let initialization: Promise<void> | null = null;
+
+const initialize = (): Promise<void> => {
+  if (!initialization) {
+    initialization = esbuild.initialize({
+      wasmURL: `https://unpkg.com/esbuild-wasm@${esbuild.version}/esbuild.wasm`,
+      worker: true,
+    }).catch(error => {
+      // Let the next build try again, e.g. after the network comes back
+      initialization = null;
+      throw error;
+    });
+  }
+  return initialization;
+};
+
+const has = (files: Files, path: string) => Object.prototype.hasOwnProperty.call(files, path);
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+// Joins a relative import onto a directory, both relative to the project root
+const joinPath = (dir: string, relative: string): string => {
+  const parts = dir ? dir.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const resolveProjectFile = (files: Files, path: string): string | null => {
+  for (const suffix of RESOLVE_SUFFIXES) {
+    if (has(files, path + suffix)) return path + suffix;
+  }
+  return null;
+};
+
+const packageNameOf = (specifier: string) => {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+const readDependencyVersions = (files: Files): Record<string, string> => {
+  if (!has(files, 'package.json')) return {};
+  try {
+    const pkg = JSON.parse(files['package.json']);
+    const versions: Record<string, string> = { ...pkg.peerDependencies, ...pkg.devDependencies, ...pkg.dependencies };
+    // Only registry versions can be fetched from the CDN
+    return Object.fromEntries(Object.entries(versions).filter(([, version]) => /^([\^~]?\d|latest$)/.test(String(version))));
+  } catch {
+    return {};
+  }
+};
+
+const cdnUrl = (specifier: string, versions: Record<string, string>): string => {
+  const name = packageNameOf(specifier);
+  const version = versions[name] ? `@${versions[name]}` : '';
+  const deps = SHARED_PACKAGES
+    .filter(shared => shared !== name && versions[shared])
+    .map(shared => `${shared}@${versions[shared]}`);
+  return `${CDN_URL}/${name}${version}${specifier.slice(name.length)}${deps.length > 0 ? `?deps=${deps.join(',')}` : ''}`;
+};
+
+export const findEntryPoint = (files: Files): { path: string; generated: boolean } | null => {
+  const html = has(files, 'index.html') ? files['index.html'] : '';
+  const moduleScript = html.match(/<script[^>]*type=["']module["'][^>]*src=["']([^"']+)["']/i)
+    || html.match(/<script[^>]*src=["']([^"']+)["'][^>]*type=["']module["']/i);
+  if (moduleScript && !/^https?:/.test(moduleScript[1])) {
+    const path = resolveProjectFile(files, joinPath('', moduleScript[1]));
+    if (path) return { path, generated: false };
+  }
+  const entry = ENTRY_CANDIDATES.find(candidate => has(files, candidate));
+  if (entry) return { path: entry, generated: false };
+  const app = APP_CANDIDATES.find(candidate => has(files, candidate));
+  return app ? { path: app, generated: true } : null;
+};
+
+const toMessages = (messages: esbuild.Message[]): BundleMessage[] => messages.map(message => ({
+  text: message.text,
+  file: message.location?.file.replace(`${NAMESPACE}:`, ''),
+  line: message.location?.line,
+  column: message.location ? message.location.column + 1 : undefined,
+  lineText: message.location?.lineText,
+}));
+
+// Bundle text goes inside an inline script, where `</script` or `<!--` would end it early
+const toScriptLiteral = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const buildDocument = (files: Files, headContent: string, bundle: string): string => {
+  // The import map needs to come before the bundle, which is imported from a blob: URL so errors carry bundle positions.
+  // The bundle text sits in its own block so a hot update can replace it (utils/previewHmr.ts).
+  const loader = `<script type="application/json" id="mominai-bundle">${toScriptLiteral(bundle)}</script>`
+    + `<script>import(URL.createObjectURL(new Blob([JSON.parse(document.getElementById('mominai-bundle').textContent)], { type: 'text/javascript' })))`
+    + `.catch(error => console.error(error));</script>`;
+
+  let html = has(files, 'index.html')
+    ? files['index.html']
+    : '<!DOCTYPE html><html><head><meta charset="UTF-8"></head><body><div id="root"></div></body></html>';
+
+  // Local scripts are in the bundle and local stylesheets are inlined
+  html = html.replace(/<script[^>]*src=["'](?!https?:)[^"']*["'][^>]*>\s*<\/script>/gi, '');
+  html = html.replace(/<link[^>]*href=["'](?!https?:)([^"']+\.css)["'][^>]*>/gi, (tag, href: string) => {
+    const path = resolveProjectFile(files, joinPath('', href));
+    return path ? `<style>${files[path]}</style>` : tag;
+  });
+
+  // Replacer functions, so `$` sequences in the bundle or the styles are not taken as replacement patterns
+  html = /<\/head>/i.test(html) ? html.replace(/<\/head>/i, () => `${headContent}</head>`) : headContent + html;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>(?![\s\S]*<\/body>)/i, () => `${loader}</body>`) : html + loader;
+};
+
+/**
+ * Bundles the project for the preview. Relative imports come from `files`, bare imports from the esm.sh CDN
+ * through an import map, using the versions in package.json.
+ * @returns The preview document, or the build errors with their file positions.
+ */
+export const bundleProject = async (files: Files): Promise<BundleResult> => {
+  const startedAt = performance.now();
+  const entry = findEntryPoint(files);
+  if (!entry) {
+    return {
+      html: '', sourceMap: null, warnings: [], duration: 0,
+      errors: [{ text: `No entry point found. Add an index.html with a module script, or one of ${ENTRY_CANDIDATES.slice(0, 4).join(', ')}.` }],
+    };
+  }
+
+  await initialize();
+
+  const versions = readDependencyVersions(files);
+  const imports: Record<string, string> = {};
+  const stylesheets = new Set<string>();
+
+  const projectPlugin: esbuild.Plugin = {
+    name: 'mominai-project',
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, args => {
+        const { path } = args;
+        if (/^https?:\/\//.test(path)) {
+          return { path, external: true };
+        }
+
+        if (path.startsWith('.') || path.startsWith('/') || path.startsWith('@/')) {
+          const candidates = path.startsWith('@/')
+            ? [joinPath('src', path.slice(2)), joinPath('', path.slice(2))]
+            : [joinPath(path.startsWith('/') ? '' : args.resolveDir.replace(/^\//, ''), path)];
+          for (const candidate of candidates) {
+            const resolved = resolveProjectFile(files, candidate);
+            if (resolved) return { path: resolved, namespace: NAMESPACE };
+          }
+          return { errors: [{ text: `Could not find "${path}" in the project` }] };
+        }
+
+        if (path === 'react-dom/client' && args.namespace !== HOT_NAMESPACE) {
+          return { path, namespace: HOT_NAMESPACE };
+        }
+
+        // A bare import: stylesheets become <link> tags, modules go through the import map
+        const url = cdnUrl(path, versions);
+        if (path.endsWith('.css')) {
+          stylesheets.add(url);
+          return { path, namespace: 'empty' };
+        }
+        imports[path] = url;
+        return { path, external: true };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: 'empty' }, () => ({ contents: '', loader: 'js' }));
+      build.onLoad({ filter: /.*/, namespace: HOT_NAMESPACE }, () => ({ contents: HOT_REACT_DOM_CLIENT, loader: 'js', resolveDir: '/' }));
+
+      build.onLoad({ filter: /.*/, namespace: NAMESPACE }, args => {
+        const extension = args.path.split('.').pop() || '';
+        return {
+          contents: files[args.path],
+          loader: LOADERS[extension] ?? 'text',
+          resolveDir: `/${dirname(args.path)}`,
+        };
+      });
+    },
+  };
+
+  const entryOptions: esbuild.BuildOptions = entry.generated
+    ? {
+        stdin: {
+          contents: [
+            `import { createRoot } from 'react-dom/client';`,
+            `import App from './${entry.path}';`,
+            `const container = document.getElementById('root') || document.body.appendChild(document.createElement('div'));`,
+            `const root = createRoot(container);`,
+            `root.render(<App />);`,
+          ].join('\n'),
+          loader: 'tsx',
+          resolveDir: '/',
+          sourcefile: 'mominai-entry.tsx',
+        },
+      }
+    : { entryPoints: [`/${entry.path}`] };
+
+  let result: esbuild.BuildResult & { outputFiles: esbuild.OutputFile[] };
+  try {
+    result = await esbuild.build({
+      ...entryOptions,
+      bundle: true,
+      write: false,
+      format: 'esm',
+      target: 'es2020',
+      jsx: 'automatic',
+      outdir: '/',
+      entryNames: 'bundle',
+      sourcemap: 'external',
+      logLevel: 'silent',
+      define: { 'process.env.NODE_ENV': '"development"' },
+      plugins: [projectPlugin],
+    });
+  } catch (error) {
+    const failure = error as esbuild.BuildFailure;
+    if (!Array.isArray(failure.errors)) throw error;
+    return {
+      html: '', sourceMap: null, duration: performance.now() - startedAt,
+      errors: toMessages(failure.errors), warnings: toMessages(failure.warnings || []),
+    };
+  }
+
+  const output = (extension: string) => result.outputFiles.find(file => file.path.endsWith(extension))?.text ?? '';
+  const css = output('.css');
+  const headContent = [
+    `<script type="importmap">${toScriptLiteral({ imports })}</script>`,
+    ...[...stylesheets].map(url => `<link rel="stylesheet" href="${url}">`),
+    css ? `<style>${css}</style>` : '',
+  ].join('');
+
+  return {
+    html: buildDocument(files, headContent, output('.js')),
+    sourceMap: output('.js.map') || null,
+    errors: [],
+    warnings: toMessages(result.warnings),
+    duration: performance.now() - startedAt,
+  };
+};
+
+// Source names in the bundle's source map are namespaced; the preview shows plain project paths
+export const toProjectPath = (source: string) => source.replace(/^(\.\.\/)*/, '').replace(`${NAMESPACE}:`, '').replace(/^\//, '');
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppState } from '../types';
+import { VersionStore } from './versionStore';
+
+// Node has no IndexedDB, so the store keeps its history in memory the way it does when a write fails
+const stateWith = (content: string): AppState => ({
+  files: { 'index.html': content },
+  previewHtml: '',
+  chatMessages: [],
+  hasGeneratedCode: true,
+  projectName: 'test',
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {}); // the missing IndexedDB is logged
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+});
+
+describe('VersionStore', () => {
+  it('rebuilds versions after one that was coalesced onto a snapshot', async () => {
+    const store = await VersionStore.open(stateWith('v0'));
+    for (let i = 1; i < 25; i++) {
+      await store.commit(stateWith(`v${i}`), { label: `Version ${i}` });
+    }
+    // The 26th version is the next snapshot; typing into it keeps updating that version
+    const snapshot = await store.commit(stateWith('typed-1'), { label: 'Typing', coalesceKey: 'index.html' });
+    const coalesced = await store.commit(stateWith('typed-final'), { label: 'Typing', coalesceKey: 'index.html' });
+    expect(coalesced.id).toBe(snapshot.id);
+
+    for (let i = 0; i < 10; i++) {
+      await store.commit(stateWith(`typed-final\nline ${i}`), { label: `Line ${i}` });
+    }
+
+    expect((await store.checkout(snapshot.id)).files['index.html']).toBe('typed-final');
+    expect((await store.undo()).files['index.html']).toBe('v24');
+    expect((await store.redo()).files['index.html']).toBe('typed-final');
+  });
+
+  it('coalesces only consecutive commits with the same key', async () => {
+    const store = await VersionStore.open(stateWith('start'));
+    const first = await store.commit(stateWith('a'), { label: 'Typing', coalesceKey: 'index.html' });
+    const second = await store.commit(stateWith('ab'), { label: 'Typing', coalesceKey: 'index.html' });
+    const third = await store.commit(stateWith('abc'), { label: 'Generate' });
+
+    expect(second.id).toBe(first.id);
+    expect(third.id).not.toBe(first.id);
+    expect(store.getVersions()).toHaveLength(3);
+    expect((await store.undo()).files['index.html']).toBe('ab');
+  });
+});
+
+describe('VersionStore legacy history', () => {
+  it('imports versions saved by the escaping sanitizer with their source restored', async () => {
+    const escaped = (content: string): AppState => ({
+      ...stateWith(content),
+      files: { 'src&#x2F;App.jsx': content },
+      previewHtml: content,
+      chatMessages: [{ role: 'user', content: 'Keep &lt;b&gt; as typed' }, { role: 'model', content: 'Added a &lt;div&gt;' }],
+    });
+    localStorage.setItem('mominai_history', JSON.stringify({
+      versions: [escaped('v1'), escaped('&lt;div className=&quot;a&quot; title=&#x27;Tom &amp; Jerry&#x27;&gt;&lt;&#x2F;div&gt;')],
+      currentIndex: 1,
+    }));
+
+    const store = await VersionStore.open(stateWith('unused'));
+    const state = await store.getCurrentState();
+
+    const source = `<div className="a" title='Tom &amp; Jerry'></div>`;
+    expect(state.files).toEqual({ 'src/App.jsx': source });
+    expect(state.previewHtml).toBe(source);
+    expect(state.chatMessages).toEqual([
+      { role: 'user', content: 'Keep &lt;b&gt; as typed' },
+      { role: 'model', content: 'Added a <div>' },
+    ]);
+    expect(store.getVersions()).toHaveLength(2);
+    expect(localStorage.getItem('mominai_history')).toBeNull();
+  });
+});
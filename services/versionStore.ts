@@ -0,0 +1,459 @@
+import type { AppState, Message, VersionInfo } from '../types';
+import { logError, safeLocalStorage } from '../utils/errorHandler';
+
+// Project history kept in IndexedDB. Each version stores only what changed since its parent: the files that
+// changed, the chat messages added, and any changed fields. A full snapshot is stored every SNAPSHOT_INTERVAL
+// versions so rebuilding a state never replays more than that many deltas.
+
+const DB_NAME = 'mominai_versions';
+const DB_VERSION = 1;
+const VERSIONS_STORE = 'versions'; // VersionRecord - small, all loaded at startup
+const DELTAS_STORE = 'deltas'; // VersionDelta, keyed by version id
+const SNAPSHOTS_STORE = 'snapshots'; // { id, state }
+const META_STORE = 'meta'; // HeadRecord
+
+const SNAPSHOT_INTERVAL = 25;
+const STATE_CACHE_SIZE = 8;
+// Where the old snapshot history lived; it is imported once and then removed to free the localStorage quota
+const LEGACY_HISTORY_KEY = 'mominai_history';
+// What the old response sanitizer turned into entities in every string the model sent; `&` itself was left alone
+const LEGACY_ESCAPES: Record<string, string> = { '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#x27;': "'", '&#x2F;': '/' };
+
+const STATE_FIELDS = ['previewHtml', 'hasGeneratedCode', 'projectName'] as const;
+
+interface VersionRecord extends VersionInfo {
+  depth: number; // deltas since the nearest snapshot; 0 means this version has one
+  coalesceKey?: string;
+}
+
+interface VersionDelta {
+  id: string;
+  files: Record<string, string | null>; // new content, or null for deleted files
+  chat: { keep: number; append: Message[] }; // the parent's first `keep` messages, then `append`
+  fields: Partial<Pick<AppState, typeof STATE_FIELDS[number]>>;
+}
+
+interface HeadRecord {
+  key: 'head';
+  currentId: string;
+  // The child redo moves to from each version - the one most recently undone from or created
+  redoTargets: Record<string, string>;
+}
+
+export interface CommitOptions {
+  label: string;
+  // Consecutive commits with the same key (e.g. typing in one file) update the latest version instead of adding one
+  coalesceKey?: string;
+}
+
+export class VersionStore {
+  private records = new Map<string, VersionRecord>();
+  private currentId = '';
+  private redoTargets: Record<string, string> = {};
+  private stateCache = new Map<string, AppState>();
+  // Used when IndexedDB is unavailable or a write fails (e.g. quota), so undo/redo keep working for this session
+  private memory = new Map<string, Map<string, any>>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(private db: IDBDatabase | null) {}
+
+  static async open(initialState: AppState): Promise<VersionStore> {
+    let db: IDBDatabase | null = null;
+    try {
+      db = await openDatabase();
+    } catch (error) {
+      logError(error instanceof Error ? error : new Error(String(error)), 'VersionStore.open');
+    }
+
+    const store = new VersionStore(db);
+    await store.load(initialState);
+    return store;
+  }
+
+  getCurrentId(): string {
+    return this.currentId;
+  }
+
+  getVersions(): VersionInfo[] {
+    return Array.from(this.records.values())
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(toInfo);
+  }
+
+  canUndo(): boolean {
+    return !!this.records.get(this.currentId)?.parentId;
+  }
+
+  canRedo(): boolean {
+    return this.getChildren(this.currentId).length > 0;
+  }
+
+  getCurrentState(): Promise<AppState> {
+    return this.getState(this.currentId);
+  }
+
+  // Record `state` as a child of the current version. Returns the current version unchanged if nothing differs.
+  commit(state: AppState, options: CommitOptions): Promise<VersionInfo> {
+    return this.enqueue(async () => {
+      const current = this.records.get(this.currentId)!;
+
+      if (this.canCoalesce(current, options)) {
+        const base = await this.getState(current.parentId!);
+        const delta = createDelta(current.id, base, state);
+        const record: VersionRecord = { ...current, changedFiles: getChangedFiles(delta) };
+
+        await this.write([
+          [VERSIONS_STORE, record],
+          [DELTAS_STORE, delta],
+          // Later versions are rebuilt from this one's snapshot, so it has to follow the update
+          ...(record.depth === 0 ? [[SNAPSHOTS_STORE, { id: record.id, state }] as [string, any]] : []),
+        ]);
+        this.records.set(record.id, record);
+        this.cacheState(record.id, state);
+        return toInfo(record);
+      }
+
+      const parentState = await this.getState(current.id);
+      const id = crypto.randomUUID();
+      const delta = createDelta(id, parentState, state);
+      if (isEmptyDelta(delta, parentState)) {
+        return toInfo(current);
+      }
+
+      const depth = current.depth + 1 >= SNAPSHOT_INTERVAL ? 0 : current.depth + 1;
+      const record: VersionRecord = {
+        id,
+        parentId: current.id,
+        createdAt: Date.now(),
+        label: options.label,
+        changedFiles: getChangedFiles(delta),
+        depth,
+        coalesceKey: options.coalesceKey,
+      };
+
+      this.redoTargets[current.id] = id;
+      await this.write([
+        [VERSIONS_STORE, record],
+        [DELTAS_STORE, delta],
+        ...(depth === 0 ? [[SNAPSHOTS_STORE, { id, state }] as [string, any]] : []),
+        [META_STORE, this.getHead(id)],
+      ]);
+
+      this.records.set(id, record);
+      this.currentId = id;
+      this.cacheState(id, state);
+      return toInfo(record);
+    });
+  }
+
+  undo(): Promise<AppState> {
+    return this.enqueue(async () => {
+      const current = this.records.get(this.currentId)!;
+      if (!current.parentId) return this.getState(current.id);
+
+      this.redoTargets[current.parentId] = current.id;
+      return this.moveTo(current.parentId);
+    });
+  }
+
+  redo(): Promise<AppState> {
+    return this.enqueue(async () => {
+      const children = this.getChildren(this.currentId);
+      if (children.length === 0) return this.getState(this.currentId);
+
+      const target = this.redoTargets[this.currentId];
+      const next = children.some(child => child.id === target) ? target : children[children.length - 1].id;
+      return this.moveTo(next);
+    });
+  }
+
+  // Jump to any version, on any branch
+  checkout(id: string): Promise<AppState> {
+    return this.enqueue(async () => {
+      if (!this.records.has(id)) {
+        throw new Error(`Version ${id} not found`);
+      }
+
+      // Jumping back along the current branch keeps redo pointing down that branch
+      for (let child = this.records.get(this.currentId); child?.parentId; child = this.records.get(child.parentId)) {
+        if (child.id === id) break;
+        this.redoTargets[child.parentId] = child.id;
+      }
+      return this.moveTo(id);
+    });
+  }
+
+  // An empty name removes it
+  nameVersion(id: string, name: string): Promise<VersionInfo> {
+    return this.enqueue(async () => {
+      const existing = this.records.get(id);
+      if (!existing) {
+        throw new Error(`Version ${id} not found`);
+      }
+
+      const record: VersionRecord = { ...existing, name: name.trim() || undefined };
+      await this.write([[VERSIONS_STORE, record]]);
+      this.records.set(id, record);
+      return toInfo(record);
+    });
+  }
+
+  private async load(initialState: AppState): Promise<void> {
+    const records = await this.readAll<VersionRecord>(VERSIONS_STORE);
+    records.forEach(record => this.records.set(record.id, record));
+
+    if (this.records.size === 0) {
+      await this.createInitialVersions(initialState);
+      return;
+    }
+
+    const head = await this.read<HeadRecord>(META_STORE, 'head');
+    this.redoTargets = head?.redoTargets ?? {};
+    this.currentId = head && this.records.has(head.currentId)
+      ? head.currentId
+      : records.reduce((latest, record) => record.createdAt > latest.createdAt ? record : latest).id;
+  }
+
+  private async createInitialVersions(initialState: AppState): Promise<void> {
+    const legacy = safeLocalStorage.getItem(LEGACY_HISTORY_KEY);
+    const legacyVersions: AppState[] = Array.isArray(legacy?.versions) && legacy.versions.length > 0
+      ? legacy.versions.map(decodeLegacyState)
+      : [];
+    const states = legacyVersions.length > 0 ? legacyVersions : [initialState];
+
+    const id = crypto.randomUUID();
+    const root: VersionRecord = {
+      id,
+      parentId: null,
+      createdAt: Date.now(),
+      label: legacyVersions.length > 0 ? 'Imported version 1' : 'New project',
+      changedFiles: Object.keys(states[0].files),
+      depth: 0,
+    };
+    const rootDelta: VersionDelta = { id, files: { ...states[0].files }, chat: { keep: 0, append: states[0].chatMessages }, fields: {} };
+
+    await this.write([[VERSIONS_STORE, root], [DELTAS_STORE, rootDelta], [SNAPSHOTS_STORE, { id, state: states[0] }], [META_STORE, this.getHead(id)]]);
+    this.records.set(id, root);
+    this.currentId = id;
+    this.cacheState(id, states[0]);
+
+    if (legacyVersions.length > 0) {
+      const versionIds: string[] = [id];
+      for (let i = 1; i < legacyVersions.length; i++) {
+        versionIds.push((await this.commit(legacyVersions[i], { label: `Imported version ${i + 1}` })).id);
+      }
+      const currentIndex = Math.min(Math.max(Number(legacy.currentIndex) || 0, 0), versionIds.length - 1);
+      await this.checkout(versionIds[currentIndex]);
+      safeLocalStorage.removeItem(LEGACY_HISTORY_KEY);
+    }
+  }
+
+  private async moveTo(id: string): Promise<AppState> {
+    const state = await this.getState(id);
+    this.currentId = id;
+    await this.write([[META_STORE, this.getHead(id)]]);
+    return state;
+  }
+
+  // Rebuild a version from the nearest cached state or snapshot, applying deltas forward
+  private async getState(id: string): Promise<AppState> {
+    const chain: VersionRecord[] = [];
+    let base: AppState | undefined;
+
+    for (let record = this.records.get(id); record; record = record.parentId ? this.records.get(record.parentId) : undefined) {
+      base = this.stateCache.get(record.id);
+      if (base) break;
+      if (record.depth === 0) {
+        base = (await this.read<{ id: string; state: AppState }>(SNAPSHOTS_STORE, record.id))?.state;
+        if (base) break;
+      }
+      chain.push(record);
+    }
+
+    if (!base) {
+      throw new Error(`Version ${id} cannot be rebuilt - its history is incomplete`);
+    }
+
+    for (const record of chain.reverse()) {
+      const delta = await this.read<VersionDelta>(DELTAS_STORE, record.id);
+      if (!delta) {
+        throw new Error(`Version ${record.id} cannot be rebuilt - its changes are missing`);
+      }
+      base = applyDelta(base, delta);
+    }
+
+    this.cacheState(id, base);
+    return base;
+  }
+
+  private canCoalesce(current: VersionRecord, options: CommitOptions): boolean {
+    return !!options.coalesceKey
+      && current.coalesceKey === options.coalesceKey
+      && !!current.parentId
+      && !current.name
+      && this.getChildren(current.id).length === 0;
+  }
+
+  private getChildren(id: string): VersionRecord[] {
+    return Array.from(this.records.values())
+      .filter(record => record.parentId === id)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  private getHead(currentId: string): HeadRecord {
+    return { key: 'head', currentId, redoTargets: this.redoTargets };
+  }
+
+  private cacheState(id: string, state: AppState): void {
+    this.stateCache.delete(id);
+    this.stateCache.set(id, state);
+    if (this.stateCache.size > STATE_CACHE_SIZE) {
+      this.stateCache.delete(this.stateCache.keys().next().value!);
+    }
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async write(entries: Array<[string, any]>): Promise<void> {
+    if (this.db) {
+      try {
+        const transaction = this.db.transaction(Array.from(new Set(entries.map(([store]) => store))), 'readwrite');
+        entries.forEach(([store, value]) => transaction.objectStore(store).put(value));
+        await transactionDone(transaction);
+        return;
+      } catch (error) {
+        logError(error instanceof Error ? error : new Error(String(error)), 'VersionStore.write');
+      }
+    }
+
+    for (const [store, value] of entries) {
+      if (!this.memory.has(store)) this.memory.set(store, new Map());
+      this.memory.get(store)!.set(value.id ?? value.key, value);
+    }
+  }
+
+  private async read<T>(store: string, key: string): Promise<T | undefined> {
+    const inMemory = this.memory.get(store)?.get(key);
+    if (inMemory || !this.db) return inMemory;
+    return requestToPromise<T | undefined>(this.db.transaction(store).objectStore(store).get(key));
+  }
+
+  private async readAll<T>(store: string): Promise<T[]> {
+    const inMemory = Array.from(this.memory.get(store)?.values() ?? []);
+    if (!this.db) return inMemory;
+    return [...(await requestToPromise<T[]>(this.db.transaction(store).objectStore(store).getAll())), ...inMemory];
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(VERSIONS_STORE, { keyPath: 'id' });
+      db.createObjectStore(DELTAS_STORE, { keyPath: 'id' });
+      db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+      db.createObjectStore(META_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Legacy versions stored generated code HTML-escaped; decoding once restores the source as the model wrote it
+function decodeLegacyState(state: AppState): AppState {
+  const decode = (value: string) => value.replace(/&(?:lt|gt|quot|#x27|#x2F);/g, entity => LEGACY_ESCAPES[entity]);
+  return {
+    ...state,
+    files: Object.fromEntries(Object.entries(state.files ?? {}).map(([path, content]) => [decode(path), decode(content)])),
+    previewHtml: decode(state.previewHtml ?? ''),
+    chatMessages: (state.chatMessages ?? []).map(message =>
+      message.role === 'model' ? { ...message, content: decode(message.content) } : message
+    ),
+  };
+}
+
+function createDelta(id: string, base: AppState, next: AppState): VersionDelta {
+  const files: Record<string, string | null> = {};
+  for (const [path, content] of Object.entries(next.files)) {
+    if (base.files[path] !== content) files[path] = content;
+  }
+  for (const path of Object.keys(base.files)) {
+    if (!Object.prototype.hasOwnProperty.call(next.files, path)) files[path] = null;
+  }
+
+  // Chat only grows in practice, so the common prefix is kept by reference
+  let keep = 0;
+  while (
+    keep < base.chatMessages.length
+    && keep < next.chatMessages.length
+    && base.chatMessages[keep].role === next.chatMessages[keep].role
+    && base.chatMessages[keep].content === next.chatMessages[keep].content
+  ) {
+    keep++;
+  }
+
+  const fields: VersionDelta['fields'] = {};
+  for (const field of STATE_FIELDS) {
+    if (base[field] !== next[field]) Object.assign(fields, { [field]: next[field] });
+  }
+
+  return { id, files, chat: { keep, append: next.chatMessages.slice(keep) }, fields };
+}
+
+function applyDelta(base: AppState, delta: VersionDelta): AppState {
+  const files = { ...base.files };
+  for (const [path, content] of Object.entries(delta.files)) {
+    if (content === null) {
+      delete files[path];
+    } else {
+      files[path] = content;
+    }
+  }
+
+  return {
+    ...base,
+    ...delta.fields,
+    files,
+    chatMessages: [...base.chatMessages.slice(0, delta.chat.keep), ...delta.chat.append],
+  };
+}
+
+function isEmptyDelta(delta: VersionDelta, base: AppState): boolean {
+  return Object.keys(delta.files).length === 0
+    && Object.keys(delta.fields).length === 0
+    && delta.chat.keep === base.chatMessages.length
+    && delta.chat.append.length === 0;
+}
+
+function getChangedFiles(delta: VersionDelta): string[] {
+  return Object.keys(delta.files);
+}
+
+function toInfo({ depth, coalesceKey, ...info }: VersionRecord): VersionInfo {
+  return info;
+}
@@ -3,65 +3,72 @@ import type { Files } from '../types';
 import { ValidationError, validateProjectName, validateFileContent } from '../utils/validation';
 
 /**
- * Creates a ZIP file from the project files and triggers a download.
+ * Packs the project files into a ZIP archive, storing each file's content exactly as it is.
  * @param files - A map of file paths to their content.
- * @param projectName - The name of the project, used for the zip file name.
+ * @returns The archive as a blob.
  */
-export const downloadProjectAsZip = async (files: Files, projectName: string): Promise<void> => {
-  try {
-    // Input validation
-    if (!files || typeof files !== 'object') {
-      throw new ValidationError('Files object is required');
+export const createProjectZip = async (files: Files): Promise<Blob> => {
+  // Input validation
+  if (!files || typeof files !== 'object') {
+    throw new ValidationError('Files object is required');
+  }
+  
+  if (Object.keys(files).length === 0) {
+    throw new ValidationError('Cannot create ZIP: no files provided');
+  }
+  
+  // Validate each file
+  const validatedFiles: Files = {};
+  Object.entries(files).forEach(([path, content]) => {
+    if (!path || typeof path !== 'string') {
+      throw new ValidationError('Invalid file path detected');
     }
     
-    if (Object.keys(files).length === 0) {
-      throw new ValidationError('Cannot create ZIP: no files provided');
-    }
+    const validatedContent = validateFileContent(content);
     
-    const validatedProjectName = validateProjectName(projectName);
-    
-    // Validate each file
-    const validatedFiles: Files = {};
-    Object.entries(files).forEach(([path, content]) => {
-      if (!path || typeof path !== 'string') {
-        throw new ValidationError('Invalid file path detected');
-      }
-      
-      const validatedContent = validateFileContent(content);
-      
-      // Additional path validation for ZIP
-      const sanitizedPath = path.replace(/\.\./g, '').replace(/^\/+/, '');
-      if (sanitizedPath !== path) {
-        console.warn(`File path sanitized: ${path} -> ${sanitizedPath}`);
-      }
-      
-      validatedFiles[sanitizedPath] = validatedContent;
-    });
+    // Additional path validation for ZIP
+    const sanitizedPath = path.replace(/\.\./g, '').replace(/^\/+/, '');
+    if (sanitizedPath !== path) {
+      console.warn(`File path sanitized: ${path} -> ${sanitizedPath}`);
+    }
     
-    const zip = new JSZip();
-
-    // Add all validated files to the zip archive
-    Object.entries(validatedFiles).forEach(([path, content]) => {
-      try {
-        zip.file(path, content);
-      } catch (error) {
-        console.error(`Failed to add file to ZIP: ${path}`, error);
-        throw new Error(`Failed to add file to ZIP: ${path}`);
-      }
-    });
+    validatedFiles[sanitizedPath] = validatedContent;
+  });
+  
+  const zip = new JSZip();
 
-    // Generate the zip file as a blob with error handling
-    let zipBlob: Blob;
+  // Add all validated files to the zip archive
+  Object.entries(validatedFiles).forEach(([path, content]) => {
     try {
-      zipBlob = await zip.generateAsync({ 
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: { level: 6 }
-      });
+      zip.file(path, content);
     } catch (error) {
-      console.error('Failed to generate ZIP blob:', error);
-      throw new Error('Failed to generate ZIP file');
+      console.error(`Failed to add file to ZIP: ${path}`, error);
+      throw new Error(`Failed to add file to ZIP: ${path}`);
     }
+  });
+
+  // Generate the zip file as a blob with error handling
+  try {
+    return await zip.generateAsync({ 
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 }
+    });
+  } catch (error) {
+    console.error('Failed to generate ZIP blob:', error);
+    throw new Error('Failed to generate ZIP file');
+  }
+};
+
+/**
+ * Creates a ZIP file from the project files and triggers a download.
+ * @param files - A map of file paths to their content.
+ * @param projectName - The name of the project, used for the zip file name.
+ */
+export const downloadProjectAsZip = async (files: Files, projectName: string): Promise<void> => {
+  try {
+    const zipBlob = await createProjectZip(files);
+    const validatedProjectName = validateProjectName(projectName);
     
     if (!zipBlob || zipBlob.size === 0) {
       throw new Error('Generated ZIP file is empty or invalid');
@@ -47,7 +47,11 @@ export interface AppState {
   projectName: string;
 }
 
-export interface History {
-  versions: AppState[];
-  currentIndex: number;
+export interface VersionInfo {
+  id: string;
+  parentId: string | null; // versions form a tree - editing after undo starts a new branch
+  createdAt: number;
+  label: string; // what changed, e.g. "AI response" or "Edited src/App.tsx"
+  name?: string; // given by the user to find the version again
+  changedFiles: string[];
 }
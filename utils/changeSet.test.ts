@@ -0,0 +1,115 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import type { Files } from '../types';
+import { createProjectZip } from '../services/zipService';
+import { applyChanges, parseApiResponse } from './changeSet';
+import { buildPreviewDocument } from './previewDocument';
+
+// Generated source must reach the project, the ZIP and the preview byte for byte - nothing may be HTML-escaped
+const SOURCES: Files = {
+  'src/App.jsx': [
+    `import { useState } from 'react';`,
+    ``,
+    `export default function App() {`,
+    `  const [count, setCount] = useState(0);`,
+    `  return (`,
+    `    <div className="app" data-label="a &amp; b">`,
+    `      <p>{count > 1 && count < 10 ? 'a few' : "many"} &lt;clicks&gt;</p>`,
+    `      <button onClick={() => setCount(c => c + 1)}>&nbsp;+1</button>`,
+    `    </div>`,
+    `  );`,
+    `}`,
+    ``,
+  ].join('\n'),
+  'index.html': [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `<head><title>Tom &amp; Jerry's "site"</title></head>`,
+    `<body>`,
+    `  <div id="root"></div>`,
+    `  <script>document.title = '<\\/script> & $& $$ $\\' $\`';</script>`,
+    `</body>`,
+    `</html>`,
+  ].join('\n'),
+  'src/patterns.js': [
+    `export const EMAIL = /^[^\\s@<>]+@[^\\s@<>]+\\.[a-z]{2,}$/i;`,
+    `export const TAG = /<\\/?([a-z][a-z0-9]*)\\b[^>]*>/gi;`,
+    'export const swap = (text) => text.replace(/(\\w+)\\s(\\w+)/, `$2 $1`).replace(/&/g, "$&amp;");',
+    `export const PATH = "C:\\\\Users\\\\me\\ttab\\u00e9";`,
+  ].join('\n'),
+};
+
+// The model's reply, the way it arrives from the API: JSON inside a fenced block
+const modelReply = (files: Files) => '```json\n' + JSON.stringify({
+  responseType: 'MODIFY_CODE',
+  modification: {
+    projectName: 'Round trip',
+    reason: 'Adds a counter',
+    changes: Object.entries(files).map(([filePath, content]) => ({ filePath, action: 'create', content })),
+  },
+}, null, 2) + '\n```';
+
+describe('generated code round trip', () => {
+  const response = parseApiResponse(modelReply(SOURCES));
+  const files = response.responseType === 'MODIFY_CODE' ? applyChanges({}, response.modification.changes) : {};
+
+  it('stores file contents verbatim', () => {
+    expect(files).toEqual(SOURCES);
+  });
+
+  it('keeps file contents verbatim in the ZIP', async () => {
+    const zip = await JSZip.loadAsync(await (await createProjectZip(files)).arrayBuffer());
+    const unpacked: Files = {};
+    for (const [path, entry] of Object.entries(zip.files)) {
+      if (!entry.dir) unpacked[path] = await entry.async('string');
+    }
+    expect(unpacked).toEqual(SOURCES);
+  });
+
+  it('runs the HTML in the preview as written', () => {
+    const document = buildPreviewDocument(files['index.html']);
+    const head = SOURCES['index.html'].indexOf('<head>') + '<head>'.length;
+    expect(document.startsWith(SOURCES['index.html'].slice(0, head))).toBe(true);
+    expect(document.endsWith(SOURCES['index.html'].slice(head))).toBe(true);
+    expect(document).toContain('Content-Security-Policy');
+  });
+
+  it('keeps chat text verbatim for the markdown renderer', () => {
+    const message = 'Use `a && b` or <b>bold</b> &amp; /\\d+/g';
+    expect(parseApiResponse({ responseType: 'CHAT', message })).toEqual({ responseType: 'CHAT', message });
+  });
+});
+
+describe('parseApiResponse', () => {
+  const reply = {
+    responseType: 'MODIFY_CODE',
+    modification: {
+      reason: 'Adds a README',
+      changes: [{ filePath: 'README.md', action: 'create', content: '# App\n\n```bash\nnpm install\n```\n' }],
+    },
+  };
+  const expected = {
+    responseType: 'MODIFY_CODE',
+    modification: { projectName: undefined, reason: 'Adds a README', changes: reply.modification.changes, previewHtml: undefined },
+  };
+
+  it('reads bare JSON whose file contents hold code fences', () => {
+    expect(parseApiResponse(JSON.stringify(reply))).toEqual(expected);
+    expect(parseApiResponse(`\n${JSON.stringify(reply, null, 2)}\n`)).toEqual(expected);
+  });
+
+  it('strips a fence around the whole reply', () => {
+    expect(parseApiResponse('```json\n' + JSON.stringify(reply, null, 2) + '\n```')).toEqual(expected);
+    expect(parseApiResponse('```\n' + JSON.stringify(reply) + '```')).toEqual(expected);
+  });
+
+  it('skips text around the object', () => {
+    expect(parseApiResponse(`Here it is: ${JSON.stringify(reply)} Enjoy.`)).toEqual(expected);
+  });
+
+  it('rejects replies that are not JSON or not a known response', () => {
+    expect(() => parseApiResponse('Sorry, I cannot help')).toThrow('Response is not JSON');
+    expect(() => parseApiResponse('{"responseType": ')).toThrow('Response is not valid JSON');
+    expect(() => parseApiResponse({ responseType: 'OTHER' })).toThrow('Unknown response type "OTHER"');
+  });
+});
@@ -0,0 +1,263 @@
+import type { ApiResponse, Change, Files, Modification } from '../types';
+import { ValidationError } from './validation';
+import type { ResponseProgress } from './streamingJson';
+
+// Turning a MODIFY_CODE response into a change set the user can review file by file, and applying the accepted part
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface FileChangeReview {
+  change: Change;
+  filePath: string;
+  action: Change['action'];
+  oldContent?: string;
+  newContent?: string;
+  lines: DiffLine[];
+  additions: number;
+  deletions: number;
+  error?: string; // the change cannot be applied, e.g. it updates a file without content
+}
+
+// Larger files are shown as a whole-file replacement instead of a line-level diff
+const MAX_DIFF_CELLS = 4_000_000;
+const CHANGE_ACTIONS: Change['action'][] = ['create', 'update', 'delete'];
+
+// The server sends the ApiResponse as an object; a JSON string (optionally fenced) is accepted too
+export const parseApiResponse = (data: unknown): ApiResponse => {
+  let parsed: any = data;
+  if (typeof data === 'string') {
+    parsed = parseJsonText(data);
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new ValidationError('Response is not an object');
+  }
+
+  if (parsed.responseType === 'CHAT') {
+    if (typeof parsed.message !== 'string') {
+      throw new ValidationError('CHAT response has no message', 'message');
+    }
+    return { responseType: 'CHAT', message: parsed.message };
+  }
+
+  if (parsed.responseType === 'MODIFY_CODE') {
+    return { responseType: 'MODIFY_CODE', modification: parseModification(parsed.modification) };
+  }
+
+  throw new ValidationError(`Unknown response type "${parsed.responseType}"`, 'responseType');
+};
+
+// File contents may hold their own ``` fences (e.g. a README), so a fence is only stripped when it wraps the reply
+const parseJsonText = (data: string): unknown => {
+  const trimmed = data.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fenced, or with text around the object
+  }
+
+  const fenced = trimmed.match(/^```[a-z]*\s*\n([\s\S]*?)\n?```$/i);
+  const text = fenced ? fenced[1] : trimmed;
+  const firstBrace = text.indexOf('{');
+  if (firstBrace === -1) {
+    throw new ValidationError('Response is not JSON');
+  }
+  try {
+    return JSON.parse(text.slice(firstBrace, text.lastIndexOf('}') + 1));
+  } catch (error) {
+    throw new ValidationError(`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const parseModification = (modification: any): Modification => {
+  if (!modification || typeof modification !== 'object') {
+    throw new ValidationError('MODIFY_CODE response has no modification', 'modification');
+  }
+  if (!Array.isArray(modification.changes)) {
+    throw new ValidationError('Modification has no list of changes', 'changes');
+  }
+
+  const changes: Change[] = modification.changes.map((change: any, index: number) => {
+    if (!change || typeof change.filePath !== 'string' || !CHANGE_ACTIONS.includes(change.action)) {
+      throw new ValidationError(`Change ${index + 1} needs a filePath and an action of create, update or delete`, 'changes');
+    }
+    return {
+      filePath: change.filePath,
+      action: change.action,
+      content: typeof change.content === 'string' ? change.content : undefined,
+    };
+  });
+
+  return {
+    projectName: typeof modification.projectName === 'string' ? modification.projectName : undefined,
+    reason: typeof modification.reason === 'string' ? modification.reason : '',
+    changes,
+    previewHtml: typeof modification.previewHtml === 'string' ? modification.previewHtml : undefined,
+  };
+};
+
+// Paths are kept relative to the project root
+export const normalizeChangePath = (filePath: string): string => {
+  const normalized = filePath.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  if (!normalized || normalized.split('/').some(segment => segment === '..' || segment === '')) {
+    throw new ValidationError(`Invalid file path "${filePath}"`, 'filePath');
+  }
+  return normalized;
+};
+
+export const buildChangeReview = (files: Files, modification: Modification): FileChangeReview[] => {
+  return modification.changes.map(change => {
+    let filePath = change.filePath;
+    try {
+      filePath = normalizeChangePath(change.filePath);
+    } catch (error) {
+      return { change, filePath, action: change.action, lines: [], additions: 0, deletions: 0, error: (error as Error).message };
+    }
+
+    const exists = Object.prototype.hasOwnProperty.call(files, filePath);
+    const oldContent = exists ? files[filePath] : undefined;
+    const newContent = change.action === 'delete' ? undefined : change.content;
+
+    let error: string | undefined;
+    if (change.action !== 'delete' && newContent === undefined) {
+      error = `No content was sent for ${filePath}`;
+    } else if (change.action === 'delete' && !exists) {
+      error = `${filePath} does not exist`;
+    }
+
+    const lines = error ? [] : diffLines(oldContent ?? '', newContent ?? '');
+    return {
+      change,
+      filePath,
+      // An update of a missing file creates it, and a create of an existing file replaces it
+      action: change.action === 'delete' ? 'delete' : exists ? 'update' : 'create',
+      oldContent,
+      newContent,
+      lines,
+      additions: lines.filter(line => line.type === 'add').length,
+      deletions: lines.filter(line => line.type === 'remove').length,
+      error,
+    };
+  });
+};
+
+export const applyChanges = (files: Files, changes: Change[]): Files => {
+  const next = { ...files };
+  for (const change of changes) {
+    const filePath = normalizeChangePath(change.filePath);
+    if (change.action === 'delete') {
+      delete next[filePath];
+    } else if (change.content !== undefined) {
+      next[filePath] = change.content;
+    }
+  }
+  return next;
+};
+
+// The project with the changes streamed so far, shown while the response is still arriving
+export const applyStreamingProgress = (files: Files, progress: ResponseProgress): Files => {
+  const { current } = progress;
+  const changes = current?.filePath && current.action !== 'delete'
+    ? [...progress.changes, { filePath: current.filePath, action: current.action ?? 'update', content: current.content }]
+    : progress.changes;
+
+  let next = files;
+  for (const change of changes) {
+    try {
+      next = applyChanges(next, [change]);
+    } catch {
+      // Invalid paths are reported in the review once the response is complete
+    }
+  }
+  return next;
+};
+
+// Line diff via the longest common subsequence, after trimming the unchanged start and end
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'context', content: oldLines[i], oldNumber: i + 1, newNumber: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  let oldNumber = start + 1;
+  let newNumber = start + 1;
+  for (const type of diffMiddle(oldMiddle, newMiddle)) {
+    if (type === 'context') {
+      result.push({ type, content: oldLines[oldNumber - 1], oldNumber: oldNumber++, newNumber: newNumber++ });
+    } else if (type === 'remove') {
+      result.push({ type, content: oldLines[oldNumber - 1], oldNumber: oldNumber++ });
+    } else {
+      result.push({ type, content: newLines[newNumber - 1], newNumber: newNumber++ });
+    }
+  }
+
+  for (let i = oldEnd; i < oldLines.length; i++) {
+    result.push({ type: 'context', content: oldLines[i], oldNumber: oldNumber++, newNumber: newNumber++ });
+  }
+  return result;
+};
+
+// A trailing newline ends the last line rather than starting an empty one
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const diffMiddle = (oldLines: string[], newLines: string[]): DiffLine['type'][] => {
+  const n = oldLines.length;
+  const m = newLines.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    return [...Array(n).fill('remove'), ...Array(m).fill('add')];
+  }
+
+  // lcs[i * (m + 1) + j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const types: DiffLine['type'][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      types.push('context');
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      types.push('remove');
+      i++;
+    } else {
+      types.push('add');
+      j++;
+    }
+  }
+  while (i++ < n) types.push('remove');
+  while (j++ < m) types.push('add');
+  return types;
+};
@@ -0,0 +1,47 @@
+// The preview runs the generated HTML exactly as written. It is kept away from the app by the iframe sandbox,
+// which leaves out allow-same-origin so the page gets an opaque origin, and by a Content-Security-Policy.
+
+export const PREVIEW_SANDBOX = 'allow-scripts allow-forms';
+
+// Previews load Tailwind, packages, fonts and images from CDNs, and the bundled project runs from a blob: URL.
+// They cannot embed frames, submit forms or rebase URLs.
+export const PREVIEW_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval' https: blob:",
+  "style-src 'unsafe-inline' https:",
+  'img-src https: data: blob:',
+  'font-src https: data:',
+  'media-src https: data: blob:',
+  'connect-src https:',
+  "frame-src 'none'",
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * Puts the CSP and any injected scripts at the start of the document's head, so they apply before the page's own code runs.
+ * @param html The generated preview HTML.
+ * @param headContent Markup to run ahead of the page, e.g. the console interceptor.
+ */
+export const buildPreviewDocument = (html: string, headContent = ''): string => {
+  const injected = `<meta http-equiv="Content-Security-Policy" content="${escapeAttribute(PREVIEW_CSP)}">${headContent}`;
+
+  const head = html.match(/<head(\s[^>]*)?>/i);
+  if (head && head.index !== undefined) {
+    const end = head.index + head[0].length;
+    return html.slice(0, end) + injected + html.slice(end);
+  }
+
+  const root = html.match(/<html(\s[^>]*)?>/i);
+  if (root && root.index !== undefined) {
+    const end = root.index + root[0].length;
+    return `${html.slice(0, end)}<head>${injected}</head>${html.slice(end)}`;
+  }
+
+  // Keep a doctype first so the page does not drop into quirks mode
+  const doctype = html.match(/^\s*<!doctype[^>]*>/i);
+  const start = doctype ? doctype[0].length : 0;
+  return html.slice(0, start) + injected + html.slice(start);
+};
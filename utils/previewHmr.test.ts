@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildHmrRuntime, EMPTY_SNAPSHOT, markStyleBlocks, planPreviewUpdate } from './previewHmr';
+
+const page = ({ css = 'body { color: red; }', code = 'console.log(1)', body = '<div id="root"></div>' } = {}) =>
+  `<html><head><style>${css}</style><style>.b {}</style></head><body>${body}`
+  + `<script type="application/json" id="mominai-bundle">${JSON.stringify(code).replace(/</g, '\\u003c')}</script></body></html>`;
+
+describe('planPreviewUpdate', () => {
+  it('does nothing for an unchanged document', () => {
+    expect(planPreviewUpdate(page(), page())).toEqual({ kind: 'none' });
+  });
+
+  it('swaps styles in place when only CSS changed', () => {
+    expect(planPreviewUpdate(page(), page({ css: 'body { color: blue; }' }))).toEqual({
+      kind: 'patch',
+      styles: ['body { color: blue; }', '.b {}'],
+      code: null,
+    });
+  });
+
+  it('sends the new bundle when only the code changed', () => {
+    expect(planPreviewUpdate(page(), page({ code: 'console.log("</script>")' }))).toEqual({
+      kind: 'patch',
+      styles: null,
+      code: 'console.log("</script>")',
+    });
+  });
+
+  it('sends styles and code together', () => {
+    const update = planPreviewUpdate(page(), page({ css: 'p {}', code: 'x()' }));
+    expect(update).toEqual({ kind: 'patch', styles: ['p {}', '.b {}'], code: 'x()' });
+  });
+
+  it('reloads when the markup outside styles and the bundle changed', () => {
+    expect(planPreviewUpdate(page(), page({ body: '<main id="root"></main>' }))).toEqual({ kind: 'reload' });
+  });
+
+  it('reloads when a style block was added or removed', () => {
+    expect(planPreviewUpdate(page(), page().replace('<style>.b {}</style>', ''))).toEqual({ kind: 'reload' });
+  });
+
+  it('reloads when the new bundle cannot be read', () => {
+    const broken = page().replace(/id="mominai-bundle">[^<]*/, 'id="mominai-bundle">not json');
+    expect(planPreviewUpdate(page(), broken)).toEqual({ kind: 'reload' });
+  });
+
+  it('reloads plain HTML previews whose scripts changed', () => {
+    expect(planPreviewUpdate('<script>a()</script>', '<script>b()</script>')).toEqual({ kind: 'reload' });
+  });
+});
+
+describe('markStyleBlocks', () => {
+  it('numbers the style blocks in document order', () => {
+    expect(markStyleBlocks('<style>a{}</style><STYLE media="print">b{}</STYLE>')).toBe(
+      '<style data-mominai-style="0">a{}</style><style data-mominai-style="1" media="print">b{}</STYLE>'
+    );
+  });
+});
+
+describe('buildHmrRuntime', () => {
+  it('embeds the snapshot so it cannot end the script early', () => {
+    const runtime = buildHmrRuntime({ ...EMPTY_SNAPSHOT, storage: { note: '</script><script>alert(1)</script>' } });
+    expect(runtime.match(/<\/script>/g)).toHaveLength(1);
+    expect(runtime).toContain('\\u003c/script>');
+  });
+});
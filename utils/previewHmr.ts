@@ -0,0 +1,152 @@
+// Hot updates for the preview iframe. Stylesheet edits are swapped in place and a new project bundle replaces the
+// old one when the running app can clean itself up; anything else reloads the page with its URL hash, scroll
+// position and localStorage carried over.
+//
+// A bundle update unmounts the React roots and runs the whole new bundle - there is no per-module React Refresh.
+// The page, its URL, scroll position and localStorage stay, but component state and uncontrolled form input start
+// over, just as they would after a reload.
+
+export const HMR_MESSAGE_SOURCE = 'mominai-hmr';
+
+// What survives a full reload of the preview
+export interface PreviewSnapshot {
+  hash: string;
+  scrollX: number;
+  scrollY: number;
+  storage: Record<string, string>;
+}
+
+export const EMPTY_SNAPSHOT: PreviewSnapshot = { hash: '', scrollX: 0, scrollY: 0, storage: {} };
+
+export type PreviewUpdate =
+  | { kind: 'none' }
+  | { kind: 'reload' }
+  | { kind: 'patch'; styles: string[] | null; code: string | null };
+
+const STYLE_BLOCK = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+// The bundled project is embedded as a JSON string, see services/previewBundler.ts
+const BUNDLE_BLOCK = /<script type="application\/json" id="mominai-bundle">([\s\S]*?)<\/script>/i;
+
+const splitDocument = (html: string) => ({
+  styles: [...html.matchAll(STYLE_BLOCK)].map(match => match[1]),
+  bundle: html.match(BUNDLE_BLOCK)?.[1] ?? null,
+  rest: html.replace(STYLE_BLOCK, '<style></style>').replace(BUNDLE_BLOCK, ''),
+});
+
+/**
+ * Works out the smallest update that turns the previous preview document into the next one.
+ * Any change outside the `<style>` blocks and the embedded bundle needs a reload.
+ */
+export const planPreviewUpdate = (previous: string, next: string): PreviewUpdate => {
+  if (previous === next) return { kind: 'none' };
+  const before = splitDocument(previous);
+  const after = splitDocument(next);
+  if (before.rest !== after.rest || before.styles.length !== after.styles.length) {
+    return { kind: 'reload' };
+  }
+
+  const stylesChanged = after.styles.some((css, index) => css !== before.styles[index]);
+  const codeChanged = after.bundle !== before.bundle;
+  let code: string | null = null;
+  if (codeChanged) {
+    try {
+      code = JSON.parse(after.bundle ?? '');
+    } catch {
+      return { kind: 'reload' };
+    }
+  }
+  return { kind: 'patch', styles: stylesChanged ? after.styles : null, code };
+};
+
+// Numbers the document's own <style> blocks, so updates can find them among styles added by scripts such as Tailwind
+export const markStyleBlocks = (html: string): string => {
+  let index = 0;
+  return html.replace(/<style\b/gi, () => `<style data-mominai-style="${index++}"`);
+};
+
+const runtimeScript = (snapshot: PreviewSnapshot) => `
+  const SOURCE = '${HMR_MESSAGE_SOURCE}';
+  const snapshot = ${JSON.stringify(snapshot).replace(/</g, '\\u003c')};
+  const disposers = [];
+  const post = (message) => window.parent.postMessage({ source: SOURCE, ...message }, '*');
+
+  let stateTimer = null;
+  const postState = () => {
+    clearTimeout(stateTimer);
+    stateTimer = setTimeout(() => post({
+      type: 'state',
+      snapshot: { hash: location.hash, scrollX: window.scrollX, scrollY: window.scrollY, storage: snapshot.storage },
+    }), 200);
+  };
+
+  // The sandbox gives the page an opaque origin without localStorage; this one is kept by the app across reloads
+  let hasStorage = true;
+  try {
+    hasStorage = !!window.localStorage;
+  } catch (e) {
+    hasStorage = false;
+  }
+  if (!hasStorage) {
+    const data = snapshot.storage;
+    const storage = {
+      getItem: (key) => Object.prototype.hasOwnProperty.call(data, key) ? data[key] : null,
+      setItem: (key, value) => { data[String(key)] = String(value); postState(); },
+      removeItem: (key) => { delete data[key]; postState(); },
+      clear: () => { Object.keys(data).forEach(key => delete data[key]); postState(); },
+      key: (index) => Object.keys(data)[index] ?? null,
+      get length() { return Object.keys(data).length; },
+    };
+    Object.defineProperty(window, 'localStorage', { value: storage, configurable: true });
+  }
+
+  if (snapshot.hash && !location.hash) {
+    history.replaceState(null, '', snapshot.hash);
+  }
+  window.addEventListener('load', () => {
+    window.scrollTo(snapshot.scrollX, snapshot.scrollY);
+    // Apps that render after load get a second chance to reach the old position
+    setTimeout(() => window.scrollTo(snapshot.scrollX, snapshot.scrollY), 300);
+    post({ type: 'ready' });
+  });
+  window.addEventListener('hashchange', postState);
+  window.addEventListener('scroll', postState, { passive: true });
+
+  // A bundle registers a disposer when it can be replaced without a reload
+  window.__mominaiHot = { dispose: (callback) => disposers.push(callback) };
+
+  window.addEventListener('message', (event) => {
+    const data = event.data;
+    if (event.source !== window.parent || !data || data.source !== SOURCE || data.type !== 'update') return;
+
+    if (data.code !== null && disposers.length === 0) {
+      post({ type: 'reload-required' });
+      return;
+    }
+    if (data.styles) {
+      data.styles.forEach((css, index) => {
+        const style = document.querySelector('style[data-mominai-style="' + index + '"]');
+        if (style) style.textContent = css;
+      });
+    }
+    if (data.code === null) {
+      post({ type: 'applied', styles: true, code: false });
+      return;
+    }
+    try {
+      disposers.splice(0).forEach(dispose => dispose());
+    } catch (e) {
+      post({ type: 'reload-required' });
+      return;
+    }
+    import(URL.createObjectURL(new Blob([data.code], { type: 'text/javascript' })))
+      .then(() => post({ type: 'applied', styles: !!data.styles, code: true }))
+      .catch((error) => {
+        console.error(error);
+        post({ type: 'reload-required' });
+      });
+  });
+`;
+
+// The runtime goes ahead of the page's own scripts so localStorage and the hash are in place when they start.
+// It is wrapped in a function so its names cannot clash with the page's globals.
+export const buildHmrRuntime = (snapshot: PreviewSnapshot): string => `<script>(() => {${runtimeScript(snapshot)}})();</script>`;
@@ -0,0 +1,96 @@
+// Maps positions in the preview bundle back to the project files, so runtime errors point at the code the user wrote
+
+export interface OriginalPosition {
+  source: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+interface RawSourceMap {
+  sources: string[];
+  mappings: string;
+}
+
+// [generated column, source index, original line, original column], all 0-based
+type Segment = [number, number, number, number];
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+const decodeVlq = (text: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of text) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) break;
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+};
+
+const decodeMappings = (mappings: string): Segment[][] => {
+  let source = 0;
+  let line = 0;
+  let column = 0;
+  return mappings.split(';').map(group => {
+    let generatedColumn = 0;
+    const segments: Segment[] = [];
+    for (const encoded of group.split(',')) {
+      if (!encoded) continue;
+      const values = decodeVlq(encoded);
+      generatedColumn += values[0];
+      if (values.length < 4) continue; // a segment with no original position
+      source += values[1];
+      line += values[2];
+      column += values[3];
+      segments.push([generatedColumn, source, line, column]);
+    }
+    return segments;
+  });
+};
+
+/**
+ * Parses a source map once and returns a lookup from generated to original positions.
+ * @param rawMap The source map JSON.
+ * @param cleanSource Turns a source name from the map into a project path.
+ */
+export const createSourceMapLookup = (rawMap: string, cleanSource: (source: string) => string = source => source) => {
+  const map: RawSourceMap = JSON.parse(rawMap);
+  const lines = decodeMappings(map.mappings);
+
+  return (line: number, column: number): OriginalPosition | null => {
+    const segments = lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+    // The last segment starting at or before the column covers it
+    let found: Segment | undefined;
+    for (const segment of segments) {
+      if (segment[0] > column - 1) break;
+      found = segment;
+    }
+    found = found ?? segments[0];
+    return { source: cleanSource(map.sources[found[1]]), line: found[2] + 1, column: found[3] + 1 };
+  };
+};
+
+export type SourceMapLookup = ReturnType<typeof createSourceMapLookup>;
+
+/**
+ * Rewrites every `url:line:column` of the given script URL pattern in an error message or stack trace.
+ * @param text The message or stack trace.
+ * @param urlPattern Matches the URLs the bundle runs from.
+ */
+export const mapStackTrace = (text: string, lookup: SourceMapLookup, urlPattern: RegExp): string => {
+  const location = new RegExp(`(?:${urlPattern.source}):(\\d+):(\\d+)`, 'g');
+  return text.replace(location, (match, line: string, column: string) => {
+    const original = lookup(Number(line), Number(column));
+    return original ? `${original.source}:${original.line}:${original.column}` : match;
+  });
+};
@@ -0,0 +1,293 @@
+import type { ApiResponse, Change } from '../types';
+
+// Reads the ApiResponse JSON while the model is still writing it, so finished files and the one being written can be shown live
+
+export type JsonPath = (string | number)[];
+
+interface JsonStreamHandlers {
+  onValue: (path: JsonPath, value: unknown) => void; // a string, number, boolean or null is complete
+  onPartialString: (path: JsonPath, text: string) => void; // the text of a string that is still open
+  onClose: (path: JsonPath) => void; // an object or array is complete
+}
+
+type Frame = { kind: 'object'; key: string | null } | { kind: 'array'; index: number };
+type Mode = 'start' | 'value' | 'key' | 'keyOrEnd' | 'valueOrEnd' | 'colon' | 'afterValue' | 'string' | 'literal' | 'done';
+
+const WHITESPACE = /\s/;
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * A tolerant, incremental JSON tokenizer. Text before the first `{` (such as a markdown fence) is skipped,
+ * and malformed input stops the reader rather than throwing; the complete text is still parsed strictly at the end.
+ */
+class JsonStreamReader {
+  private mode: Mode = 'start';
+  private stack: Frame[] = [];
+  private stringIsKey = false;
+  private stringText = '';
+  private escape: string | null = null; // '' right after a backslash, the hex digits while reading \uXXXX
+  private literal = '';
+
+  constructor(private handlers: JsonStreamHandlers) {}
+
+  push(chunk: string) {
+    for (let i = 0; i < chunk.length && this.mode !== 'done'; i++) {
+      this.read(chunk[i]);
+    }
+    if (this.mode === 'string' && !this.stringIsKey) {
+      this.handlers.onPartialString(this.path(), this.stringText);
+    }
+  }
+
+  private path(): JsonPath {
+    return this.stack.map(frame => frame.kind === 'object' ? frame.key ?? '' : frame.index);
+  }
+
+  private read(char: string) {
+    switch (this.mode) {
+      case 'start':
+        if (char === '{') this.openContainer(char);
+        return;
+      case 'string':
+        this.readString(char);
+        return;
+      case 'literal':
+        if (char === ',' || char === '}' || char === ']' || WHITESPACE.test(char)) {
+          this.endLiteral();
+          this.read(char);
+        } else {
+          this.literal += char;
+        }
+        return;
+    }
+
+    if (WHITESPACE.test(char)) return;
+
+    switch (this.mode) {
+      case 'keyOrEnd':
+        if (char === '}') return this.closeContainer();
+        if (char === '"') return this.startString(true);
+        return this.fail();
+      case 'key':
+        if (char === '"') return this.startString(true);
+        return this.fail();
+      case 'colon':
+        if (char === ':') {
+          this.mode = 'value';
+          return;
+        }
+        return this.fail();
+      case 'valueOrEnd':
+        if (char === ']') return this.closeContainer();
+        return this.readValueStart(char);
+      case 'value':
+        return this.readValueStart(char);
+      case 'afterValue': {
+        const top = this.stack[this.stack.length - 1];
+        if (char === ',') {
+          if (top.kind === 'array') {
+            top.index++;
+            this.mode = 'value';
+          } else {
+            this.mode = 'key';
+          }
+          return;
+        }
+        if ((char === '}' && top.kind === 'object') || (char === ']' && top.kind === 'array')) {
+          return this.closeContainer();
+        }
+        return this.fail();
+      }
+    }
+  }
+
+  private readValueStart(char: string) {
+    if (char === '{' || char === '[') {
+      this.openContainer(char);
+    } else if (char === '"') {
+      this.startString(false);
+    } else {
+      this.mode = 'literal';
+      this.literal = char;
+    }
+  }
+
+  private readString(char: string) {
+    if (this.escape === null) {
+      if (char === '\\') {
+        this.escape = '';
+      } else if (char === '"') {
+        this.endString();
+      } else {
+        this.stringText += char;
+      }
+      return;
+    }
+
+    if (this.escape === '') {
+      if (char === 'u') {
+        this.escape = 'u';
+      } else {
+        this.stringText += ESCAPES[char] ?? char;
+        this.escape = null;
+      }
+      return;
+    }
+
+    // Surrogate pairs arrive as two \uXXXX escapes and join up in the UTF-16 string
+    this.escape += char;
+    if (this.escape.length === 5) {
+      const code = parseInt(this.escape.slice(1), 16);
+      if (Number.isNaN(code)) return this.fail();
+      this.stringText += String.fromCharCode(code);
+      this.escape = null;
+    }
+  }
+
+  private startString(isKey: boolean) {
+    this.mode = 'string';
+    this.stringIsKey = isKey;
+    this.stringText = '';
+    this.escape = null;
+  }
+
+  private endString() {
+    if (this.stringIsKey) {
+      const top = this.stack[this.stack.length - 1];
+      if (top.kind === 'object') top.key = this.stringText;
+      this.mode = 'colon';
+    } else {
+      this.handlers.onValue(this.path(), this.stringText);
+      this.mode = 'afterValue';
+    }
+    this.stringText = '';
+  }
+
+  private endLiteral() {
+    let value: unknown;
+    try {
+      value = JSON.parse(this.literal);
+    } catch {
+      return this.fail();
+    }
+    this.handlers.onValue(this.path(), value);
+    this.literal = '';
+    this.mode = 'afterValue';
+  }
+
+  private openContainer(char: string) {
+    if (char === '{') {
+      this.stack.push({ kind: 'object', key: null });
+      this.mode = 'keyOrEnd';
+    } else {
+      this.stack.push({ kind: 'array', index: 0 });
+      this.mode = 'valueOrEnd';
+    }
+  }
+
+  private closeContainer() {
+    // The last path part is the key or index inside the container being closed
+    this.handlers.onClose(this.path().slice(0, -1));
+    this.stack.pop();
+    this.mode = this.stack.length === 0 ? 'done' : 'afterValue';
+  }
+
+  private fail() {
+    this.mode = 'done';
+  }
+}
+
+export interface StreamingChange {
+  filePath?: string;
+  action?: Change['action'];
+  content: string; // what has arrived so far
+}
+
+export interface ResponseProgress {
+  responseType?: ApiResponse['responseType'];
+  message: string;
+  projectName?: string;
+  reason: string;
+  changes: Change[]; // entries of changes[] that are complete
+  current: StreamingChange | null; // the entry being written
+  previewHtml?: string; // only set once the whole previewHtml string has arrived
+}
+
+const CHANGE_ACTIONS: Change['action'][] = ['create', 'update', 'delete'];
+
+const isPath = (path: JsonPath, ...expected: JsonPath) =>
+  path.length === expected.length && expected.every((part, i) => part === path[i]);
+
+/**
+ * Turns raw chunks of a streamed ApiResponse into progress snapshots.
+ * @param onProgress Called after each chunk that changed what can be shown.
+ */
+export class ResponseStreamParser {
+  private progress: ResponseProgress = { message: '', reason: '', changes: [], current: null };
+  private changed = false;
+  private reader: JsonStreamReader;
+
+  constructor(private onProgress: (progress: ResponseProgress) => void) {
+    this.reader = new JsonStreamReader({
+      onValue: (path, value) => this.handleValue(path, value, true),
+      onPartialString: (path, text) => this.handleValue(path, text, false),
+      onClose: path => this.handleClose(path),
+    });
+  }
+
+  push(chunk: string) {
+    this.reader.push(chunk);
+    if (this.changed) {
+      this.changed = false;
+      this.onProgress({ ...this.progress, changes: [...this.progress.changes] });
+    }
+  }
+
+  getProgress(): ResponseProgress {
+    return this.progress;
+  }
+
+  private update(patch: Partial<ResponseProgress>) {
+    this.progress = { ...this.progress, ...patch };
+    this.changed = true;
+  }
+
+  private handleValue(path: JsonPath, value: unknown, complete: boolean) {
+    if (isPath(path, 'responseType')) {
+      if (value === 'CHAT' || value === 'MODIFY_CODE') this.update({ responseType: value });
+    } else if (isPath(path, 'message') && typeof value === 'string') {
+      this.update({ message: value });
+    } else if (isPath(path, 'modification', 'reason') && typeof value === 'string') {
+      this.update({ reason: value });
+    } else if (isPath(path, 'modification', 'projectName') && complete && typeof value === 'string') {
+      this.update({ projectName: value });
+    } else if (isPath(path, 'modification', 'previewHtml') && complete && typeof value === 'string') {
+      this.update({ previewHtml: value });
+    } else if (path.length === 4 && path[0] === 'modification' && path[1] === 'changes' && typeof path[2] === 'number') {
+      this.handleChangeField(path[3] as string, value, complete);
+    }
+  }
+
+  private handleChangeField(field: string, value: unknown, complete: boolean) {
+    const current = this.progress.current ?? { content: '' };
+    if (field === 'filePath' && complete && typeof value === 'string') {
+      this.update({ current: { ...current, filePath: value } });
+    } else if (field === 'action' && complete && CHANGE_ACTIONS.includes(value as Change['action'])) {
+      this.update({ current: { ...current, action: value as Change['action'] } });
+    } else if (field === 'content' && typeof value === 'string') {
+      this.update({ current: { ...current, content: value } });
+    }
+  }
+
+  private handleClose(path: JsonPath) {
+    if (path.length !== 3 || !isPath(path.slice(0, 2), 'modification', 'changes')) return;
+    const current = this.progress.current;
+    if (current?.filePath && current.action) {
+      const change: Change = { filePath: current.filePath, action: current.action };
+      if (current.action !== 'delete') change.content = current.content;
+      this.update({ changes: [...this.progress.changes, change], current: null });
+    } else {
+      this.update({ current: null });
+    }
+  }
+}
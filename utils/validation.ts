@@ -1,10 +1,3 @@
-// Decode HTML entities to their original characters
-export const decodeHtmlEntities = (str: string): string => {
-  if (!str) return '';
-  const textarea = document.createElement('textarea');
-  textarea.innerHTML = str;
-  return textarea.value;
-};
 // Input validation and sanitization utilities
 export class ValidationError extends Error {
   constructor(message: string, public field?: string) {
@@ -13,16 +6,6 @@ export class ValidationError extends Error {
   }
 }
 
-// Sanitize HTML content to prevent XSS
-export const sanitizeHtml = (input: string): string => {
-  return input
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#x27;')
-    .replace(/\//g, '&#x2F;');
-};
-
 // Validate and sanitize project names
 export const validateProjectName = (name: string): string => {
   if (!name || typeof name !== 'string') {
@@ -142,24 +125,3 @@ export const validateFileAttachment = (file: File): void => {
     throw new ValidationError('Image type not supported', 'file');
   }
 };
-
-// Sanitize API responses
-export const sanitizeApiResponse = (response: any): any => {
-  if (typeof response === 'string') {
-    return sanitizeHtml(response);
-  }
-  
-  if (Array.isArray(response)) {
-    return response.map(sanitizeApiResponse);
-  }
-  
-  if (response && typeof response === 'object') {
-    const sanitized: any = {};
-    for (const [key, value] of Object.entries(response)) {
-      sanitized[key] = sanitizeApiResponse(value);
-    }
-    return sanitized;
-  }
-  
-  return response;
-};
\ No newline at end of file